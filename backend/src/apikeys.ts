@@ -0,0 +1,97 @@
+/// <reference types="bun-types" />
+
+// Manages the API keys integrating dApps sign their requests with.
+//
+// Usage: bun run apikeys create <name> [--scopes verify,pay] [--rate-limit <requests per minute>]
+//        bun run apikeys list
+//        bun run apikeys revoke <key id>
+//
+// Keys with the "verify" scope may call the face verification routes; "pay" adds payouts and
+// claims. The secret is printed once, on creation. Uses the database at DATABASE_PATH, so run
+// it with the same environment as the server.
+
+import { randomBytes } from "crypto";
+import { join } from "path";
+import { ApiScope, RegistryStore } from "./services/RegistryStore";
+
+const DATABASE_PATH = process.env.DATABASE_PATH || join(process.cwd(), "data", "intellifi.sqlite");
+const SCOPES: ApiScope[] = ["verify", "pay"];
+const DEFAULT_RATE_LIMIT = 60;
+
+const USAGE = "Usage: bun run apikeys create <name> [--scopes verify,pay] [--rate-limit <n>] | list | revoke <key id>";
+
+function parseCreateArgs(argv: string[]) {
+  const options = { name: "", scopes: ["verify"] as ApiScope[], rateLimit: DEFAULT_RATE_LIMIT };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--scopes":
+        options.scopes = argv[++i].split(",").map(scope => scope.trim()) as ApiScope[];
+        break;
+      case "--rate-limit":
+        options.rateLimit = Number(argv[++i]);
+        break;
+      default:
+        options.name = argv[i];
+    }
+  }
+
+  if (!options.name || !Number.isInteger(options.rateLimit) || options.rateLimit < 1) {
+    throw new Error(USAGE);
+  }
+  const unknown = options.scopes.filter(scope => !SCOPES.includes(scope));
+  if (unknown.length > 0 || options.scopes.length === 0) {
+    throw new Error(`Scopes must be among ${SCOPES.join(", ")}`);
+  }
+  if (options.scopes.includes("pay") && !options.scopes.includes("verify")) {
+    throw new Error('The "pay" scope needs "verify" too');
+  }
+  return options;
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const store = new RegistryStore(DATABASE_PATH);
+
+  switch (command) {
+    case "create": {
+      const options = parseCreateArgs(args);
+      const key = {
+        id: `key_${randomBytes(8).toString("hex")}`,
+        name: options.name,
+        secret: randomBytes(32).toString("base64url"),
+        scopes: options.scopes,
+        rateLimit: options.rateLimit,
+        createdAt: Math.floor(Date.now() / 1000),
+        revokedAt: null
+      };
+      store.insertApiKey(key);
+      console.log(`Created API key for ${key.name} with scopes ${key.scopes.join(", ")} and ${key.rateLimit} requests per minute`);
+      console.log(`Key id: ${key.id}`);
+      console.log(`Secret: ${key.secret}`);
+      console.log("The secret is not shown again; configure it in the client now.");
+      break;
+    }
+    case "list":
+      for (const key of store.listApiKeys()) {
+        const state = key.revokedAt ? `revoked ${new Date(key.revokedAt * 1000).toISOString()}` : "active";
+        console.log(`${key.id}  ${key.name}  scopes ${key.scopes.join(",")}  ${key.rateLimit}/min  ${state}`);
+      }
+      break;
+    case "revoke":
+      if (!args[0]) {
+        throw new Error(USAGE);
+      }
+      if (!store.revokeApiKey(args[0], Math.floor(Date.now() / 1000))) {
+        throw new Error(`No active API key ${args[0]}`);
+      }
+      console.log(`Revoked ${args[0]}`);
+      break;
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -54,16 +54,54 @@ javascript: (function (s) {
       return null;
     }
   
-    // Function to release payment to a wallet address
-    async function releasePayment(walletAddress) {
+    // API key from `bun run apikeys create`; paying matches needs a key with the "pay" scope
+    const API_KEY_ID = "";
+    const API_KEY_SECRET = "";
+
+    // Function to send a request signed with the API key: an HMAC-SHA256 of the timestamp,
+    // method, path and body hash, which the server checks before running the route
+    async function signedFetch(url, options = {}) {
+      const method = (options.method || "GET").toUpperCase();
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const { pathname, search } = new URL(url);
+      const encoder = new TextEncoder();
+      const toHex = (buffer) => Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+      const bodyHash = toHex(await crypto.subtle.digest("SHA-256", encoder.encode(options.body || "")));
+      const key = await crypto.subtle.importKey("raw", encoder.encode(API_KEY_SECRET), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+      const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}\n${method}\n${pathname}${search}\n${bodyHash}`));
+
+      return fetch(url, {
+        ...options,
+        headers: {
+          ...options.headers,
+          "X-Api-Key": API_KEY_ID,
+          "X-Timestamp": timestamp,
+          "X-Signature": toHex(signature),
+        },
+      });
+    }
+
+    // Payout campaign that matched faces are paid from
+    const PAYOUT_CAMPAIGN_ID = 1;
+
+    // "release" pays each match right away; "claim" adds it to the campaign's next claim
+    // root, and the registrant claims the payout from the IntelliFi app
+    const PAYOUT_MODE = "release";
+
+    // Function to release payment to a wallet address, spending the token of its face match
+    async function releasePayment(walletAddress, verificationToken) {
       try {
-        console.log(`Automatically requesting payment release for address: ${walletAddress}`);
+        console.log(`Automatically requesting payment ${PAYOUT_MODE} from campaign ${PAYOUT_CAMPAIGN_ID} for address: ${walletAddress}`);
         
-        // Call the server to release payment
-        const releaseRes = await fetch("http://localhost:3103/api/release-payment", {
+        // Call the server to release payment or add the wallet to the claims
+        const route = PAYOUT_MODE === "claim" ? "claims" : "release-payment";
+        const releaseRes = await signedFetch(`http://localhost:3103/api/${route}`, {
           method: "POST",
           body: JSON.stringify({ 
-            walletAddress: walletAddress 
+            walletAddress: walletAddress,
+            verificationToken: verificationToken,
+            campaignId: PAYOUT_CAMPAIGN_ID
           }),
           headers: {
             "Content-Type": "application/json",
@@ -80,73 +118,152 @@ javascript: (function (s) {
       }
     }
   
-    // Add function to display verification results
+    // How often and for how long a queued payout is polled for its transaction
+    const PAYOUT_POLL_INTERVAL_MS = 3000;
+    const PAYOUT_POLL_TIMEOUT_MS = 5 * 60 * 1000;
+
+    // Function to poll a queued payout until it is confirmed or fails
+    async function waitForPayout(payout, onUpdate) {
+      const deadline = Date.now() + PAYOUT_POLL_TIMEOUT_MS;
+      while ((payout.status === "queued" || payout.status === "submitted") && Date.now() < deadline) {
+        await new Promise((resolve) => setTimeout(resolve, PAYOUT_POLL_INTERVAL_MS));
+        try {
+          const payoutRes = await signedFetch(`http://localhost:3103/api/payouts/${payout.id}`);
+          if (payoutRes.ok) {
+            payout = await payoutRes.json();
+            onUpdate(payout);
+          }
+        } catch (error) {
+          console.error("Error polling payout:", error);
+        }
+      }
+      return payout;
+    }
+
+    // Add function to display verification results: a box and a label on each face found
     function displayVerificationResult(result, imgElement) {
+      const imgContainer = imgElement.parentElement;
+      imgContainer.style.position = 'relative';
+
+      if (result.faces.length === 0) {
+        const resultDiv = document.createElement('div');
+        resultDiv.style.cssText = `
+          position: absolute;
+          bottom: 0;
+          left: 0;
+          right: 0;
+          background: rgba(0, 0, 0, 0.8);
+          color: white;
+          padding: 8px;
+          font-size: 12px;
+          border-radius: 0 0 4px 4px;
+          z-index: 1000;
+        `;
+        resultDiv.innerHTML = `<div style="color: #f87171;">✗ No Face Found</div>`;
+        imgContainer.appendChild(resultDiv);
+
+        // Remove the result after 15 seconds
+        setTimeout(() => {
+          resultDiv.remove();
+        }, 15000);
+        return;
+      }
+
+      result.faces.forEach((face) => displayFaceResult(face, imgElement));
+    }
+
+    // Function to outline one face on the image, label it, and pay it if it matched
+    function displayFaceResult(face, imgElement) {
+      // Boxes are in pixels of the image as sent; scale them to the size it is shown at
+      const scaleX = imgElement.clientWidth / imgElement.naturalWidth;
+      const scaleY = imgElement.clientHeight / imgElement.naturalHeight;
+      const box = face.boundingBox || { x: 0, y: 0, width: imgElement.naturalWidth, height: imgElement.naturalHeight };
+      const matched = face.decision === "match" && face.matchingAddress;
+
+      const boxDiv = document.createElement('div');
+      boxDiv.style.cssText = `
+        position: absolute;
+        left: ${imgElement.offsetLeft + box.x * scaleX}px;
+        top: ${imgElement.offsetTop + box.y * scaleY}px;
+        width: ${box.width * scaleX}px;
+        height: ${box.height * scaleY}px;
+        border: 2px solid ${matched ? "#4ade80" : "#f87171"};
+        box-sizing: border-box;
+        pointer-events: none;
+        z-index: 1000;
+      `;
+
       const resultDiv = document.createElement('div');
       resultDiv.style.cssText = `
         position: absolute;
-        bottom: 0;
-        left: 0;
-        right: 0;
+        top: 100%;
+        left: -2px;
+        min-width: 160px;
         background: rgba(0, 0, 0, 0.8);
         color: white;
-        padding: 8px;
+        padding: 4px 8px;
         font-size: 12px;
         border-radius: 0 0 4px 4px;
-        z-index: 1000;
       `;
+      boxDiv.appendChild(resultDiv);
+      imgElement.parentElement.appendChild(boxDiv);
+
+      if (matched) {
+        const matchHeader = `
+            <div style="color: #4ade80;">✓ Face Matched!</div>
+            <div style="font-size: 10px;">Address: ${face.matchingAddress}</div>
+            <div style="font-size: 10px;">Similarity: ${(face.similarity * 100).toFixed(2)}%</div>`;
 
-      if (result.isFaceRegistered && result.matchingAddress) {
         // Automatically attempt to release payment
         (async () => {
-          resultDiv.innerHTML = `
-            <div style="color: #4ade80;">✓ Face Matched!</div>
-            <div style="font-size: 10px;">Address: ${result.matchingAddress}</div>
-            <div style="font-size: 10px;">Similarity: ${(result.similarity * 100).toFixed(2)}%</div>
+          resultDiv.innerHTML = `${matchHeader}
             <div style="font-size: 10px; color: #f59e0b;">Releasing payment...</div>
           `;
 
-          // Position the result div relative to the image
-          const imgContainer = imgElement.parentElement;
-          imgContainer.style.position = 'relative';
-          imgContainer.appendChild(resultDiv);
-
           // Call the payment release function
-          const releaseResult = await releasePayment(result.matchingAddress);
+          const releaseResult = await releasePayment(face.matchingAddress, face.verificationToken);
           
-          if (releaseResult.success) {
-            resultDiv.innerHTML = `
-              <div style="color: #4ade80;">✓ Face Matched!</div>
-              <div style="font-size: 10px;">Address: ${result.matchingAddress}</div>
-              <div style="font-size: 10px;">Similarity: ${(result.similarity * 100).toFixed(2)}%</div>
-              <div style="font-size: 10px; color: #4ade80;">✓ Payment Released!</div>
-              <div style="font-size: 8px;">Tx: ${releaseResult.transactionHash?.substring(0, 10)}...</div>
-            `;
-          } else {
-            resultDiv.innerHTML = `
-              <div style="color: #4ade80;">✓ Face Matched!</div>
-              <div style="font-size: 10px;">Address: ${result.matchingAddress}</div>
-              <div style="font-size: 10px;">Similarity: ${(result.similarity * 100).toFixed(2)}%</div>
+          if (!releaseResult.success) {
+            resultDiv.innerHTML = `${matchHeader}
               <div style="font-size: 10px; color: #f87171;">✗ Payment Failed: ${releaseResult.error?.substring(0, 30) || 'Unknown error'}...</div>
             `;
+          } else if (PAYOUT_MODE === "claim") {
+            resultDiv.innerHTML = `${matchHeader}
+              <div style="font-size: 10px; color: #4ade80;">✓ Added to Claims!</div>
+            `;
+          } else {
+            // The server queues the payout; follow it until its transaction is mined
+            const showPayout = (payout) => {
+              resultDiv.innerHTML = payout.status === "confirmed"
+                ? `${matchHeader}
+              <div style="font-size: 10px; color: #4ade80;">✓ Payment Released!</div>
+              ${payout.transactionHash ? `<div style="font-size: 8px;">Tx: ${payout.transactionHash.substring(0, 10)}...</div>` : ''}`
+                : payout.status === "failed"
+                  ? `${matchHeader}
+              <div style="font-size: 10px; color: #f87171;">✗ Payment Failed: ${payout.error?.substring(0, 30) || 'Unknown error'}...</div>`
+                  : `${matchHeader}
+              <div style="font-size: 10px; color: #f59e0b;">Payment ${payout.status} (#${payout.id})...</div>`;
+            };
+            showPayout(releaseResult.payout);
+            showPayout(await waitForPayout(releaseResult.payout, showPayout));
           }
+
+          // Remove the result 15 seconds after the payout settles
+          setTimeout(() => {
+            boxDiv.remove();
+          }, 15000);
         })();
       } else {
         resultDiv.innerHTML = `
           <div style="color: #f87171;">✗ No Match Found</div>
-          <div style="font-size: 10px;">Best Similarity: ${(result.similarity * 100).toFixed(2)}%</div>
+          <div style="font-size: 10px;">Best Similarity: ${(face.similarity * 100).toFixed(2)}%</div>
         `;
-        
-        // Position the result div relative to the image
-        const imgContainer = imgElement.parentElement;
-        imgContainer.style.position = 'relative';
-        imgContainer.appendChild(resultDiv);
-      }
 
-      // Remove the result after 15 seconds
-      setTimeout(() => {
-        resultDiv.remove();
-      }, 15000);
+        // Remove the result after 15 seconds
+        setTimeout(() => {
+          boxDiv.remove();
+        }, 15000);
+      }
     }
   
     function initializeObserver() {
@@ -181,26 +298,19 @@ javascript: (function (s) {
                         continue;
                       }
   
-                      // First save the image
-                      const saveRes = await fetch("http://localhost:3103/api/vision", {
+                      // Send the image and verify the face in one call
+                      const verifyRes = await signedFetch("http://localhost:3103/api/v2/verify", {
                         method: "POST",
-                        body: JSON.stringify({ imageUrl: downloadableUrl }),
-                        headers: {
-                          "Content-Type": "application/json",
-                        },
-                      });
-                      const saveData = await saveRes.json();
-                      console.log("Image saved locally at:", saveData.savedImagePath);
-
-                      // Then verify the face
-                      const verifyRes = await fetch("http://localhost:3103/api/verify-face", {
-                        method: "POST",
-                        body: JSON.stringify({ imagePath: saveData.savedImagePath }),
+                        body: JSON.stringify({ image: downloadableUrl }),
                         headers: {
                           "Content-Type": "application/json",
                         },
                       });
                       const verifyData = await verifyRes.json();
+                      if (!verifyRes.ok) {
+                        console.error("Face verification failed:", verifyData.error);
+                        continue;
+                      }
                       console.log("Face verification result:", verifyData);
 
                       // Display the verification result
@@ -0,0 +1,76 @@
+/// <reference types="bun-types" />
+
+// Reports how well a similarity threshold separates a labeled set of embedding pairs.
+//
+// Usage: bun run calibrate <pairs.json|pairs.jsonl> [--model <name>] [--max-far <rate>] [--max-review-far <rate>] [--json]
+//
+// Each pair is {"a": [...], "b": [...], "same": true|false}; both embeddings must come
+// from the model being calibrated. Copy the recommended values into shared/similarityPolicy.ts.
+
+import { readFile } from "fs/promises";
+import { calibrate, parseLabeledPairs, OperatingPoint } from "./utils/calibration";
+import { similarityPolicyFor } from "../../shared/similarityPolicy";
+
+// Number of ROC rows printed in the text report
+const ROC_ROWS = 20;
+
+function parseArgs(argv: string[]) {
+  const options = { file: "", model: "analyze-face", maxFar: 0.001, maxReviewFar: 0.01, json: false };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--model":
+        options.model = argv[++i];
+        break;
+      case "--max-far":
+        options.maxFar = Number(argv[++i]);
+        break;
+      case "--max-review-far":
+        options.maxReviewFar = Number(argv[++i]);
+        break;
+      case "--json":
+        options.json = true;
+        break;
+      default:
+        options.file = argv[i];
+    }
+  }
+
+  if (!options.file || !options.model || !(options.maxFar >= 0) || !(options.maxReviewFar >= options.maxFar)) {
+    throw new Error("Usage: bun run calibrate <pairs-file> [--model <name>] [--max-far <rate>] [--max-review-far <rate>] [--json]");
+  }
+  return options;
+}
+
+function formatPoint({ threshold, far, frr }: OperatingPoint): string {
+  return `threshold ${threshold.toFixed(4)}  FAR ${(far * 100).toFixed(3)}%  FRR ${(frr * 100).toFixed(3)}%`;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const pairs = parseLabeledPairs(await readFile(options.file, "utf8"));
+  const policy = similarityPolicyFor({ name: options.model });
+  const report = calibrate(pairs, { ...options, policy });
+
+  if (options.json) {
+    console.log(JSON.stringify({ model: options.model, policy, ...report }, null, 2));
+    return;
+  }
+
+  console.log(`Calibration for ${options.model}: ${report.genuinePairs} same-person pairs, ${report.impostorPairs} different-person pairs`);
+  console.log(`AUC: ${report.auc.toFixed(4)}`);
+  console.log(`Equal error rate: ${formatPoint(report.equalErrorRate)}`);
+  console.log("");
+  console.log("ROC (sampled):");
+  const step = Math.max(1, Math.floor(report.roc.length / ROC_ROWS));
+  report.roc.filter((_, index) => index % step === 0).forEach(point => console.log(`  ${formatPoint(point)}`));
+  console.log("");
+  console.log(`Recommended threshold (FAR <= ${options.maxFar}): ${formatPoint(report.recommended)}`);
+  console.log(`Recommended review threshold (FAR <= ${options.maxReviewFar}): ${formatPoint(report.recommendedReview)}`);
+  console.log(`Current threshold: ${formatPoint(report.current.threshold)}`);
+  console.log(`Current review threshold: ${formatPoint(report.current.review)}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+/// <reference types="bun-types" />
+
+// Copies the registrations of a previous FaceRegistration deployment into the upgradeable one.
+//
+// Usage: bun run migrate [--from <legacy address>] [--from-block <n>] [--batch <n>] [--finish]
+//
+// Replays the legacy contract's Registered events and copies each wallet's current registration
+// with migrateRegistrations. Wallets that deregistered or moved away are skipped, as are wallets
+// already present, so the script can be re-run until the cutover. --finish then closes the
+// migration for good once every legacy registrant is present.
+//
+// Reads RPC_URL and CONTRACT_ADDRESS (the proxy), LEGACY_CONTRACT_ADDRESS as the default for
+// --from, and MIGRATION_PRIVATE_KEY (falling back to CONTRACT_OWNER_PRIVATE_KEY), which must
+// hold the admin role.
+
+import { ethers } from "ethers";
+import faceAbi from "./utils/faceAbi.json";
+
+// Events and views every FaceRegistration version has had; Rebound only exists since recovery
+const LEGACY_ABI = [
+  "event Registered(address indexed wallet, bytes32 faceHash, bytes publicKey, string ipfsHash, uint256 timestamp)",
+  "event Rebound(address indexed oldWallet, address indexed newWallet, bytes32 faceHash, bytes publicKey, string ipfsHash, uint256 timestamp)",
+  "function getRegistration(address wallet) view returns (tuple(address wallet, bytes publicKey, bytes32 faceHash, string ipfsHash, uint256 timestamp))",
+  "function totalRegistrants() view returns (uint256)"
+];
+
+// Maximum block span of a single eth_getLogs request
+const LOG_BLOCK_RANGE = 2000;
+
+interface Registration {
+  wallet: string;
+  publicKey: string;
+  faceHash: string;
+  ipfsHash: string;
+  timestamp: bigint;
+}
+
+function parseArgs(argv: string[]) {
+  const options = { from: process.env.LEGACY_CONTRACT_ADDRESS || "", fromBlock: 0, batch: 50, finish: false };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case "--from":
+        options.from = argv[++i];
+        break;
+      case "--from-block":
+        options.fromBlock = Number(argv[++i]);
+        break;
+      case "--batch":
+        options.batch = Number(argv[++i]);
+        break;
+      case "--finish":
+        options.finish = true;
+        break;
+      default:
+        throw new Error(`Unknown argument ${argv[i]}`);
+    }
+  }
+
+  if (!ethers.isAddress(options.from) || !Number.isInteger(options.fromBlock) || !(options.batch > 0)) {
+    throw new Error("Usage: bun run migrate [--from <legacy address>] [--from-block <n>] [--batch <n>] [--finish]");
+  }
+  return options;
+}
+
+// Wallets that have held a registration on the legacy contract, in the order they got it
+async function legacyWallets(legacy: ethers.Contract, fromBlock: number): Promise<string[]> {
+  const provider = legacy.runner!.provider!;
+  const latestBlock = await provider.getBlockNumber();
+  const topics = ["Registered", "Rebound"].map(name => legacy.interface.getEvent(name)!.topicHash);
+  const wallets = new Map<string, string>();
+
+  for (let start = fromBlock; start <= latestBlock; start += LOG_BLOCK_RANGE) {
+    const logs = await provider.getLogs({
+      address: await legacy.getAddress(),
+      topics: [topics],
+      fromBlock: start,
+      toBlock: Math.min(start + LOG_BLOCK_RANGE - 1, latestBlock)
+    });
+    for (const log of logs) {
+      const parsed = legacy.interface.parseLog(log);
+      const wallet: string = parsed?.name === "Rebound" ? parsed.args.newWallet : parsed?.args.wallet;
+      if (wallet && !wallets.has(wallet.toLowerCase())) {
+        wallets.set(wallet.toLowerCase(), wallet);
+      }
+    }
+  }
+  return [...wallets.values()];
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const privateKey = process.env.MIGRATION_PRIVATE_KEY || process.env.CONTRACT_OWNER_PRIVATE_KEY;
+  if (!process.env.RPC_URL || !process.env.CONTRACT_ADDRESS || !privateKey) {
+    throw new Error("RPC_URL, CONTRACT_ADDRESS and MIGRATION_PRIVATE_KEY must be set");
+  }
+
+  const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
+  const signer = new ethers.Wallet(privateKey, provider);
+  const legacy = new ethers.Contract(options.from, LEGACY_ABI, provider);
+  const target = new ethers.Contract(process.env.CONTRACT_ADDRESS, faceAbi, signer);
+
+  const wallets = await legacyWallets(legacy, options.fromBlock);
+  console.log(`Found ${wallets.length} wallets in the legacy contract's events`);
+
+  // Current legacy state decides what is copied: replayed events may have been undone since
+  const pending: Registration[] = [];
+  let present = 0;
+  for (const wallet of wallets) {
+    const registration = await legacy.getRegistration(wallet);
+    if (registration.wallet === ethers.ZeroAddress) {
+      continue;
+    }
+    if ((await target.getRegistration(wallet)).wallet !== ethers.ZeroAddress) {
+      present++;
+      continue;
+    }
+    pending.push({
+      wallet: registration.wallet,
+      publicKey: registration.publicKey,
+      faceHash: registration.faceHash,
+      ipfsHash: registration.ipfsHash,
+      timestamp: registration.timestamp
+    });
+  }
+  console.log(`${present} already migrated, ${pending.length} to copy`);
+
+  for (let i = 0; i < pending.length; i += options.batch) {
+    const batch = pending.slice(i, i + options.batch);
+    const tx = await target.migrateRegistrations(batch);
+    await tx.wait();
+    console.log(`Copied ${i + batch.length}/${pending.length} registrations (tx ${tx.hash})`);
+  }
+
+  const legacyTotal = Number(await legacy.totalRegistrants());
+  const copied = present + pending.length;
+  console.log(`Legacy contract has ${legacyTotal} registrants; ${copied} are now in ${process.env.CONTRACT_ADDRESS}`);
+
+  if (options.finish) {
+    if (copied < legacyTotal) {
+      throw new Error("Not finishing: some legacy registrants were not found in the events; check --from-block");
+    }
+    await (await target.finishMigration()).wait();
+    console.log("Migration finished; migrateRegistrations is now disabled");
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
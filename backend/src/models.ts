@@ -0,0 +1,163 @@
+/// <reference types="bun-types" />
+
+// Downloads the face models the frontend and the verifier run, checked against pinned checksums.
+//
+// Usage: bun run models fetch
+//        bun run models check
+//        bun run models pin
+//
+// "fetch" installs any missing model into MODELS_DIR (../public/models by default) from the
+// InsightFace buffalo_s pack, refusing files whose SHA-256 differs from models.sha256. "check"
+// only verifies the installed files. "pin" downloads the pack and records the checksums of what
+// it got in models.sha256; review and commit that file, since every later fetch trusts it.
+
+import { createHash } from "crypto";
+import { mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const MODELS_DIR = process.env.MODELS_DIR || join(process.cwd(), "..", "public", "models");
+const MODELS_ARCHIVE_URL = process.env.MODELS_ARCHIVE_URL
+  || "https://github.com/deepinsight/insightface/releases/download/v0.7/buffalo_s.zip";
+const CHECKSUMS_PATH = join(import.meta.dir, "..", "models.sha256");
+
+// The detector and embedder out of the pack; the other models in it are not used
+const MODEL_FILES = ["det_500m.onnx", "w600k_mbf.onnx"];
+
+const USAGE = "Usage: bun run models fetch | check | pin";
+
+// Kept at the top of models.sha256; lines that are not checksums are ignored
+const CHECKSUMS_HEADER = [
+  "# SHA-256 of each face model, in sha256sum format. \"bun run models fetch\" only installs files",
+  "# matching these. Record them with \"bun run models pin\" and review them before committing."
+];
+
+function sha256(bytes: Buffer): string {
+  return createHash("sha256").update(bytes).digest("hex");
+}
+
+// Reads models.sha256, in sha256sum format
+async function readChecksums(): Promise<Map<string, string>> {
+  const checksums = new Map<string, string>();
+  const text = await readFile(CHECKSUMS_PATH, "utf8").catch(() => "");
+  for (const line of text.split("\n")) {
+    const match = /^([0-9a-f]{64})\s+\*?(\S+)$/.exec(line.trim());
+    if (match) {
+      checksums.set(match[2], match[1]);
+    }
+  }
+  return checksums;
+}
+
+async function readInstalled(file: string): Promise<Buffer | null> {
+  return readFile(join(MODELS_DIR, file)).catch(() => null);
+}
+
+/**
+ * Downloads the model pack and extracts the models from it
+ * @returns Each model's bytes by file name
+ */
+async function downloadModels(): Promise<Map<string, Buffer>> {
+  console.log(`Downloading ${MODELS_ARCHIVE_URL}`);
+  const response = await fetch(MODELS_ARCHIVE_URL);
+  if (!response.ok) {
+    throw new Error(`Could not download the models: HTTP ${response.status}`);
+  }
+
+  const directory = await mkdtemp(join(tmpdir(), "models-"));
+  try {
+    const archive = join(directory, "models.zip");
+    await writeFile(archive, Buffer.from(await response.arrayBuffer()));
+
+    const entries = Bun.spawnSync(["unzip", "-Z1", archive]).stdout.toString().split("\n");
+    const models = new Map<string, Buffer>();
+    for (const file of MODEL_FILES) {
+      const entry = entries.find(name => name === file || name.endsWith(`/${file}`));
+      if (!entry) {
+        throw new Error(`${file} is not in ${MODELS_ARCHIVE_URL}`);
+      }
+      const extracted = Bun.spawnSync(["unzip", "-p", archive, entry]);
+      if (extracted.exitCode !== 0) {
+        throw new Error(`Could not extract ${file}: ${extracted.stderr.toString()}`);
+      }
+      models.set(file, Buffer.from(extracted.stdout));
+    }
+    return models;
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  const [command] = process.argv.slice(2);
+  const checksums = await readChecksums();
+
+  switch (command) {
+    case "fetch": {
+      const missing: string[] = [];
+      for (const file of MODEL_FILES) {
+        const installed = await readInstalled(file);
+        if (installed && sha256(installed) === checksums.get(file)) {
+          console.log(`${file} is installed`);
+        } else {
+          missing.push(file);
+        }
+      }
+      if (missing.length === 0) {
+        break;
+      }
+
+      const unpinned = missing.filter(file => !checksums.has(file));
+      if (unpinned.length > 0) {
+        throw new Error(`No checksum is pinned for ${unpinned.join(", ")}; run "bun run models pin" and commit models.sha256`);
+      }
+      const models = await downloadModels();
+      await mkdir(MODELS_DIR, { recursive: true });
+      for (const file of missing) {
+        const bytes = models.get(file)!;
+        if (sha256(bytes) !== checksums.get(file)) {
+          throw new Error(`${file} does not match its pinned checksum; refusing to install it`);
+        }
+        await writeFile(join(MODELS_DIR, file), bytes);
+        console.log(`Installed ${file}`);
+      }
+      break;
+    }
+    case "check": {
+      const failures: string[] = [];
+      for (const file of MODEL_FILES) {
+        const installed = await readInstalled(file);
+        if (!installed) {
+          failures.push(`${file} is missing`);
+        } else if (sha256(installed) !== checksums.get(file)) {
+          failures.push(`${file} does not match its pinned checksum`);
+        }
+      }
+      if (failures.length > 0) {
+        throw new Error(`${failures.join("\n")}\nRun "bun run models fetch" to install the models into ${MODELS_DIR}`);
+      }
+      console.log(`Models in ${MODELS_DIR} match models.sha256`);
+      break;
+    }
+    case "pin": {
+      const models = await downloadModels();
+      await mkdir(MODELS_DIR, { recursive: true });
+      const lines: string[] = [];
+      for (const [file, bytes] of models) {
+        await writeFile(join(MODELS_DIR, file), bytes);
+        lines.push(`${sha256(bytes)}  ${file}`);
+        console.log(`Pinned ${file} ${sha256(bytes)}`);
+      }
+      await writeFile(CHECKSUMS_PATH, `${[...CHECKSUMS_HEADER, ...lines].join("\n")}\n`);
+      console.log(`Wrote ${CHECKSUMS_PATH}; review it and commit it`);
+      break;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
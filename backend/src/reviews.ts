@@ -0,0 +1,63 @@
+/// <reference types="bun-types" />
+
+// Lists and resolves the uniqueness checks queued for manual review.
+//
+// Usage: bun run reviews list [--all]
+//        bun run reviews approve <case id>
+//        bun run reviews reject <case id>
+//
+// A check is queued when a registration's closest match falls in the review band of the
+// similarity policy. Approving a case lets the wallet register with the reviewed capture on its
+// next uniqueness check; rejecting it keeps the wallet from being queued again. Uses the database
+// at DATABASE_PATH, so run it with the same environment as the server.
+
+import { join } from "path";
+import { RegistryStore } from "./services/RegistryStore";
+
+const DATABASE_PATH = process.env.DATABASE_PATH || join(process.cwd(), "data", "intellifi.sqlite");
+
+const USAGE = "Usage: bun run reviews list [--all] | approve <case id> | reject <case id>";
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  const store = new RegistryStore(DATABASE_PATH);
+
+  switch (command) {
+    case "list": {
+      const cases = store.listReviewCases(args.includes("--all") ? undefined : "open");
+      for (const reviewCase of cases) {
+        const matches = reviewCase.matches
+          .map(match => `${match.address} ${match.similarity.toFixed(3)}`)
+          .join(", ");
+        const state = reviewCase.resolvedAt
+          ? `${reviewCase.status} ${new Date(reviewCase.resolvedAt * 1000).toISOString()}`
+          : reviewCase.status;
+        console.log(`${reviewCase.id}  ${reviewCase.wallet ?? "anonymous"}  ${reviewCase.ipfsHash ?? "-"}  ${reviewCase.model.name}  ${new Date(reviewCase.createdAt * 1000).toISOString()}  ${state}`);
+        console.log(`    closest: ${matches || "none"}`);
+      }
+      if (cases.length === 0) {
+        console.log("No review cases");
+      }
+      break;
+    }
+    case "approve":
+    case "reject": {
+      const id = Number(args[0]);
+      if (!Number.isInteger(id)) {
+        throw new Error(USAGE);
+      }
+      if (!store.resolveReviewCase(id, command === "approve" ? "approved" : "rejected", Math.floor(Date.now() / 1000))) {
+        throw new Error(`No open review case ${args[0]}`);
+      }
+      console.log(`${command === "approve" ? "Approved" : "Rejected"} review case ${id}`);
+      break;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
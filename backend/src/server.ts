@@ -2,61 +2,167 @@
 
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
-import { readFile, writeFile } from "fs/promises";
 import { join } from "path";
-import { mkdir } from "fs/promises";
 import { ethers } from 'ethers';
 import faceAbi from './utils/faceAbi.json';
+import { EmbeddingIndex, normalizeEmbedding } from './services/EmbeddingIndex';
+import { ApiKeyRecord, ApiScope, PayoutJob, RegistryStore, RegistrationPosition, RegistrationRecord } from './services/RegistryStore';
+import { ContractIndexer } from './services/ContractIndexer';
+import { API_KEY_HEADER, ApiAuthenticator, SIGNATURE_HEADER, TIMESTAMP_HEADER } from './services/ApiAuthenticator';
+import { RateLimiter } from './services/RateLimiter';
+import { VerificationTokens } from './services/VerificationTokens';
+import { ImageRejectedError, ImageStore } from './services/ImageStore';
+import { NonceManager } from './services/NonceManager';
+import { PayoutQueue } from './services/PayoutQueue';
+import { VerifierSigner, hashEmbedding, attestationDomain } from './services/VerifierSigner';
+import { EnvelopeKeyring, readEmbeddingPayload } from './services/EnvelopeKeyring';
+import { ANALYZE_FACE_MODEL, EmbeddingModelInfo, EmbeddingModelSpec, embeddingModelFor, sameEmbeddingModel, validateEmbeddingModel } from '../../shared/embeddingPayload';
+import { W600K_MBF_MODEL } from '../../shared/faceEmbedding';
+import { classifySimilarity, hasSimilarityPolicy, similarityPolicyFor } from '../../shared/similarityPolicy';
+import { LivenessEvidence, validateLivenessEvidence } from '../../shared/livenessPolicy';
+import { EmbeddingProvider, FaceBox, ImageEmbedding, createEmbeddingProvider } from './services/EmbeddingProvider';
+import { FIXTURE_MODEL } from './services/FixtureEmbeddingProvider';
+import { FaceDetector, cropFace } from './services/FaceDetector';
+import { fetchFromIPFS, unpinFromPinata } from './utils/ipfs';
+import { buildClaimTree } from './utils/merkle';
+import { ContractCallError, ContractErrorCode, decodeContractError, sendContractTransaction, simulateContractCall } from '../../shared/contractCalls';
 
 // IPFS Configuration
 const PINATA_JWT = process.env.PINATA_JWT;
 const PINATA_GATEWAY = 'https://gateway.pinata.cloud/ipfs';
 
-// Face verification configuration
-const SIMILARITY_THRESHOLD = 0.40;
+// How long a registration attestation stays valid
+const ATTESTATION_TTL_SECONDS = 15 * 60;
 
-// List of IPFS gateways to try
-const IPFS_GATEWAYS = [
-  "https://gateway.pinata.cloud/ipfs/",
-  "https://ipfs.io/ipfs/",
-  "https://cloudflare-ipfs.com/ipfs/",
-  "https://dweb.link/ipfs/"
-];
+// How long the verification token of a face match may be spent on a payout
+const VERIFICATION_TOKEN_TTL_SECONDS = 5 * 60;
+
+// Number of nearest registrants returned by an index query
+const TOP_K_MATCHES = 5;
+
+// Page sizes for the registrant listing
+const DEFAULT_REGISTRANTS_PAGE = 100;
+const MAX_REGISTRANTS_PAGE = 500;
+
+// Contract indexer configuration
+const DATABASE_PATH = process.env.DATABASE_PATH || join(process.cwd(), "data", "intellifi.sqlite");
+const INDEX_START_BLOCK = Number(process.env.INDEX_START_BLOCK || 0);
+const INDEX_CONFIRMATIONS = Number(process.env.INDEX_CONFIRMATIONS || 12);
+const INDEX_BLOCK_RANGE = 2000;
+const INDEX_SYNC_INTERVAL_MS = 15000;
+
+// Previous deployment, indexed alongside CONTRACT_ADDRESS while its registrations are migrated
+const LEGACY_CONTRACT_ADDRESS = process.env.LEGACY_CONTRACT_ADDRESS;
+const LEGACY_INDEX_START_BLOCK = Number(process.env.LEGACY_INDEX_START_BLOCK || INDEX_START_BLOCK);
+const LEGACY_DATABASE_PATH = process.env.LEGACY_DATABASE_PATH || join(process.cwd(), "data", "intellifi-legacy.sqlite");
+
+// How often newly verified wallets are published as a campaign's claim root; each publication is one transaction
+const CLAIM_ROOT_INTERVAL_MS = Number(process.env.CLAIM_ROOT_INTERVAL_MS || 10 * 60 * 1000);
+
+// How often payout jobs are sent and followed up on, and how long a transaction may go unmined before it is resent with higher fees
+const PAYOUT_QUEUE_INTERVAL_MS = Number(process.env.PAYOUT_QUEUE_INTERVAL_MS || 5000);
+const PAYOUT_STUCK_AFTER_SECONDS = Number(process.env.PAYOUT_STUCK_AFTER_SECONDS || 180);
+const PAYOUT_MAX_FEE_BUMPS = 5;
+const PAYOUT_MAX_ATTEMPTS = 5;
 
 // External API endpoints
-const COMPARE_API_URL = "https://cdirks4--face-analysis-api-v0-1-compare-face-with-ipfs.modal.run";
+const ANALYZE_API_URL = "https://cdirks4--face-analysis-api-analyze-face.modal.run";
+
+// Embeds probe images: "local" (the frontend's models), "remote" (analyze API) or "fixture"
+// (deterministic, for tests)
+const EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || "local";
+
+// Embedding models clients may send probes from, by name; see probeModel
+const EMBEDDING_MODELS = (process.env.EMBEDDING_MODELS || W600K_MBF_MODEL.name)
+  .split(",")
+  .map(name => name.trim())
+  .filter(Boolean);
 
 // Add constants for image storage
 const IMAGE_STORAGE_DIR = join(process.cwd(), "public", "images");
 
+// Hosts /api/vision fetches images from, with their subdomains: Messenger's CDN by default
+const IMAGE_ALLOWED_HOSTS = (process.env.IMAGE_ALLOWED_HOSTS || "fbcdn.net,messenger.com,facebook.com")
+  .split(",")
+  .map(host => host.trim().toLowerCase())
+  .filter(host => host !== "");
+const IMAGE_MAX_BYTES = Number(process.env.IMAGE_MAX_BYTES || 10 * 1024 * 1024);
+const IMAGE_MAX_PIXELS = 40_000_000;
+
+// Largest request body accepted: an image of IMAGE_MAX_BYTES as a base64 data URL, with room
+// for the rest of the JSON or multipart body. Larger bodies are refused before they are read.
+const MAX_REQUEST_BODY_BYTES = Math.ceil(IMAGE_MAX_BYTES * 4 / 3) + 64 * 1024;
+
+// How long ingested images are kept, and how often older ones are deleted
+const IMAGE_MAX_AGE_SECONDS = Number(process.env.IMAGE_MAX_AGE_SECONDS || 24 * 60 * 60);
+const IMAGE_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// SCRFD detector model that finds every face in an image; the frontend's copy by default
+const FACE_DETECTOR_MODEL_PATH = process.env.FACE_DETECTOR_MODEL_PATH || join(process.cwd(), "..", "public", "models", "det_500m.onnx");
+
+// Embedder model of the local embedding provider; the frontend's copy by default
+const FACE_EMBEDDER_MODEL_PATH = process.env.FACE_EMBEDDER_MODEL_PATH || join(process.cwd(), "..", "public", "models", "w600k_mbf.onnx");
+
+// Faces matched per image at most, which bounds the embedding calls one request makes
+const MAX_FACES_PER_IMAGE = 10;
+
+// Debugging aid: keep the images /api/v2/verify receives and report their ids
+const VERIFY_DEBUG_SAVE_IMAGES = process.env.VERIFY_DEBUG_SAVE_IMAGES === "true";
+
 //Facebook Messenger whitelists this localhost port so is the only one you can currently use
 const PORT = 3103;
 
+// Origins browsers may call the API from: the IntelliFi app and Messenger, where the bookmarklet runs
+const CORS_ALLOWED_ORIGINS = (process.env.CORS_ALLOWED_ORIGINS || "http://localhost:5173,https://www.messenger.com")
+  .split(",")
+  .map(origin => origin.trim())
+  .filter(origin => origin !== "");
+
+// Access-Control-Allow-Origin is added per request, for allowed origins only
 const CORS_HEADERS = {
   headers: {
-    "Access-Control-Allow-Origin": "*",
-    "Access-Control-Allow-Methods": "OPTIONS, POST",
-    "Access-Control-Allow-Headers": "Content-Type",
+    "Access-Control-Allow-Methods": "OPTIONS, GET, POST",
+    "Access-Control-Allow-Headers": `Content-Type, ${API_KEY_HEADER}, ${TIMESTAMP_HEADER}, ${SIGNATURE_HEADER}`,
   },
 };
 
+// Requests per minute from one IP address, on every route
+const RATE_LIMIT_PER_IP = Number(process.env.RATE_LIMIT_PER_IP || 120);
+
+// Routes integrating dApps call, with the scope their API key needs; every other route is public
+const SIGNED_ROUTES: Record<string, ApiScope> = {
+  "POST /api/vision": "verify",
+  "POST /api/verify-face": "verify",
+  "POST /api/v2/verify": "verify",
+  "GET /api/registrants": "verify",
+  "POST /api/release-payment": "pay",
+  "POST /api/claims": "pay",
+  "GET /api/payouts/": "pay"
+};
+
 // Add smart contract configuration
 const RPC_URL = process.env.RPC_URL;
 const CONTRACT_ADDRESS = process.env.CONTRACT_ADDRESS;
 const CONTRACT_OWNER_PRIVATE_KEY = process.env.CONTRACT_OWNER_PRIVATE_KEY;
+const VERIFIER_PRIVATE_KEY = process.env.VERIFIER_PRIVATE_KEY;
+
+// Key that browsers encrypt embeddings to before pinning them
+const ENVELOPE_KEY_PATH = process.env.ENVELOPE_KEY_PATH || join(process.cwd(), "data", "envelope-key.json");
 
 // Initialize ethers provider and contract
 const provider = new ethers.JsonRpcProvider(RPC_URL);
 const contract = new ethers.Contract(CONTRACT_ADDRESS!, faceAbi, provider);
 
-// Initialize contract with signer for transactions
+// Initialize contract with signer for transactions. Every transaction it sends takes its nonce from the nonce manager.
 let contractWithSigner: ethers.Contract | null = null;
+let nonceManager: NonceManager | null = null;
 
 // Initialize the contract with signer if private key is available
 if (CONTRACT_OWNER_PRIVATE_KEY) {
   try {
     const wallet = new ethers.Wallet(CONTRACT_OWNER_PRIVATE_KEY, provider);
     contractWithSigner = new ethers.Contract(CONTRACT_ADDRESS!, faceAbi, wallet);
+    nonceManager = new NonceManager(wallet);
     console.log("Contract owner wallet initialized successfully");
   } catch (error) {
     console.error("Failed to initialize contract owner wallet:", error);
@@ -65,76 +171,441 @@ if (CONTRACT_OWNER_PRIVATE_KEY) {
   console.warn("CONTRACT_OWNER_PRIVATE_KEY not provided. Payment release functionality will not work.");
 }
 
-// Function to get all registered faces from the contract
-async function getRegisteredFaces(): Promise<{ address: string; ipfsHash: string }[]> {
+// Initialize the verifier key that signs uniqueness results
+let verifierSigner: VerifierSigner | null = null;
+
+if (VERIFIER_PRIVATE_KEY) {
   try {
-    const totalRegistrants = await contract.totalRegistrants();
-    const faces: { address: string; ipfsHash: string }[] = [];
-
-    for (let i = 0; i < totalRegistrants; i++) {
-      const address = await contract.registrants(i);
-      const registration = await contract.getRegistration(address);
-      faces.push({ 
-        address: registration.wallet,
-        ipfsHash: registration.ipfsHash
+    verifierSigner = new VerifierSigner(VERIFIER_PRIVATE_KEY);
+    console.log(`Verifier key initialized: ${verifierSigner.address}`);
+  } catch (error) {
+    console.error("Failed to initialize verifier key:", error);
+  }
+} else {
+  console.warn("VERIFIER_PRIVATE_KEY not provided. Uniqueness checks will not work.");
+}
+
+// Local store of indexed contract events, kept up to date by the indexer
+const registryStore = new RegistryStore(DATABASE_PATH);
+const contractIndexer = new ContractIndexer(contract, registryStore, {
+  startBlock: INDEX_START_BLOCK,
+  confirmations: INDEX_CONFIRMATIONS,
+  blockRange: INDEX_BLOCK_RANGE
+});
+
+// Persistent queue of releasePayment transactions
+const payoutQueue = contractWithSigner && nonceManager
+  ? new PayoutQueue(contractWithSigner, nonceManager, registryStore, {
+      stuckAfterSeconds: PAYOUT_STUCK_AFTER_SECONDS,
+      maxFeeBumps: PAYOUT_MAX_FEE_BUMPS,
+      maxAttempts: PAYOUT_MAX_ATTEMPTS
+    })
+  : null;
+if (payoutQueue) {
+  setInterval(() => payoutQueue.process(), PAYOUT_QUEUE_INTERVAL_MS);
+}
+
+// During a cutover the previous deployment is indexed into its own store, so registrations
+// not yet migrated still count for uniqueness. Payouts and claims only use the current contract.
+const legacyRegistryStore = LEGACY_CONTRACT_ADDRESS ? new RegistryStore(LEGACY_DATABASE_PATH) : null;
+const legacyIndexer = legacyRegistryStore
+  ? new ContractIndexer(new ethers.Contract(LEGACY_CONTRACT_ADDRESS!, faceAbi, provider), legacyRegistryStore, {
+      startBlock: LEGACY_INDEX_START_BLOCK,
+      confirmations: INDEX_CONFIRMATIONS,
+      blockRange: INDEX_BLOCK_RANGE
+    })
+  : null;
+if (legacyRegistryStore) {
+  console.log(`Reading legacy registrations from ${LEGACY_CONTRACT_ADDRESS} during the cutover`);
+}
+
+// Active registrations on the current contract and, during a cutover, the legacy one. A wallet
+// the current contract knows about, even one that since deregistered, is taken from it alone.
+function listActiveRegistrations(): RegistrationRecord[] {
+  const registrations = registryStore.listRegistrations();
+  if (!legacyRegistryStore) {
+    return registrations;
+  }
+  const known = registryStore.listWalletKeys();
+  return registrations.concat(
+    legacyRegistryStore.listRegistrations().filter(registration => !known.has(registration.wallet.toLowerCase()))
+  );
+}
+
+// Private key for encrypted embedding envelopes, generated on first start
+const envelopeKeyring = await EnvelopeKeyring.loadOrCreate(ENVELOPE_KEY_PATH);
+console.log(`Envelope key loaded: ${envelopeKeyring.kid}`);
+
+// In-process index of every registrant's embedding
+const embeddingIndex = new EmbeddingIndex(envelopeKeyring);
+
+// Bring the embedding index in line with the indexed registrations
+async function refreshEmbeddingIndex(): Promise<void> {
+  const registrations = listActiveRegistrations();
+  const registered = new Set(registrations.map(registration => registration.wallet.toLowerCase()));
+
+  // Drop registrants that disappeared from the store (e.g. after a reorg)
+  for (const address of embeddingIndex.addresses()) {
+    if (!registered.has(address.toLowerCase())) {
+      embeddingIndex.remove(address);
+    }
+  }
+
+  for (const { wallet, ipfsHash } of registrations) {
+    // Skip if no IPFS hash or already indexed
+    if (!ipfsHash || embeddingIndex.has(wallet, ipfsHash)) {
+      continue;
+    }
+
+    const cached = registryStore.getEmbedding(ipfsHash);
+    if (cached) {
+      embeddingIndex.upsert(wallet, ipfsHash, cached.vector, cached.model);
+      continue;
+    }
+
+    try {
+      const indexed = await embeddingIndex.addFromIPFS(wallet, ipfsHash);
+      if (indexed) {
+        registryStore.putEmbedding(ipfsHash, indexed);
+      }
+    } catch (error) {
+      // Not cached, so the next sync retries the fetch
+      console.error(`Error indexing embedding for ${wallet}:`, error);
+    }
+  }
+}
+
+// Unpin and purge the face data of deregistered wallets. Failures stay queued for the next sync.
+async function processErasures(): Promise<void> {
+  for (const store of [registryStore, legacyRegistryStore]) {
+    if (store) {
+      await processStoreErasures(store);
+    }
+  }
+}
+
+async function processStoreErasures(store: RegistryStore): Promise<void> {
+  for (const erasure of store.listPendingErasures()) {
+    if (!PINATA_JWT) {
+      console.warn(`Cannot unpin ${erasure.ipfsHash} of ${erasure.wallet}: PINATA_JWT is not set`);
+      continue;
+    }
+
+    try {
+      const unpinned = await unpinFromPinata(erasure.ipfsHash, PINATA_JWT);
+      const erasedAt = Math.floor(Date.now() / 1000);
+      store.completeErasure(erasure, erasedAt);
+      if (store !== registryStore) {
+        // Embeddings and review cases derived from the payload are cached in the current store
+        registryStore.completeErasure(erasure, erasedAt);
+      }
+      console.log(`Erased face data of ${erasure.wallet} (${erasure.ipfsHash}${unpinned ? '' : ', was not pinned'})`);
+    } catch (error) {
+      console.error(`Error erasing face data of ${erasure.wallet}:`, error);
+    }
+  }
+}
+
+// Run one sync at a time; callers share the in-flight run
+let indexSync: Promise<void> | null = null;
+function runIndexSync(): Promise<void> {
+  if (!indexSync) {
+    indexSync = Promise.all([contractIndexer.sync(), legacyIndexer?.sync()])
+      .then(refreshEmbeddingIndex)
+      .then(processErasures)
+      .catch(error => console.error('Error syncing contract index:', error))
+      .finally(() => { indexSync = null; });
+  }
+  return indexSync;
+}
+
+const initialIndexSync = runIndexSync().then(() => {
+  console.log(`Contract index ready with ${registryStore.countRegistrations()} registrants, ${embeddingIndex.size} embeddings`);
+});
+setInterval(runIndexSync, INDEX_SYNC_INTERVAL_MS);
+
+// Publish a claim root for every running campaign with newly verified wallets. Each root covers all
+// of the campaign's wallets, so earlier proofs are reissued against it. Failures are retried next run.
+async function publishClaimRoots(): Promise<void> {
+  if (!contractWithSigner || !nonceManager) {
+    return;
+  }
+
+  for (const campaignId of registryStore.listUnpublishedClaimCampaigns()) {
+    const campaign = registryStore.getCampaign(campaignId);
+    if (!campaign || campaign.endsAt < Math.floor(Date.now() / 1000)) {
+      continue;
+    }
+
+    const entries = registryStore.listClaimEntries(campaignId);
+    const tree = buildClaimTree(campaignId, entries.map(entry => entry.wallet));
+    try {
+      const tx = await nonceManager.send(nonce =>
+        sendContractTransaction(contractWithSigner!, "setClaimRoot", [campaignId, tree.root], { nonce })
+      );
+      await tx.wait();
+      registryStore.recordClaimRoot({
+        campaignId,
+        root: tree.root,
+        lastEntryId: entries[entries.length - 1].id,
+        transactionHash: tx.hash,
+        publishedAt: Math.floor(Date.now() / 1000)
       });
+      console.log(`Published claim root of campaign ${campaignId} for ${entries.length} wallets: ${tree.root}`);
+    } catch (error) {
+      console.error(`Error publishing claim root of campaign ${campaignId}:`, decodeContractError(error).message);
+    }
+  }
+}
+
+// Run one publication at a time
+let claimPublication: Promise<void> | null = null;
+setInterval(() => {
+  claimPublication ??= publishClaimRoots().finally(() => { claimPublication = null; });
+}, CLAIM_ROOT_INTERVAL_MS);
+
+// The allow-list of probe models. The index only compares embeddings from the same model, so
+// a probe from any other model would match no one; each accepted model also needs a calibrated
+// similarity policy rather than the default one.
+const KNOWN_EMBEDDING_MODELS: EmbeddingModelSpec[] = [W600K_MBF_MODEL, ANALYZE_FACE_MODEL, FIXTURE_MODEL];
+const acceptedEmbeddingModels = EMBEDDING_MODELS.map(name => {
+  const model = KNOWN_EMBEDDING_MODELS.find(known => known.name === name);
+  if (!model) {
+    throw new Error(`Unknown embedding model in EMBEDDING_MODELS: ${name}`);
+  }
+  if (!hasSimilarityPolicy(model)) {
+    throw new Error(`Embedding model ${name} has no similarity policy in shared/similarityPolicy.ts`);
+  }
+  return model;
+});
+console.log(`Accepted embedding models: ${EMBEDDING_MODELS.join(", ")}`);
+
+// Whether a model is on the allow-list; a dimension left open matches any
+function acceptsEmbeddingModel(model: EmbeddingModelSpec): boolean {
+  return acceptedEmbeddingModels.some(accepted =>
+    accepted.name === model.name &&
+    accepted.normalization === model.normalization &&
+    accepted.preprocessingHash === model.preprocessingHash &&
+    (accepted.dimension === undefined || model.dimension === undefined || accepted.dimension === model.dimension)
+  );
+}
+
+// Finds the faces in verified images
+const faceDetector = new FaceDetector(FACE_DETECTOR_MODEL_PATH);
+
+// Embeds probe images once; verification then compares against the index locally
+const embeddingProvider: EmbeddingProvider = createEmbeddingProvider(EMBEDDING_PROVIDER, {
+  remoteUrl: ANALYZE_API_URL,
+  detector: faceDetector,
+  embedderModelPath: FACE_EMBEDDER_MODEL_PATH
+});
+console.log(`Embedding provider: ${embeddingProvider.name} (${embeddingProvider.model.name})`);
+
+// Verified faces are only compared with enrollments from the same model, so a provider
+// embedding with any other model would never find a registrant
+if (!acceptsEmbeddingModel(embeddingProvider.model)) {
+  console.error(`❌ The ${embeddingProvider.name} embedding provider embeds with ${embeddingProvider.model.name}, but enrollments use ${EMBEDDING_MODELS.join(", ")} (EMBEDDING_MODELS).`);
+  console.error("Set EMBEDDING_PROVIDER to a provider running the enrollment model, or FACE_EMBEDDER_MODEL_PATH to that model.");
+  process.exit(1);
+}
+
+// The face models are not committed. Until they load, the routes that verify images answer 503
+// rather than verifying images without finding their faces; the rest of the server keeps running.
+// Each verification retries a failed load, so installing the models needs no restart.
+let faceModelsLoading: Promise<boolean> | null = null;
+function loadFaceModels(): Promise<boolean> {
+  faceModelsLoading ??= (async () => {
+    await faceDetector.load();
+    await embeddingProvider.load?.();
+    console.log(`Face models loaded from ${FACE_DETECTOR_MODEL_PATH}${EMBEDDING_PROVIDER === "local" ? ` and ${FACE_EMBEDDER_MODEL_PATH}` : ""}`);
+    return true;
+  })().catch(error => {
+    console.error(`❌ Could not load the face models, face verification is unavailable: ${error instanceof Error ? error.message : error}`);
+    console.error('Run "bun run models fetch" to install the models, or set FACE_DETECTOR_MODEL_PATH and FACE_EMBEDDER_MODEL_PATH.');
+    faceModelsLoading = null;
+    return false;
+  });
+  return faceModelsLoading;
+}
+loadFaceModels();
+
+function faceModelsUnavailable(): Response {
+  return new Response(
+    JSON.stringify({ error: "Face verification is unavailable: the face models are not installed" }),
+    { 
+      status: 503, 
+      headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
     }
+  );
+}
 
-    return faces;
+// Images sent for verification, ingested under opaque ids
+const imageStore = new ImageStore({
+  directory: IMAGE_STORAGE_DIR,
+  allowedHosts: IMAGE_ALLOWED_HOSTS,
+  maxBytes: IMAGE_MAX_BYTES,
+  maxPixels: IMAGE_MAX_PIXELS,
+  maxAgeSeconds: IMAGE_MAX_AGE_SECONDS
+});
+
+async function sweepImages() {
+  try {
+    const deleted = await imageStore.sweep();
+    if (deleted > 0) {
+      console.log(`🧹 Deleted ${deleted} images older than ${IMAGE_MAX_AGE_SECONDS} seconds`);
+    }
   } catch (error) {
-    console.error('Error getting registered faces:', error);
-    throw error;
+    console.error("Error deleting old images:", error);
+  }
+}
+sweepImages();
+setInterval(sweepImages, IMAGE_SWEEP_INTERVAL_MS);
+
+// The model behind a probe embedding sent by a client; defaults to the analyze API.
+// Throws unless the model is on the allow-list.
+function probeModel(model: unknown, dimension: number): EmbeddingModelInfo {
+  let probe: EmbeddingModelInfo;
+  if (model === undefined) {
+    probe = embeddingModelFor(ANALYZE_FACE_MODEL, dimension);
+  } else {
+    const errors = validateEmbeddingModel(model);
+    if (errors.length > 0) {
+      throw new Error(`Invalid model: ${errors.join("; ")}`);
+    }
+    probe = embeddingModelFor(model as EmbeddingModelInfo, dimension);
+  }
+
+  if (!acceptsEmbeddingModel(probe)) {
+    throw new Error(`Embedding model ${probe.name} is not accepted by this server`);
+  }
+  return probe;
+}
+
+// Signed requests are checked against the API keys in the registry store
+const apiAuthenticator = new ApiAuthenticator(registryStore);
+const ipRateLimiter = new RateLimiter();
+const keyRateLimiter = new RateLimiter();
+
+// Face matches are handed to clients as tokens that payouts spend
+const verificationTokens = new VerificationTokens(registryStore, VERIFICATION_TOKEN_TTL_SECONDS);
+
+// The scope a route needs, or null for public routes; /api/payouts/:id matches by prefix
+function requiredScope(method: string, pathname: string): ApiScope | null {
+  const route = `${method} ${pathname}`;
+  return SIGNED_ROUTES[route] ?? (route.startsWith("GET /api/payouts/") ? SIGNED_ROUTES["GET /api/payouts/"] : null);
+}
+
+function rateLimited(retryAfter: number): Response {
+  return new Response(
+    JSON.stringify({ error: "Too many requests" }),
+    { 
+      status: 429, 
+      headers: { "Content-Type": "application/json", "Retry-After": String(retryAfter), ...CORS_HEADERS.headers } 
+    }
+  );
+}
+
+// Let allowed origins read the response
+function withCors(request: Request, response: Response): Response {
+  const origin = request.headers.get("Origin");
+  if (origin && CORS_ALLOWED_ORIGINS.includes(origin)) {
+    response.headers.set("Access-Control-Allow-Origin", origin);
   }
+  response.headers.append("Vary", "Origin");
+  return response;
 }
 
 const server = Bun.serve({
   port: PORT,
-  async fetch(request: Request) {
+  // Also cuts off bodies sent without a Content-Length
+  maxRequestBodySize: MAX_REQUEST_BODY_BYTES,
+  async fetch(request: Request, server) {
     if (request.method === "OPTIONS") {
-      return new Response("Departed", CORS_HEADERS);
-    }
-    
-    const url = new URL(request.url);
-    
-    try {
-      switch (url.pathname) {
-        case "/api/vision":
-          return handleImageSave(request);
-        case "/api/verify-face":
-          return handleFaceVerification(request);
-        case "/api/release-payment":
-          return handlePaymentRelease(request);
-        default:
-          return new Response("Not Found", { status: 404 });
-      }
-    } catch (error) {
-      console.error('Server error:', error);
-      return new Response("Internal Server Error", { status: 500, ...CORS_HEADERS });
+      return withCors(request, new Response("Departed", CORS_HEADERS));
     }
+    return withCors(request, await route(request, server.requestIP(request)?.address ?? "unknown"));
   },
 });
 
-async function downloadAndSaveImage(imageUrl: string): Promise<string> {
+async function route(request: Request, ip: string): Promise<Response> {
+  const url = new URL(request.url);
+
   try {
-    // Create the images directory if it doesn't exist
-    await mkdir(IMAGE_STORAGE_DIR, { recursive: true });
-    const timestamp = new Date().getTime();
-    const filename = `image_${timestamp}.jpg`;
-    const filepath = join(IMAGE_STORAGE_DIR, filename);
-
-    if (imageUrl.startsWith('data:')) {
-      const base64Data = imageUrl.split(',')[1];
-      await writeFile(filepath, Buffer.from(base64Data, 'base64'));
-    } else {
-      const response = await fetch(imageUrl);
-      if (!response.ok) throw new Error('Failed to fetch image');
-      const arrayBuffer = await response.arrayBuffer();
-      await writeFile(filepath, Buffer.from(arrayBuffer));
+    const ipRetryAfter = ipRateLimiter.take(ip, RATE_LIMIT_PER_IP);
+    if (ipRetryAfter > 0) {
+      return rateLimited(ipRetryAfter);
+    }
+
+    // Checked before anything reads the body, including the signature check
+    if (Number(request.headers.get("Content-Length")) > MAX_REQUEST_BODY_BYTES) {
+      return new Response(
+        JSON.stringify({ error: `Request body is larger than ${MAX_REQUEST_BODY_BYTES} bytes` }),
+        { 
+          status: 413, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    const scope = requiredScope(request.method, url.pathname);
+    if (scope) {
+      const auth = await apiAuthenticator.authenticate(request, scope);
+      if ("error" in auth) {
+        console.warn(`🔒 Refused ${request.method} ${url.pathname} from ${ip}: ${auth.error}`);
+        return new Response(
+          JSON.stringify({ error: auth.error }),
+          { 
+            status: auth.status, 
+            headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+          }
+        );
+      }
+
+      const keyRetryAfter = keyRateLimiter.take(auth.key.id, auth.key.rateLimit);
+      if (keyRetryAfter > 0) {
+        return rateLimited(keyRetryAfter);
+      }
+      return await routeSigned(request, url, auth.key);
+    }
+
+    switch (url.pathname) {
+      case "/api/check-uniqueness":
+        return await handleUniquenessCheck(request);
+      case "/api/recovery-attestation":
+        return await handleRecoveryAttestation(request);
+      case "/api/envelope-key":
+        return await handleEnvelopeKey();
+      case "/api/erasure":
+        return await handleErasureStatus(url);
+      default:
+        if (request.method === "GET" && url.pathname.startsWith("/api/claims/")) {
+          return await handleClaimsLookup(decodeURIComponent(url.pathname.slice("/api/claims/".length)));
+        }
+        return new Response("Not Found", { status: 404 });
     }
-    return filepath;
   } catch (error) {
-    console.error('Error saving image:', error);
-    throw error;
+    console.error('Server error:', error);
+    return new Response("Internal Server Error", { status: 500, ...CORS_HEADERS });
+  }
+}
+
+// Routes for integrating dApps, reached only with a valid signature from a key holding the route's scope
+async function routeSigned(request: Request, url: URL, key: ApiKeyRecord): Promise<Response> {
+  switch (url.pathname) {
+    case "/api/vision":
+      return handleImageSave(request);
+    case "/api/verify-face":
+      return await loadFaceModels() ? handleFaceVerification(request, key) : faceModelsUnavailable();
+    case "/api/v2/verify":
+      return await loadFaceModels() ? handleVerifyV2(request, key) : faceModelsUnavailable();
+    case "/api/registrants":
+      return handleRegistrantsList(url);
+    case "/api/release-payment":
+      return handlePaymentRelease(request, key);
+    case "/api/claims":
+      return handleClaimEnrollment(request, key);
+    default:
+      return handlePayoutStatus(url.pathname.slice("/api/payouts/".length));
   }
 }
 
@@ -145,28 +616,80 @@ async function handleImageSave(request: Request) {
 
   try {
     const { imageUrl } = await request.json() as { imageUrl: string };
-    const savedPath = await downloadAndSaveImage(imageUrl);
+    if (typeof imageUrl !== "string") {
+      throw new ImageRejectedError(400, "imageUrl must be an https or data URL");
+    }
+    const imageId = await imageStore.ingest(imageUrl);
     
     return new Response(
-      JSON.stringify({ savedImagePath: savedPath }),
+      JSON.stringify({ imageId }),
       {
         status: 200,
         headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers },
       }
     );
   } catch (error) {
+    if (error instanceof ImageRejectedError) {
+      console.warn(`Image rejected: ${error.message}`);
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        {
+          status: error.status,
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers },
+        }
+      );
+    }
     console.error(error);
     return new Response("Internal Server Error", { status: 500 });
   }
 }
 
-// Define a type for the fetch error
-interface FetchError extends Error {
-  name: string;
+// Matches one embedded face against the local embedding index. A clear match comes with a
+// verification token that /api/release-payment requires.
+async function matchFace({ embedding, model }: ImageEmbedding, boundingBox: FaceBox | null, key: ApiKeyRecord) {
+  // Make sure the index has been hydrated before the first query
+  await initialIndexSync;
+
+  const candidates = embeddingIndex.query(embedding, model, TOP_K_MATCHES);
+  const [bestMatch = { address: '', similarity: 0 }] = candidates;
+  console.log(`Best match among ${embeddingIndex.size} registrants: ${bestMatch.address || 'none'} (${bestMatch.similarity})`);
+
+  // Only a clear match counts as registered; borderline matches are reported as uncertain
+  const decision = classifySimilarity(bestMatch.similarity, similarityPolicyFor(model));
+  const verification = decision === "match" ? verificationTokens.issue(bestMatch.address, bestMatch.similarity, key) : null;
+  return {
+    boundingBox,
+    matchingAddress: decision === "match" ? bestMatch.address : null,
+    similarity: bestMatch.similarity,
+    decision,
+    candidates: candidates.map(({ address, similarity }) => ({ address, similarity })),
+    verificationToken: verification?.token ?? null,
+    verificationExpiresAt: verification?.expiresAt ?? null
+  };
+}
+
+// Verify the faces in an image: each detected face is cropped, embedded and matched on its own
+async function verifyImage(image: Buffer, key: ApiKeyRecord) {
+  const faces = (await faceDetector.detect(image)).slice(0, MAX_FACES_PER_IMAGE);
+  const results: Awaited<ReturnType<typeof matchFace>>[] = [];
+  let lastError: unknown = null;
+  for (const face of faces) {
+    try {
+      const embedded = await embeddingProvider.embed(await cropFace(image, face.box));
+      results.push(await matchFace(embedded, face.box, key));
+    } catch (error) {
+      // e.g. a detection the embedding provider does not take for a face
+      console.warn(`Could not embed the face at ${JSON.stringify(face.box)}:`, error instanceof Error ? error.message : error);
+      lastError = error;
+    }
+  }
+  if (results.length === 0 && lastError) {
+    throw lastError;
+  }
+  return results;
 }
 
-// Update face verification to use external API with native fetch
-async function handleFaceVerification(request: Request): Promise<Response> {
+async function handleFaceVerification(request: Request, key: ApiKeyRecord): Promise<Response> {
   if (!request.headers.get("Content-Type")?.includes("application/json")) {
     return new Response(
       JSON.stringify({ error: "Invalid content type" }), 
@@ -178,94 +701,25 @@ async function handleFaceVerification(request: Request): Promise<Response> {
   }
 
   try {
-    const body = await request.json() as { imagePath: string };
-    if (!body.imagePath) {
-      throw new Error("No image path provided");
-    }
-
-    // Read the image file
-    const imageBuffer = await readFile(body.imagePath);
-    
-    // Get all registered faces from the contract
-    const registeredFaces = await getRegisteredFaces();
-    
-    // Find the best match by comparing with IPFS embeddings using the external API
-    let bestMatch = {
-      address: '',
-      similarity: 0
-    };
-
-    for (const face of registeredFaces) {
-      try {
-        // Skip if no IPFS hash
-        if (!face.ipfsHash) {
-          console.warn(`No IPFS hash for address: ${face.address}`);
-          continue;
-        }
-        
-        // Create form data for the API request using Bun's native FormData
-        const formData = new FormData();
-        const blob = new Blob([imageBuffer], { type: "image/jpeg" });
-        formData.append("file", blob, "image.jpg");
-        formData.append("ipfs_hash", face.ipfsHash);
-        formData.append("threshold", SIMILARITY_THRESHOLD.toString());
-        
-        // Add fallback gateways
-        formData.append("fallback_gateways", JSON.stringify(IPFS_GATEWAYS));
-        
-        // Use Bun's native fetch instead of axios
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-        
-        try {
-          // Make the API request with fetch
-          const response = await fetch(COMPARE_API_URL, {
-            method: "POST",
-            body: formData,
-            signal: controller.signal
-          });
-          
-          clearTimeout(timeoutId);
-          
-          if (!response.ok) {
-            throw new Error(`API responded with status: ${response.status}`);
-          }
-          
-          const data = await response.json() as { similarity?: number, success?: boolean, error?: string };
-          
-          // Get the similarity score from the response
-          const similarity = data.similarity || 0;
-          
-          console.log(`Similarity with ${face.address}: ${similarity}`);
-          
-          if (similarity > bestMatch.similarity) {
-            bestMatch = {
-              address: face.address,
-              similarity
-            };
-          }
-        } catch (fetchError) {
-          const error = fetchError as FetchError;
-          if (error.name === 'AbortError') {
-            console.error(`Request for ${face.address} timed out`);
-          } else {
-            console.error(`Error comparing face with ${face.address}:`, error);
-          }
-          continue;
-        }
-      } catch (error) {
-        console.error(`Error processing face for ${face.address}:`, error);
-        continue;
-      }
+    const body = await request.json() as { imageId: string };
+    if (!body.imageId) {
+      throw new ImageRejectedError(400, "No image id provided");
     }
 
-    // Check if we found a match above the threshold
-    const isFaceRegistered = bestMatch.similarity >= SIMILARITY_THRESHOLD;
+    // Read the image /api/vision ingested
+    const imageBuffer = await imageStore.read(body.imageId);
+    const faces = await verifyImage(imageBuffer, key);
 
+    // The top-level fields describe the closest face; every face is listed under faces
+    const [closest] = [...faces].sort((a, b) => b.similarity - a.similarity);
     const response = {
-      matchingAddress: isFaceRegistered ? bestMatch.address : null,
-      similarity: bestMatch.similarity,
-      isFaceRegistered
+      matchingAddress: closest?.matchingAddress ?? null,
+      similarity: closest?.similarity ?? 0,
+      decision: closest?.decision ?? "no-match",
+      isFaceRegistered: closest?.decision === "match",
+      verificationToken: closest?.verificationToken ?? null,
+      verificationExpiresAt: closest?.verificationExpiresAt ?? null,
+      faces
     };
 
     return new Response(
@@ -285,21 +739,96 @@ async function handleFaceVerification(request: Request): Promise<Response> {
         matchingAddress: null
       }),
       { 
-        status: 500, 
+        status: error instanceof ImageRejectedError ? error.status : 500, 
         headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
       }
     );
   }
 }
 
-// Handle payment release to a verified wallet address
-async function handlePaymentRelease(request: Request): Promise<Response> {
-  console.log("🔔 Payment release request received");
-  
-  if (!request.headers.get("Content-Type")?.includes("application/json")) {
-    console.error("❌ Invalid content type for payment release request");
+// Verify a face in one call: the image comes as a multipart upload (field "image"), or as a
+// base64 data URL or https URL in a JSON body ({ image }). Images are only kept on disk when
+// VERIFY_DEBUG_SAVE_IMAGES is set.
+async function handleVerifyV2(request: Request, key: ApiKeyRecord): Promise<Response> {
+  const contentType = request.headers.get("Content-Type") ?? "";
+
+  try {
+    let image: Buffer;
+    if (contentType.includes("multipart/form-data")) {
+      const upload = (await request.formData()).get("image");
+      if (!(upload instanceof Blob)) {
+        throw new ImageRejectedError(400, 'Upload the image as the "image" field');
+      }
+      if (upload.size > IMAGE_MAX_BYTES) {
+        throw new ImageRejectedError(413, `Image is larger than ${IMAGE_MAX_BYTES} bytes`);
+      }
+      image = await imageStore.reencode(Buffer.from(await upload.arrayBuffer()));
+    } else if (contentType.includes("application/json")) {
+      const body = await request.json() as { image?: unknown };
+      if (typeof body.image !== "string") {
+        throw new ImageRejectedError(400, "image must be a base64 data URL or an https URL");
+      }
+      image = await imageStore.load(body.image);
+    } else {
+      throw new ImageRejectedError(415, "Send the image as multipart/form-data or application/json");
+    }
+
+    const imageId = VERIFY_DEBUG_SAVE_IMAGES ? await imageStore.save(image) : undefined;
+    const faces = await verifyImage(image, key);
+
     return new Response(
-      JSON.stringify({ error: "Invalid content type" }), 
+      JSON.stringify({ faces, imageId }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers }
+      }
+    );
+  } catch (error) {
+    if (!(error instanceof ImageRejectedError)) {
+      console.error('Face verification error:', error);
+    }
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Failed to verify face" }),
+      {
+        status: error instanceof ImageRejectedError ? error.status : 500,
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers }
+      }
+    );
+  }
+}
+
+// EIP-712 domain of the registration contract, resolved once from the provider
+let contractDomain: ethers.TypedDataDomain | null = null;
+async function getAttestationDomain(): Promise<ethers.TypedDataDomain> {
+  if (!contractDomain) {
+    const network = await provider.getNetwork();
+    contractDomain = attestationDomain(network.chainId, CONTRACT_ADDRESS!);
+  }
+  return contractDomain;
+}
+
+// Only attest to a pinned payload that actually holds the checked embedding and model
+async function payloadHoldsEmbedding(ipfsHash: string, embeddingHash: string, model: EmbeddingModelInfo): Promise<boolean> {
+  const pinned = await readEmbeddingPayload(await fetchFromIPFS(ipfsHash), envelopeKeyring);
+  return hashEmbedding(pinned.embedding) === embeddingHash && sameEmbeddingModel(pinned.model, model);
+}
+
+// Attestations are only signed for captures sent with passing liveness evidence
+function checkLiveness(liveness: unknown): { evidence: LivenessEvidence } | { error: string } {
+  const errors = validateLivenessEvidence(liveness, Math.floor(Date.now() / 1000));
+  if (errors.length > 0) {
+    return { error: `Liveness check required: ${errors.join("; ")}` };
+  }
+  return { evidence: liveness as LivenessEvidence };
+}
+
+// Check an embedding against every registrant and return a signed result.
+// When the face is unique and the caller names its wallet and IPFS payload,
+// the response also carries the attestation FaceRegistration.register requires.
+async function handleUniquenessCheck(request: Request): Promise<Response> {
+  if (request.method !== "POST" || !request.headers.get("Content-Type")?.includes("application/json")) {
+    return new Response(
+      JSON.stringify({ error: "Invalid request" }), 
       { 
         status: 400, 
         headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
@@ -307,47 +836,33 @@ async function handlePaymentRelease(request: Request): Promise<Response> {
     );
   }
 
+  if (!verifierSigner) {
+    return new Response(
+      JSON.stringify({ error: "Verifier key not initialized. Check server configuration." }),
+      { 
+        status: 503, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+
   try {
-    // Check if contract with signer is initialized
-    if (!contractWithSigner) {
-      console.error("❌ Contract owner wallet not initialized. Cannot release payment.");
+    const body = await request.json() as { embedding?: unknown, model?: unknown, wallet?: string, ipfsHash?: string, liveness?: unknown };
+    const embedding = body.embedding;
+
+    if (!Array.isArray(embedding) || embedding.length === 0 || !embedding.every(value => typeof value === "number" && Number.isFinite(value))) {
       return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: "Contract owner wallet not initialized. Check server configuration." 
-        }),
+        JSON.stringify({ error: "embedding must be a non-empty array of numbers" }),
         { 
-          status: 500, 
+          status: 400, 
           headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
         }
       );
     }
 
-    const body = await request.json() as { walletAddress: string };
-    if (!body.walletAddress) {
-      console.error("❌ No wallet address provided in payment release request");
-      throw new Error("No wallet address provided");
-    }
-
-    const walletAddress = body.walletAddress;
-    console.log(`🔍 Attempting to release payment to wallet: ${walletAddress}`);
-
-    // Check if the address is registered
-    try {
-      console.log(`🔍 Verifying registration for address: ${walletAddress}`);
-      const registration = await contract.getRegistration(walletAddress);
-      console.log(`✅ Found registration for ${walletAddress}:`, {
-        wallet: registration.wallet,
-        ipfsHash: registration.ipfsHash,
-        timestamp: new Date(Number(registration.timestamp) * 1000).toISOString()
-      });
-    } catch (error) {
-      console.error(`❌ Error verifying registration for ${walletAddress}:`, error);
+    if (body.wallet !== undefined && !ethers.isAddress(body.wallet)) {
       return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: "Address is not registered in the contract" 
-        }),
+        JSON.stringify({ error: "Invalid wallet address" }),
         { 
           status: 400, 
           headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
@@ -355,90 +870,823 @@ async function handlePaymentRelease(request: Request): Promise<Response> {
       );
     }
 
-    // Call the releasePayment function on the contract
-    try {
-      console.log(`💸 Calling releasePayment for address: ${walletAddress}`);
-      
-      // Get the current gas price
-      const gasPrice = await provider.getFeeData();
-      console.log(`⛽ Current gas price: ${ethers.formatUnits(gasPrice.gasPrice || 0, 'gwei')} gwei`);
-      
-      // Get the contract owner's balance
-      const signer = contractWithSigner.runner as ethers.Wallet;
-      const balance = await provider.getBalance(signer.address);
-      console.log(`💰 Contract owner balance: ${ethers.formatEther(balance)} ETH`);
-      
-      // Call the contract function
-      const tx = await contractWithSigner.releasePayment(walletAddress);
-      console.log(`📤 Transaction submitted: ${tx.hash}`);
-      
-      // Wait for the transaction to be mined
-      console.log(`⏳ Waiting for transaction to be mined...`);
-      const receipt = await tx.wait();
-      console.log(`✅ Transaction confirmed in block ${receipt.blockNumber}`);
-      
-      // Check for events in the receipt
-      if (receipt.logs && receipt.logs.length > 0) {
-        console.log(`📝 Transaction logs:`, receipt.logs.length);
-        try {
-          // Try to parse the PaymentSent event
-          const contractInterface = new ethers.Interface(faceAbi);
-          for (const log of receipt.logs) {
-            try {
-              const parsedLog = contractInterface.parseLog(log);
-              if (parsedLog && parsedLog.name === 'PaymentSent') {
-                console.log(`💰 Payment sent event detected:`, {
-                  wallet: parsedLog.args[0],
-                  amount: ethers.formatEther(parsedLog.args[1])
-                });
-              }
-            } catch (e) {
-              // Skip logs that can't be parsed
-            }
+    // A check that may end in a registration attestation needs the capture's liveness evidence
+    let liveness: LivenessEvidence | null = null;
+    if (body.wallet && body.ipfsHash) {
+      const checked = checkLiveness(body.liveness);
+      if ("error" in checked) {
+        return new Response(
+          JSON.stringify({ error: checked.error }),
+          { 
+            status: 403, 
+            headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
           }
-        } catch (error) {
-          console.error(`⚠️ Error parsing transaction logs:`, error);
-        }
+        );
       }
-      
+      liveness = checked.evidence;
+    }
+
+    let model: EmbeddingModelInfo;
+    try {
+      model = probeModel(body.model, embedding.length);
+    } catch (error) {
       return new Response(
-        JSON.stringify({ 
-          success: true, 
-          transactionHash: tx.hash,
-          blockNumber: receipt.blockNumber
-        }),
+        JSON.stringify({ error: error instanceof Error ? error.message : "Invalid model" }),
         { 
-          status: 200, 
+          status: 400, 
           headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
         }
       );
-    } catch (error) {
-      console.error(`❌ Error releasing payment to ${walletAddress}:`, error);
-      
-      // Provide more detailed error message
-      let errorMessage = "Failed to release payment";
-      if (error instanceof Error) {
-        // Check for common contract errors
-        if (error.message.includes("execution reverted")) {
-          errorMessage = "Contract execution reverted. Payment may have already been sent or not authorized.";
-        } else if (error.message.includes("insufficient funds")) {
-          errorMessage = "Insufficient funds in contract owner wallet to pay for gas.";
-        } else {
-          errorMessage = error.message;
-        }
+    }
+
+    // Make sure the index has been hydrated before the first query
+    await initialIndexSync;
+
+    const wallet = body.wallet ? ethers.getAddress(body.wallet) : null;
+
+    // Ignore the caller's own registration, if any
+    const matches = embeddingIndex
+      .query(embedding, model, TOP_K_MATCHES + 1)
+      .filter(match => !wallet || match.address.toLowerCase() !== wallet.toLowerCase())
+      .slice(0, TOP_K_MATCHES)
+      .map(({ address, similarity }) => ({ address, similarity }));
+
+    // Matches are sorted, so the closest one decides; borderline faces are neither unique nor duplicates
+    const policy = similarityPolicyFor(model);
+    const decision = classifySimilarity(matches[0]?.similarity ?? 0, policy);
+    console.log(`Uniqueness check for ${wallet || 'anonymous'}: ${decision} (best ${matches[0]?.similarity ?? 0})`);
+
+    const embeddingHash = hashEmbedding(embedding);
+    const issuedAt = Math.floor(Date.now() / 1000);
+
+    // Only borderline registrations are queued for review (bun run reviews), once their payload is
+    // pinned; a reviewer's approval lets that same capture register
+    let isUnique = decision === "no-match";
+    if (decision === "uncertain" && wallet && body.ipfsHash) {
+      const reviewed = registryStore.getReviewCase(wallet);
+      if (reviewed?.status === "approved" && reviewed.embeddingHash === embeddingHash) {
+        isUnique = true;
+      } else if (await payloadHoldsEmbedding(body.ipfsHash, embeddingHash, model)) {
+        registryStore.addReviewCase({
+          wallet,
+          ipfsHash: body.ipfsHash,
+          embeddingHash,
+          model,
+          matches,
+          createdAt: issuedAt
+        });
       }
-      
+    }
+
+    // Registrants enrolled with another model were not compared, and the face could be one of them
+    const incomparable = embeddingIndex.countOtherModels(model);
+    if (isUnique && incomparable > 0) {
+      console.warn(`Uniqueness check for ${wallet || 'anonymous'} refused: ${incomparable} registrants use another embedding model`);
       return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: errorMessage
-        }),
+        JSON.stringify({ error: `${incomparable} registrations were enrolled with another embedding model and cannot be compared, so uniqueness cannot be attested` }),
         { 
-          status: 500, 
+          status: 503, 
           headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
         }
       );
     }
+
+    const signed = await verifierSigner.signUniquenessResult({
+      wallet,
+      embeddingHash,
+      isUnique,
+      decision,
+      threshold: policy.threshold,
+      matches,
+      liveness,
+      issuedAt
+    });
+
+    if (isUnique && wallet && body.ipfsHash) {
+      if (!await payloadHoldsEmbedding(body.ipfsHash, embeddingHash, model)) {
+        return new Response(
+          JSON.stringify({ error: "IPFS payload does not contain the checked embedding" }),
+          { 
+            status: 400, 
+            headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+          }
+        );
+      }
+
+      signed.attestation = await verifierSigner.signRegistrationAttestation(await getAttestationDomain(), {
+        wallet,
+        faceHash: embeddingHash,
+        ipfsHash: body.ipfsHash,
+        expiry: issuedAt + ATTESTATION_TTL_SECONDS
+      });
+    }
+
+    return new Response(
+      JSON.stringify(signed),
+      { 
+        status: 200, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers }
+      }
+    );
+  } catch (error) {
+    console.error('Uniqueness check error:', error);
+    return new Response(
+      JSON.stringify({ 
+        error: error instanceof Error ? error.message : "Failed to check uniqueness"
+      }),
+      { 
+        status: 500, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+}
+
+// Attest that a fresh capture matches an existing registration, so the registration
+// can move to a new wallet through FaceRegistration.requestRecovery
+async function handleRecoveryAttestation(request: Request): Promise<Response> {
+  if (request.method !== "POST" || !request.headers.get("Content-Type")?.includes("application/json")) {
+    return new Response(
+      JSON.stringify({ error: "Invalid request" }), 
+      { 
+        status: 400, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+
+  if (!verifierSigner) {
+    return new Response(
+      JSON.stringify({ error: "Verifier key not initialized. Check server configuration." }),
+      { 
+        status: 503, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+
+  try {
+    const body = await request.json() as { embedding?: unknown, model?: unknown, wallet?: string, ipfsHash?: string, liveness?: unknown };
+    const embedding = body.embedding;
+
+    if (!Array.isArray(embedding) || embedding.length === 0 || !embedding.every(value => typeof value === "number" && Number.isFinite(value))) {
+      return new Response(
+        JSON.stringify({ error: "embedding must be a non-empty array of numbers" }),
+        { 
+          status: 400, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    if (!body.wallet || !ethers.isAddress(body.wallet) || !body.ipfsHash) {
+      return new Response(
+        JSON.stringify({ error: "wallet and ipfsHash are required" }),
+        { 
+          status: 400, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    // Moving a registration to a new wallet needs a live capture as much as registering does
+    const liveness = checkLiveness(body.liveness);
+    if ("error" in liveness) {
+      return new Response(
+        JSON.stringify({ error: liveness.error }),
+        { 
+          status: 403, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    let model: EmbeddingModelInfo;
+    try {
+      model = probeModel(body.model, embedding.length);
+    } catch (error) {
+      return new Response(
+        JSON.stringify({ error: error instanceof Error ? error.message : "Invalid model" }),
+        { 
+          status: 400, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    // Make sure the index has been hydrated before the first query
+    await initialIndexSync;
+
+    const wallet = ethers.getAddress(body.wallet);
+    if (listActiveRegistrations().some(registration => registration.wallet.toLowerCase() === wallet.toLowerCase())) {
+      return new Response(
+        JSON.stringify({ error: "Wallet is already registered" }),
+        { 
+          status: 409, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    // The capture must clearly match exactly one registration
+    const policy = similarityPolicyFor(model);
+    const matches = embeddingIndex
+      .query(embedding, model, TOP_K_MATCHES)
+      .filter(match => classifySimilarity(match.similarity, policy) === "match");
+    if (matches.length !== 1) {
+      return new Response(
+        JSON.stringify({
+          error: matches.length === 0
+            ? "Face does not clearly match any registration"
+            : "Face matches more than one registration"
+        }),
+        { 
+          status: matches.length === 0 ? 404 : 409, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    const embeddingHash = hashEmbedding(embedding);
+    if (!await payloadHoldsEmbedding(body.ipfsHash, embeddingHash, model)) {
+      return new Response(
+        JSON.stringify({ error: "IPFS payload does not contain the checked embedding" }),
+        { 
+          status: 400, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    const [match] = matches;
+    console.log(`Recovery of ${match.address} to ${wallet} attested (similarity ${match.similarity})`);
+
+    const attestation = await verifierSigner.signRecoveryAttestation(await getAttestationDomain(), {
+      oldWallet: ethers.getAddress(match.address),
+      newWallet: wallet,
+      faceHash: embeddingHash,
+      ipfsHash: body.ipfsHash,
+      expiry: Math.floor(Date.now() / 1000) + ATTESTATION_TTL_SECONDS
+    });
+
+    return new Response(
+      JSON.stringify({ oldWallet: attestation.oldWallet, similarity: match.similarity, attestation }),
+      { 
+        status: 200, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers }
+      }
+    );
+  } catch (error) {
+    console.error('Recovery attestation error:', error);
+    return new Response(
+      JSON.stringify({ 
+        error: error instanceof Error ? error.message : "Failed to attest recovery"
+      }),
+      { 
+        status: 500, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+}
+
+// Publish the envelope public key, signed by the verifier when one is configured
+async function handleEnvelopeKey(): Promise<Response> {
+  const body = verifierSigner
+    ? await verifierSigner.signEnvelopeKey(envelopeKeyring.publicKey)
+    : { key: envelopeKeyring.publicKey, signature: null, signer: null };
+
+  return new Response(
+    JSON.stringify(body),
+    { 
+      status: 200, 
+      headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers }
+    }
+  );
+}
+
+// Report whether a deregistered wallet's face data has been erased. Catches up the
+// indexer first, so a client can call this right after its deregister transaction.
+async function handleErasureStatus(url: URL): Promise<Response> {
+  const wallet = url.searchParams.get("wallet");
+  if (!wallet || !ethers.isAddress(wallet)) {
+    return new Response(
+      JSON.stringify({ error: "Invalid wallet address" }),
+      { 
+        status: 400, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+
+  await runIndexSync();
+
+  const erasure = registryStore.getErasure(wallet);
+  const status = !erasure ? "none" : erasure.erasedAt ? "erased" : "pending";
+  return new Response(
+    JSON.stringify({
+      wallet: ethers.getAddress(wallet),
+      status,
+      ipfsHash: erasure?.ipfsHash ?? null,
+      erasedAt: erasure?.erasedAt ?? null
+    }),
+    { 
+      status: 200, 
+      headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers }
+    }
+  );
+}
+
+// Cursors are opaque to clients: base64url of "<blockNumber>:<logIndex>" of the last row served
+function encodeRegistrantsCursor({ blockNumber, logIndex }: RegistrationPosition): string {
+  return Buffer.from(`${blockNumber}:${logIndex}`).toString("base64url");
+}
+
+function decodeRegistrantsCursor(cursor: string): RegistrationPosition | null {
+  const match = /^(\d+):(\d+)$/.exec(Buffer.from(cursor, "base64url").toString());
+  return match ? { blockNumber: Number(match[1]), logIndex: Number(match[2]) } : null;
+}
+
+// List active registrants from the local index, one page at a time. Cursors follow
+// index order, so registrations and deregistrations between pages do not shift rows.
+async function handleRegistrantsList(url: URL): Promise<Response> {
+  const cursor = url.searchParams.get("cursor");
+  const limitParam = url.searchParams.get("limit");
+  const campaignParam = url.searchParams.get("campaignId");
+  const after = cursor ? decodeRegistrantsCursor(cursor) : null;
+  const limit = limitParam === null ? DEFAULT_REGISTRANTS_PAGE : Number(limitParam);
+  const campaignId = campaignParam === null ? null : Number(campaignParam);
+
+  if ((cursor && !after) || !Number.isInteger(limit) || limit < 1 || limit > MAX_REGISTRANTS_PAGE) {
+    return new Response(
+      JSON.stringify({ error: `Invalid cursor or limit (limit must be 1-${MAX_REGISTRANTS_PAGE})` }),
+      { 
+        status: 400, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+
+  if (campaignId !== null && (!Number.isInteger(campaignId) || campaignId < 1)) {
+    return new Response(
+      JSON.stringify({ error: "Invalid campaignId" }),
+      { 
+        status: 400, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+
+  // One extra row tells whether another page follows
+  const rows = registryStore.listRegistrantsPage(after, limit + 1);
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return new Response(
+    JSON.stringify({
+      registrants: page.map(registrant => ({
+        wallet: registrant.wallet,
+        faceHash: registrant.faceHash,
+        ipfsHash: registrant.ipfsHash,
+        timestamp: registrant.timestamp,
+        // Paid by the requested campaign, or by any campaign when none is named
+        paid: campaignId === null ? registrant.paidCampaigns.length > 0 : registrant.paidCampaigns.includes(campaignId),
+        paidCampaigns: registrant.paidCampaigns
+      })),
+      nextCursor: rows.length > limit ? encodeRegistrantsCursor(last) : null,
+      total: registryStore.countRegistrations()
+    }),
+    { 
+      status: 200, 
+      headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers }
+    }
+  );
+}
+
+// Look up a registration in the local store, catching up the indexer once on a miss
+async function findRegistration(walletAddress: string) {
+  const registration = registryStore.getRegistration(walletAddress);
+  if (registration) {
+    return registration;
+  }
+
+  // The wallet may have registered since the last indexer run
+  await runIndexSync();
+  return registryStore.getRegistration(walletAddress);
+}
+
+// Look up a payout campaign in the local store, catching up the indexer once on a miss
+async function findCampaign(campaignId: number) {
+  const campaign = registryStore.getCampaign(campaignId);
+  if (campaign) {
+    return campaign;
+  }
+
+  await runIndexSync();
+  return registryStore.getCampaign(campaignId);
+}
+
+// Check the indexed state before spending gas on a payout or claim the contract would refuse.
+// Returns the error, its code and the HTTP status to report, or null if the campaign can pay the wallet.
+async function checkPayout(campaignId: number, walletAddress: string): Promise<{ status: number, error: string, code: ContractErrorCode } | null> {
+  const campaign = await findCampaign(campaignId);
+  const now = Math.floor(Date.now() / 1000);
+  // Payouts still in the queue count against the budget too
+  const committed = campaign
+    ? registryStore.getCampaignSpent(campaignId) + BigInt(campaign.amount) * BigInt(registryStore.countPendingPayoutJobs(campaignId))
+    : 0n;
+  const campaignError: [ContractErrorCode, string] | null = !campaign
+    ? ["UNKNOWN_CAMPAIGN", "Unknown campaign"]
+    : now < campaign.startsAt
+      ? ["CAMPAIGN_NOT_STARTED", "Campaign has not started"]
+      : now > campaign.endsAt
+        ? ["CAMPAIGN_ENDED", "Campaign has ended"]
+        : committed + BigInt(campaign.amount) > BigInt(campaign.budget)
+          ? ["CAMPAIGN_BUDGET_EXHAUSTED", "Campaign budget exhausted"]
+          : null;
+  if (campaignError) {
+    const [code, error] = campaignError;
+    console.error(`❌ Campaign ${campaignId} cannot pay out: ${error}`);
+    return { status: campaign ? 409 : 404, error, code };
+  }
+
+  // Check if the address is registered
+  console.log(`🔍 Verifying registration for address: ${walletAddress}`);
+  const registration = await findRegistration(walletAddress);
+  if (!registration) {
+    console.error(`❌ No registration found for ${walletAddress}`);
+    return { status: 400, error: "Address is not registered in the contract", code: "NOT_REGISTERED" };
+  }
+  console.log(`✅ Found registration for ${walletAddress}:`, {
+    wallet: registration.wallet,
+    ipfsHash: registration.ipfsHash,
+    timestamp: new Date(registration.timestamp * 1000).toISOString()
+  });
+
+  if (registryStore.getPayments(walletAddress).some(payment => payment.campaignId === campaignId)) {
+    console.error(`❌ Payment from campaign ${campaignId} already sent to ${walletAddress}`);
+    return { status: 409, error: "Payment from this campaign already sent to this address", code: "PAYMENT_ALREADY_SENT" };
+  }
+  return null;
+}
+
+// Add a verified wallet to a campaign's next claim root, so the wallet can claim the payout itself
+// instead of the server paying gas for a payment transaction. Like a payment release, it spends
+// the verification token of the wallet's face match.
+async function handleClaimEnrollment(request: Request, key: ApiKeyRecord): Promise<Response> {
+  console.log(`🧾 Claim enrollment request received from ${key.name} (${key.id})`);
+  if (!request.headers.get("Content-Type")?.includes("application/json")) {
+    return new Response(
+      JSON.stringify({ error: "Invalid content type" }), 
+      { 
+        status: 400, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+
+  try {
+    const body = await request.json() as { verificationToken: string, walletAddress?: string, campaignId: number } | null;
+    if (!body?.verificationToken) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: "verificationToken from /api/verify-face is required" 
+        }),
+        { 
+          status: 401, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+    if (!Number.isInteger(body.campaignId) || body.campaignId < 1) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: "campaignId must be a positive integer" 
+        }),
+        { 
+          status: 400, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    // The token names the wallet the face matched; a wallet in the body must be the same one
+    const checked = verificationTokens.check(body.verificationToken, key);
+    if ("error" in checked) {
+      console.error(`❌ Verification token refused: ${checked.error}`);
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: checked.error 
+        }),
+        { 
+          status: checked.status, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+    const walletAddress = ethers.getAddress(checked.verification.wallet);
+    if (body.walletAddress && (!ethers.isAddress(body.walletAddress) || ethers.getAddress(body.walletAddress) !== walletAddress)) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: "The verification token was issued for another wallet" 
+        }),
+        { 
+          status: 403, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    const blocked = await checkPayout(body.campaignId, walletAddress);
+    if (blocked) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: blocked.error,
+          code: blocked.code
+        }),
+        { 
+          status: blocked.status, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    // A wallet already added keeps its token; otherwise the token is spent in the transaction that
+    // adds the wallet, so concurrent requests spend one token between them
+    const added = registryStore.transaction(() => {
+      if (registryStore.hasClaimEntry(body.campaignId, walletAddress)) {
+        return false;
+      }
+      if (!verificationTokens.use(body.verificationToken)) {
+        return null;
+      }
+      return registryStore.addClaimEntry(body.campaignId, walletAddress, Math.floor(Date.now() / 1000));
+    });
+    if (added === null) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: "Verification token was already used or has expired" 
+        }),
+        { 
+          status: 409, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+    console.log(`🧾 ${added ? 'Added' : 'Already added'} ${walletAddress} to the claims of campaign ${body.campaignId}`);
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        campaignId: body.campaignId,
+        wallet: walletAddress,
+        alreadyAdded: !added
+      }),
+      { 
+        status: 200, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers }
+      }
+    );
+  } catch (error) {
+    // A body that is not JSON is the client's mistake
+    const malformed = error instanceof SyntaxError;
+    console.error('❌ Claim enrollment error:', error);
+    return new Response(
+      JSON.stringify({ 
+        success: false,
+        error: malformed ? "Request body is not valid JSON" : error instanceof Error ? error.message : "Failed to add the claim"
+      }),
+      { 
+        status: malformed ? 400 : 500, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+}
+
+// List a wallet's claims with the Merkle proofs to submit to claim(). A claim is pending until
+// the next claim root including it is published.
+async function handleClaimsLookup(wallet: string): Promise<Response> {
+  if (!ethers.isAddress(wallet)) {
+    return new Response(
+      JSON.stringify({ error: "Invalid wallet address" }),
+      { 
+        status: 400, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+
+  // Catch up on claims made since the last sync
+  await runIndexSync();
+
+  const paidCampaigns = new Set(registryStore.getPayments(wallet).map(payment => payment.campaignId));
+  const claims = registryStore.listClaimsOf(wallet).map(({ campaignId, published }) => {
+    const campaign = registryStore.getCampaign(campaignId);
+    const proof = published
+      ? buildClaimTree(campaignId, registryStore.listClaimEntries(campaignId, published.lastEntryId).map(entry => entry.wallet))
+        .proofs.get(wallet.toLowerCase()) ?? null
+      : null;
+    return {
+      campaignId,
+      status: paidCampaigns.has(campaignId) ? "claimed" : proof ? "claimable" : "pending",
+      amount: campaign?.amount ?? null,
+      token: campaign?.token ?? null,
+      endsAt: campaign?.endsAt ?? null,
+      root: published?.root ?? null,
+      proof
+    };
+  });
+
+  return new Response(
+    JSON.stringify({ wallet: ethers.getAddress(wallet), claims }),
+    { 
+      status: 200, 
+      headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers }
+    }
+  );
+}
+
+// Handle payment release from a campaign to a verified wallet address
+async function handlePaymentRelease(request: Request, key: ApiKeyRecord): Promise<Response> {
+  console.log(`🔔 Payment release request received from ${key.name} (${key.id})`);
+  
+  if (!request.headers.get("Content-Type")?.includes("application/json")) {
+    console.error("❌ Invalid content type for payment release request");
+    return new Response(
+      JSON.stringify({ error: "Invalid content type" }), 
+      { 
+        status: 400, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+
+  try {
+    // Check if the payout queue is initialized
+    if (!payoutQueue) {
+      console.error("❌ Contract owner wallet not initialized. Cannot release payment.");
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: "Contract owner wallet not initialized. Check server configuration." 
+        }),
+        { 
+          status: 500, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    const body = await request.json() as { verificationToken: string, walletAddress?: string, campaignId: number };
+    if (!body.verificationToken) {
+      console.error("❌ No verification token provided in payment release request");
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: "verificationToken from /api/verify-face is required" 
+        }),
+        { 
+          status: 401, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+    if (!Number.isInteger(body.campaignId) || body.campaignId < 1) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: "campaignId must be a positive integer" 
+        }),
+        { 
+          status: 400, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    // The token names the wallet the face matched; a wallet in the body must be the same one
+    const checked = verificationTokens.check(body.verificationToken, key);
+    if ("error" in checked) {
+      console.error(`❌ Verification token refused: ${checked.error}`);
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: checked.error 
+        }),
+        { 
+          status: checked.status, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+    const walletAddress = ethers.getAddress(checked.verification.wallet);
+    if (body.walletAddress && (!ethers.isAddress(body.walletAddress) || ethers.getAddress(body.walletAddress) !== walletAddress)) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: "The verification token was issued for another wallet" 
+        }),
+        { 
+          status: 403, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+    const campaignId = body.campaignId;
+    console.log(`🔍 Attempting to release payment from campaign ${campaignId} to wallet: ${walletAddress}`);
+
+    // Repeated requests for a wallet share its job, so the payout is only sent once
+    const existing = registryStore.getPayoutJobFor(campaignId, walletAddress);
+    if (existing && existing.status !== "failed") {
+      console.log(`♻️ Payout from campaign ${campaignId} to ${walletAddress} is already job ${existing.id} (${existing.status})`);
+      return new Response(
+        JSON.stringify({ 
+          success: true, 
+          duplicate: true,
+          payout: payoutJson(existing)
+        }),
+        { 
+          status: existing.status === "confirmed" ? 200 : 202, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    const blocked = await checkPayout(campaignId, walletAddress);
+    if (blocked) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: blocked.error,
+          code: blocked.code
+        }),
+        { 
+          status: blocked.status, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    // Simulate the payout against the chain, which catches what the index cannot yet know, e.g. the contract's balance
+    try {
+      await simulateContractCall(contractWithSigner!, "releasePayment", [campaignId, walletAddress]);
+    } catch (error) {
+      const failure = error as ContractCallError;
+      console.error(`❌ Payout from campaign ${campaignId} to ${walletAddress} would fail: ${failure.message}`);
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: failure.message,
+          code: failure.code
+        }),
+        { 
+          status: failure.reverted ? 409 : 502, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    // Spent only once the payout is going ahead, so a refused payout leaves the token to retry
+    // with. The queue spends it in the transaction that queues the job, so concurrent releases
+    // for the wallet spend one token between them.
+    const queued = payoutQueue.enqueue(campaignId, walletAddress, () => verificationTokens.use(body.verificationToken));
+    if (!queued) {
+      return new Response(
+        JSON.stringify({ 
+          success: false, 
+          error: "Verification token was already used or has expired" 
+        }),
+        { 
+          status: 409, 
+          headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+        }
+      );
+    }
+
+    // The queue sends releasePayment in the background; clients poll GET /api/payouts/:id
+    const { job, duplicate } = queued;
+    if (duplicate) {
+      console.log(`♻️ Payout from campaign ${campaignId} to ${walletAddress} is already job ${job.id} (${job.status})`);
+    } else {
+      console.log(`📥 Queued payout job ${job.id} from campaign ${campaignId} to ${walletAddress} (face match ${checked.verification.similarity})`);
+    }
+    return new Response(
+      JSON.stringify({ 
+        success: true, 
+        duplicate,
+        payout: payoutJson(job)
+      }),
+      { 
+        status: duplicate && job.status === "confirmed" ? 200 : 202, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
   } catch (error) {
     console.error('❌ Payment release error:', error);
     return new Response(
@@ -454,4 +1702,43 @@ async function handlePaymentRelease(request: Request): Promise<Response> {
   }
 }
 
-console.log(`Image saving server listening on localhost:${server.port}`);
\ No newline at end of file
+console.log(`Image saving server listening on localhost:${server.port}`);
+
+// A payout job as reported to clients
+function payoutJson(job: PayoutJob) {
+  return {
+    id: job.id,
+    campaignId: job.campaignId,
+    wallet: job.wallet,
+    status: job.status,
+    transactionHash: job.transactionHash,
+    blockNumber: job.blockNumber,
+    attempts: job.attempts,
+    error: job.error,
+    errorCode: job.errorCode,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt
+  };
+}
+
+// Report the status of a queued payout: queued, submitted, confirmed or failed
+async function handlePayoutStatus(id: string): Promise<Response> {
+  const job = /^\d+$/.test(id) ? registryStore.getPayoutJob(Number(id)) : null;
+  if (!job) {
+    return new Response(
+      JSON.stringify({ error: "Unknown payout" }),
+      { 
+        status: 404, 
+        headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers } 
+      }
+    );
+  }
+
+  return new Response(
+    JSON.stringify(payoutJson(job)),
+    { 
+      status: 200, 
+      headers: { "Content-Type": "application/json", ...CORS_HEADERS.headers }
+    }
+  );
+}
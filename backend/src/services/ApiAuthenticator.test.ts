@@ -0,0 +1,88 @@
+import { describe, expect, test } from "bun:test";
+import { createHmac } from "crypto";
+import { API_KEY_HEADER, ApiAuthenticator, SIGNATURE_HEADER, TIMESTAMP_HEADER, signingString } from "./ApiAuthenticator";
+import { ApiKeyRecord, RegistryStore } from "./RegistryStore";
+
+const REQUEST_URL = "http://localhost:3103/api/verify-face?debug=1";
+
+function setup() {
+  const store = new RegistryStore(":memory:");
+  const key: ApiKeyRecord = {
+    id: "key-1",
+    name: "Test dApp",
+    secret: "s3cret",
+    scopes: ["verify"],
+    rateLimit: 60,
+    createdAt: 0,
+    revokedAt: null
+  };
+  store.insertApiKey(key);
+  return { store, key, authenticator: new ApiAuthenticator(store) };
+}
+
+// Signs a request the way integrating dApps do
+function signedRequest(key: ApiKeyRecord, body: string, { timestamp = Math.floor(Date.now() / 1000), secret = key.secret } = {}): Request {
+  const signature = createHmac("sha256", secret)
+    .update(signingString(String(timestamp), "POST", "/api/verify-face?debug=1", new TextEncoder().encode(body).buffer as ArrayBuffer))
+    .digest("hex");
+  return new Request(REQUEST_URL, {
+    method: "POST",
+    body,
+    headers: { [API_KEY_HEADER]: key.id, [TIMESTAMP_HEADER]: String(timestamp), [SIGNATURE_HEADER]: signature }
+  });
+}
+
+describe("ApiAuthenticator", () => {
+  test("accepts a signed request and leaves its body readable", async () => {
+    const { key, authenticator } = setup();
+    const request = signedRequest(key, '{"imageId":"abc"}');
+
+    const auth = await authenticator.authenticate(request, "verify");
+    expect("key" in auth && auth.key.id).toBe(key.id);
+    expect(await request.json()).toEqual({ imageId: "abc" });
+  });
+
+  test("refuses unsigned requests", async () => {
+    const { authenticator } = setup();
+    const auth = await authenticator.authenticate(new Request(REQUEST_URL, { method: "POST", body: "{}" }), "verify");
+    expect(auth).toMatchObject({ status: 401 });
+  });
+
+  test("refuses unknown and revoked keys", async () => {
+    const { store, key, authenticator } = setup();
+    expect(await authenticator.authenticate(signedRequest({ ...key, id: "key-2" }, "{}"), "verify")).toMatchObject({ status: 401 });
+
+    store.insertApiKey({ ...key, id: "key-3", revokedAt: 1 });
+    expect(await authenticator.authenticate(signedRequest({ ...key, id: "key-3" }, "{}"), "verify")).toMatchObject({ status: 401 });
+  });
+
+  test("refuses a wrong secret or an altered body", async () => {
+    const { key, authenticator } = setup();
+    expect(await authenticator.authenticate(signedRequest(key, "{}", { secret: "other" }), "verify"))
+      .toMatchObject({ status: 401, error: "Invalid request signature" });
+
+    const signed = signedRequest(key, '{"imageId":"abc"}');
+    const altered = new Request(REQUEST_URL, { method: "POST", body: '{"imageId":"xyz"}', headers: signed.headers });
+    expect(await authenticator.authenticate(altered, "verify")).toMatchObject({ status: 401, error: "Invalid request signature" });
+  });
+
+  test("refuses timestamps too far from the server's clock", async () => {
+    const { key, authenticator } = setup();
+    const now = Math.floor(Date.now() / 1000);
+    expect(await authenticator.authenticate(signedRequest(key, "{}", { timestamp: now - 600 }), "verify")).toMatchObject({ status: 401 });
+    expect(await authenticator.authenticate(signedRequest(key, "{}", { timestamp: now + 600 }), "verify")).toMatchObject({ status: 401 });
+  });
+
+  test("accepts each signature once", async () => {
+    const { key, authenticator } = setup();
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    expect("key" in await authenticator.authenticate(signedRequest(key, "{}", { timestamp }), "verify")).toBe(true);
+    expect(await authenticator.authenticate(signedRequest(key, "{}", { timestamp }), "verify")).toMatchObject({ status: 401, error: "Request signature was already used" });
+  });
+
+  test("refuses keys without the route's scope", async () => {
+    const { key, authenticator } = setup();
+    expect(await authenticator.authenticate(signedRequest(key, "{}"), "pay")).toMatchObject({ status: 403 });
+  });
+});
@@ -0,0 +1,85 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import { ApiKeyRecord, ApiScope, RegistryStore } from "./RegistryStore";
+
+// How far a request's timestamp may be from the server's clock
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+
+// Headers a signed request carries
+export const API_KEY_HEADER = "X-Api-Key";
+export const TIMESTAMP_HEADER = "X-Timestamp";
+export const SIGNATURE_HEADER = "X-Signature";
+
+/**
+ * The string a request signature covers: the timestamp, method, path with query and the
+ * SHA-256 of the body, one per line. Clients sign it with HMAC-SHA256 and send the hex digest.
+ */
+export function signingString(timestamp: string, method: string, pathAndQuery: string, body: ArrayBuffer): string {
+  const bodyHash = createHash("sha256").update(new Uint8Array(body)).digest("hex");
+  return `${timestamp}\n${method.toUpperCase()}\n${pathAndQuery}\n${bodyHash}`;
+}
+
+/**
+ * Checks the HMAC signatures of requests from integrating dApps.
+ *
+ * A signature is accepted once, within MAX_CLOCK_SKEW_SECONDS of its timestamp, so a
+ * captured request cannot be replayed.
+ */
+export class ApiAuthenticator {
+  // Signatures already accepted, with when they expire
+  private seenSignatures = new Map<string, number>();
+
+  constructor(private store: RegistryStore) {}
+
+  /**
+   * Authenticates a signed request
+   * @param scope The scope the route requires
+   * @returns The caller's key, or the error and HTTP status to report
+   */
+  async authenticate(request: Request, scope: ApiScope): Promise<{ key: ApiKeyRecord } | { status: number, error: string }> {
+    const keyId = request.headers.get(API_KEY_HEADER);
+    const timestamp = request.headers.get(TIMESTAMP_HEADER);
+    const signature = request.headers.get(SIGNATURE_HEADER);
+    if (!keyId || !timestamp || !signature) {
+      return { status: 401, error: `Requests must be signed with ${API_KEY_HEADER}, ${TIMESTAMP_HEADER} and ${SIGNATURE_HEADER} headers` };
+    }
+
+    const key = this.store.getApiKey(keyId);
+    if (!key || key.revokedAt !== null) {
+      return { status: 401, error: "Unknown or revoked API key" };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (!/^\d+$/.test(timestamp) || Math.abs(now - Number(timestamp)) > MAX_CLOCK_SKEW_SECONDS) {
+      return { status: 401, error: "Request timestamp is missing or too far from the server's clock" };
+    }
+
+    const url = new URL(request.url);
+    const body = await request.clone().arrayBuffer();
+    const expected = createHmac("sha256", key.secret)
+      .update(signingString(timestamp, request.method, url.pathname + url.search, body))
+      .digest();
+    const provided = Buffer.from(signature, "hex");
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      return { status: 401, error: "Invalid request signature" };
+    }
+
+    this.forgetExpiredSignatures(now);
+    if (this.seenSignatures.has(signature)) {
+      return { status: 401, error: "Request signature was already used" };
+    }
+    this.seenSignatures.set(signature, Number(timestamp) + MAX_CLOCK_SKEW_SECONDS);
+
+    if (!key.scopes.includes(scope)) {
+      return { status: 403, error: `API key lacks the "${scope}" scope` };
+    }
+    return { key };
+  }
+
+  private forgetExpiredSignatures(now: number): void {
+    for (const [signature, expiresAt] of this.seenSignatures) {
+      if (expiresAt < now) {
+        this.seenSignatures.delete(signature);
+      }
+    }
+  }
+}
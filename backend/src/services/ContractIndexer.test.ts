@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import faceAbi from "../utils/faceAbi.json";
+import { ContractIndexer } from "./ContractIndexer";
+import { RegistryStore } from "./RegistryStore";
+
+const ADDRESS = "0x0000000000000000000000000000000000000001";
+const WALLET = ethers.getAddress("0x" + "aa".repeat(20));
+const iface = new ethers.Interface(faceAbi);
+
+// A block of the fake chain, with the registrations it contains
+interface Block {
+  hash: string;
+  registrations: string[];
+}
+
+/**
+ * In-memory chain serving the few provider calls the indexer makes. Blocks are
+ * numbered from 1; a fork replaces every block from a height on.
+ */
+class FakeChain {
+  blocks: Block[] = [];
+  logRequests: number[] = [];
+
+  constructor(private fork = "a") {}
+
+  mine(...registrations: string[]): void {
+    this.blocks.push({ hash: ethers.id(`${this.fork}-${this.blocks.length + 1}`), registrations });
+  }
+
+  reorg(fromBlock: number, fork: string): void {
+    this.fork = fork;
+    this.blocks = this.blocks.slice(0, fromBlock - 1);
+  }
+
+  provider(): ethers.Provider {
+    return {
+      getBlockNumber: async () => this.blocks.length,
+      getBlock: async (number: number) => {
+        const block = this.blocks[number - 1];
+        return block ? { number, hash: block.hash } : null;
+      },
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: number, toBlock: number }) => {
+        this.logRequests.push(fromBlock);
+        const logs = [];
+        for (let number = fromBlock; number <= toBlock; number++) {
+          for (const [index, ipfsHash] of this.blocks[number - 1].registrations.entries()) {
+            const { topics, data } = iface.encodeEventLog("Registered", [WALLET, ethers.ZeroHash, "0x02", ipfsHash, 1_700_000_000]);
+            logs.push({ topics, data, blockNumber: number, transactionHash: ethers.id(`${ipfsHash}-tx`), index });
+          }
+        }
+        return logs;
+      }
+    } as unknown as ethers.Provider;
+  }
+}
+
+function indexer(chain: FakeChain, store: RegistryStore, confirmations: number): ContractIndexer {
+  const contract = new ethers.Contract(ADDRESS, faceAbi, { provider: chain.provider() } as ethers.ContractRunner);
+  return new ContractIndexer(contract, store, { startBlock: 1, confirmations, blockRange: 1 });
+}
+
+describe("ContractIndexer reorgs", () => {
+  test("rewinds to the newest block still on the chain and reads the new blocks", async () => {
+    const chain = new FakeChain();
+    const store = new RegistryStore(":memory:");
+    const contractIndexer = indexer(chain, store, 10);
+    chain.mine();
+    chain.mine();
+    chain.mine();
+    chain.mine("QmOld");
+    chain.mine();
+    await contractIndexer.sync();
+    expect(store.getRegistration(WALLET)?.ipfsHash).toBe("QmOld");
+
+    chain.reorg(4, "b");
+    chain.mine();
+    chain.mine("QmNew");
+    chain.logRequests = [];
+    await contractIndexer.sync();
+
+    expect(chain.logRequests).toEqual([4, 5]);
+    expect(store.getRegistration(WALLET)).toMatchObject({ ipfsHash: "QmNew", blockNumber: 5 });
+    expect(store.getCursor()?.blockHash).toBe(chain.blocks[4].hash);
+  });
+
+  test("rewinds past the confirmation depth when no stored block is still on the chain", async () => {
+    const chain = new FakeChain();
+    const store = new RegistryStore(":memory:");
+    const contractIndexer = indexer(chain, store, 2);
+    for (let i = 0; i < 8; i++) {
+      chain.mine();
+    }
+    await contractIndexer.sync();
+
+    // Blocks 6 to 8 are stored and the fork starts below them, so the indexer rewinds to block 4
+    chain.reorg(5, "b");
+    for (let i = 0; i < 4; i++) {
+      chain.mine();
+    }
+    chain.logRequests = [];
+    await contractIndexer.sync();
+
+    expect(chain.logRequests).toEqual([5, 6, 7, 8]);
+    expect(store.getCursor()?.blockHash).toBe(chain.blocks[7].hash);
+  });
+
+  test("does not rewind while the last block is on the chain", async () => {
+    const chain = new FakeChain();
+    const store = new RegistryStore(":memory:");
+    const contractIndexer = indexer(chain, store, 10);
+    chain.mine("QmOld");
+    await contractIndexer.sync();
+    chain.mine();
+    chain.logRequests = [];
+    await contractIndexer.sync();
+
+    expect(chain.logRequests).toEqual([2]);
+    expect(store.getRegistration(WALLET)?.ipfsHash).toBe("QmOld");
+  });
+});
@@ -0,0 +1,209 @@
+import { ethers } from "ethers";
+import { RegistryStore } from "./RegistryStore";
+
+export interface ContractIndexerOptions {
+  // First block to read logs from when the store is empty
+  startBlock: number;
+  // Depth at which blocks are considered final; a reorg rewinds this far
+  confirmations: number;
+  // Maximum block span of a single eth_getLogs request
+  blockRange: number;
+}
+
+// Events the indexer persists
+const INDEXED_EVENTS = ["Registered", "Rebound", "Deregistered", "CampaignCreated", "PaymentSent"];
+
+/**
+ * Reads Registered, Rebound, Deregistered, CampaignCreated and PaymentSent logs into the local RegistryStore.
+ *
+ * Progress is stored as the hashes of the recently processed blocks, so the
+ * indexer resumes where it left off after a restart. If the last one is no
+ * longer on the canonical chain, the indexer walks back to the newest stored
+ * block that still is and reads everything after it again; if none is, it
+ * rewinds past the confirmation depth.
+ */
+export class ContractIndexer {
+  private syncing: Promise<void> | null = null;
+
+  constructor(
+    private contract: ethers.Contract,
+    private store: RegistryStore,
+    private options: ContractIndexerOptions
+  ) {}
+
+  /**
+   * Indexes up to the current head. Concurrent callers share the in-flight run.
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.syncToHead().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  private get provider(): ethers.Provider {
+    const provider = this.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("Indexer contract is not connected to a provider");
+    }
+    return provider;
+  }
+
+  private async syncToHead(): Promise<void> {
+    await this.handleReorg();
+
+    const cursor = this.store.getCursor();
+    const latestBlock = await this.provider.getBlockNumber();
+    let fromBlock = cursor ? cursor.blockNumber + 1 : this.options.startBlock;
+
+    while (fromBlock <= latestBlock) {
+      const toBlock = Math.min(fromBlock + this.options.blockRange - 1, latestBlock);
+      await this.indexRange(fromBlock, toBlock);
+      fromBlock = toBlock + 1;
+    }
+  }
+
+  // Rewind the store to the newest processed block still on the canonical chain
+  private async handleReorg(): Promise<void> {
+    const indexed = this.store.listIndexedBlocks();
+    if (indexed.length === 0) {
+      return;
+    }
+
+    let common: number | null = null;
+    for (const { blockNumber, blockHash } of indexed) {
+      const block = await this.provider.getBlock(blockNumber);
+      if (block && block.hash === blockHash) {
+        common = blockNumber;
+        break;
+      }
+    }
+
+    const cursor = indexed[0];
+    if (common === cursor.blockNumber) {
+      return;
+    }
+
+    if (common !== null) {
+      // The matching block's hash is kept, so the cursor already sits on it after the rewind
+      console.warn(`Reorg detected at block ${cursor.blockNumber}, rewinding indexer to block ${common}`);
+      this.store.rewindTo(common);
+      return;
+    }
+
+    // The reorg is deeper than every stored hash
+    const rewindTo = Math.max(indexed[indexed.length - 1].blockNumber - this.options.confirmations, this.options.startBlock - 1);
+    console.warn(`Reorg detected at block ${cursor.blockNumber}, rewinding indexer to block ${rewindTo}`);
+
+    // Re-anchor the cursor on the canonical chain so the next run resumes right after it
+    const anchor = rewindTo >= this.options.startBlock ? await this.provider.getBlock(rewindTo) : null;
+    this.store.transaction(() => {
+      this.store.rewindTo(rewindTo);
+      if (anchor?.hash) {
+        this.store.setCursor({ blockNumber: rewindTo, blockHash: anchor.hash }, this.options.confirmations);
+      }
+    });
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<void> {
+    const topics = INDEXED_EVENTS.map(name => this.contract.interface.getEvent(name)!.topicHash);
+    const [logs, lastBlock] = await Promise.all([
+      this.provider.getLogs({
+        address: await this.contract.getAddress(),
+        topics: [topics],
+        fromBlock,
+        toBlock
+      }),
+      this.provider.getBlock(toBlock)
+    ]);
+
+    if (!lastBlock?.hash) {
+      throw new Error(`Block ${toBlock} not available from provider`);
+    }
+
+    this.store.transaction(() => {
+      for (const log of logs) {
+        this.indexLog(log);
+      }
+      this.store.setCursor(
+        { blockNumber: toBlock, blockHash: lastBlock.hash! },
+        this.options.confirmations
+      );
+    });
+
+    if (logs.length > 0) {
+      console.log(`Indexed ${logs.length} contract events in blocks ${fromBlock}-${toBlock}`);
+    }
+  }
+
+  private indexLog(log: ethers.Log): void {
+    const parsed = this.contract.interface.parseLog(log);
+    if (!parsed) {
+      return;
+    }
+
+    switch (parsed.name) {
+      case "Registered":
+        this.store.upsertRegistration({
+          wallet: parsed.args.wallet,
+          faceHash: parsed.args.faceHash,
+          publicKey: parsed.args.publicKey,
+          ipfsHash: parsed.args.ipfsHash,
+          timestamp: Number(parsed.args.timestamp),
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          logIndex: log.index
+        });
+        break;
+      case "Rebound": {
+        // The registration moved to a new wallet after a recovery, with the recovery capture's
+        // payload; the old wallet's payload is erased as after a deregistration
+        const previous = this.store.getRegistration(parsed.args.oldWallet);
+        this.store.endRegistration(parsed.args.oldWallet, log.blockNumber);
+        if (previous && previous.ipfsHash !== parsed.args.ipfsHash) {
+          this.store.recordErasure(parsed.args.oldWallet, previous.ipfsHash, log.blockNumber);
+        }
+        this.store.upsertRegistration({
+          wallet: parsed.args.newWallet,
+          faceHash: parsed.args.faceHash,
+          publicKey: parsed.args.publicKey,
+          ipfsHash: parsed.args.ipfsHash,
+          timestamp: Number(parsed.args.timestamp),
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          logIndex: log.index
+        });
+        break;
+      }
+      case "Deregistered":
+        // The user removed their registration; their pinned data is erased after the sync
+        this.store.endRegistration(parsed.args.wallet, log.blockNumber);
+        this.store.recordErasure(parsed.args.wallet, parsed.args.ipfsHash, log.blockNumber);
+        break;
+      case "CampaignCreated":
+        this.store.insertCampaign({
+          id: Number(parsed.args.campaignId),
+          amount: parsed.args.amount.toString(),
+          token: parsed.args.token,
+          startsAt: Number(parsed.args.startsAt),
+          endsAt: Number(parsed.args.endsAt),
+          budget: parsed.args.budget.toString(),
+          blockNumber: log.blockNumber
+        });
+        break;
+      case "PaymentSent":
+        this.store.insertPayment({
+          wallet: parsed.args.wallet,
+          campaignId: Number(parsed.args.campaignId),
+          token: parsed.args.token,
+          amount: parsed.args.amount.toString(),
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+          logIndex: log.index
+        });
+        break;
+    }
+  }
+}
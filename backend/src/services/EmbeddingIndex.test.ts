@@ -0,0 +1,38 @@
+import { describe, expect, test } from "bun:test";
+import { EmbeddingModelInfo } from "../../../shared/embeddingPayload";
+import { EmbeddingIndex } from "./EmbeddingIndex";
+
+const MODEL: EmbeddingModelInfo = { name: "w600k_mbf", dimension: 2, normalization: "l2", preprocessingHash: "ab".repeat(32) };
+const OTHER_MODEL: EmbeddingModelInfo = { ...MODEL, name: "analyze-face", normalization: "none" };
+
+describe("EmbeddingIndex", () => {
+  test("ranks registrants by cosine similarity", () => {
+    const index = new EmbeddingIndex();
+    index.upsert("0xA", "QmA", [1, 0], MODEL);
+    index.upsert("0xB", "QmB", [3, 4], MODEL);
+
+    const matches = index.query([6, 8], MODEL, 5);
+    expect(matches.map(match => match.address)).toEqual(["0xB", "0xA"]);
+    expect(matches[0].similarity).toBeCloseTo(1);
+    expect(matches[1].similarity).toBeCloseTo(0.6);
+  });
+
+  test("only compares probes with entries from the same model, and counts the others", () => {
+    const index = new EmbeddingIndex();
+    index.upsert("0xA", "QmA", [1, 0], MODEL);
+    index.upsert("0xB", "QmB", [1, 0], OTHER_MODEL);
+
+    expect(index.query([1, 0], MODEL).map(match => match.address)).toEqual(["0xA"]);
+    expect(index.countOtherModels(MODEL)).toBe(1);
+    expect(index.countOtherModels(OTHER_MODEL)).toBe(1);
+
+    index.remove("0xb");
+    expect(index.countOtherModels(MODEL)).toBe(0);
+  });
+
+  test("does not index zero embeddings", () => {
+    const index = new EmbeddingIndex();
+    expect(index.upsert("0xA", "QmA", [0, 0], MODEL)).toBe(false);
+    expect(index.size).toBe(0);
+  });
+});
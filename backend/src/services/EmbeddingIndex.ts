@@ -0,0 +1,171 @@
+import { fetchFromIPFS } from "../utils/ipfs";
+import { EmbeddingModelInfo, EmbeddingPayload, sameEmbeddingModel } from "../../../shared/embeddingPayload";
+import { EnvelopeKeyring, readEmbeddingPayload } from "./EnvelopeKeyring";
+import { CachedEmbedding } from "./RegistryStore";
+
+// A registrant's embedding as stored in the index
+interface IndexEntry {
+  address: string;
+  ipfsHash: string;
+  vector: Float32Array;
+  model: EmbeddingModelInfo;
+}
+
+// A single result of a nearest-neighbour query
+export interface FaceMatch {
+  address: string;
+  ipfsHash: string;
+  similarity: number;
+}
+
+/**
+ * L2-normalizes an embedding so that cosine similarity reduces to a dot product
+ * @returns The normalized vector, or null if the embedding has zero magnitude
+ */
+export function normalizeEmbedding(embedding: ArrayLike<number>): Float32Array | null {
+  let magnitude = 0;
+  for (let i = 0; i < embedding.length; i++) {
+    magnitude += embedding[i] * embedding[i];
+  }
+  magnitude = Math.sqrt(magnitude);
+
+  if (magnitude === 0 || !Number.isFinite(magnitude)) {
+    return null;
+  }
+
+  const vector = new Float32Array(embedding.length);
+  for (let i = 0; i < embedding.length; i++) {
+    vector[i] = embedding[i] / magnitude;
+  }
+  return vector;
+}
+
+/**
+ * In-process index of every registrant's face embedding.
+ *
+ * Each vector is fetched from IPFS once, normalized and kept in memory, so a
+ * verification only has to embed the probe image and scan the index locally.
+ * Encrypted payloads are opened with the envelope keyring. Each entry keeps the
+ * model that produced it and is only compared with probes from the same model.
+ */
+export class EmbeddingIndex {
+  private entries = new Map<string, IndexEntry>();
+
+  constructor(private keyring: EnvelopeKeyring | null = null) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Whether the index already holds the embedding for a registrant
+   * @param address The registrant's wallet address
+   * @param ipfsHash If given, the entry must also point at this IPFS hash
+   */
+  has(address: string, ipfsHash?: string): boolean {
+    const entry = this.entries.get(address.toLowerCase());
+    return !!entry && (ipfsHash === undefined || entry.ipfsHash === ipfsHash);
+  }
+
+  /**
+   * Adds or replaces a registrant's embedding
+   * @returns false if the embedding could not be normalized
+   */
+  upsert(address: string, ipfsHash: string, embedding: ArrayLike<number>, model: EmbeddingModelInfo): boolean {
+    const vector = normalizeEmbedding(embedding);
+    if (!vector) {
+      console.warn(`Zero-magnitude embedding for ${address}, not indexing`);
+      return false;
+    }
+
+    this.entries.set(address.toLowerCase(), { address, ipfsHash, vector, model });
+    return true;
+  }
+
+  remove(address: string): boolean {
+    return this.entries.delete(address.toLowerCase());
+  }
+
+  // Addresses of every indexed registrant
+  addresses(): string[] {
+    return Array.from(this.entries.values(), entry => entry.address);
+  }
+
+  /**
+   * Counts the registrants whose embeddings came from another model, which a probe from this
+   * model cannot be compared with
+   */
+  countOtherModels(model: EmbeddingModelInfo): number {
+    let count = 0;
+    for (const entry of this.entries.values()) {
+      if (!sameEmbeddingModel(entry.model, model)) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Fetches a registrant's embedding payload from IPFS and indexes it
+   * @param address The registrant's wallet address
+   * @param ipfsHash The IPFS hash of the stored face embedding
+   * @returns The normalized vector and its model, or null if it could not be normalized
+   */
+  async addFromIPFS(address: string, ipfsHash: string): Promise<CachedEmbedding | null> {
+    const content = await fetchFromIPFS(ipfsHash);
+
+    let payload: EmbeddingPayload;
+    try {
+      payload = await readEmbeddingPayload(content, this.keyring);
+    } catch (error) {
+      throw new Error(`Invalid embedding data retrieved from IPFS for ${address}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (!this.upsert(address, ipfsHash, payload.embedding, payload.model)) {
+      return null;
+    }
+    const { vector, model } = this.entries.get(address.toLowerCase())!;
+    return { vector, model };
+  }
+
+  /**
+   * Finds the registrants whose embeddings are closest to the probe
+   * @param embedding The probe embedding (need not be normalized)
+   * @param model The model that produced the probe; entries from other models are skipped
+   * @param k Maximum number of matches to return
+   * @returns Matches ordered by descending cosine similarity
+   */
+  query(embedding: ArrayLike<number>, model: EmbeddingModelInfo, k = 5): FaceMatch[] {
+    const probe = normalizeEmbedding(embedding);
+    if (!probe || k <= 0) {
+      return [];
+    }
+
+    const top: FaceMatch[] = [];
+
+    for (const entry of this.entries.values()) {
+      if (!sameEmbeddingModel(entry.model, model)) {
+        continue;
+      }
+
+      let similarity = 0;
+      for (let i = 0; i < probe.length; i++) {
+        similarity += probe[i] * entry.vector[i];
+      }
+
+      // Keep the top-k list sorted with a simple insertion
+      if (top.length < k || similarity > top[top.length - 1].similarity) {
+        let position = top.length;
+        while (position > 0 && top[position - 1].similarity < similarity) {
+          position--;
+        }
+        top.splice(position, 0, { address: entry.address, ipfsHash: entry.ipfsHash, similarity });
+        if (top.length > k) {
+          top.pop();
+        }
+      }
+    }
+
+    return top;
+  }
+}
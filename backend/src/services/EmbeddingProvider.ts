@@ -0,0 +1,61 @@
+import { EmbeddingModelInfo, EmbeddingModelSpec } from "../../../shared/embeddingPayload";
+import { FaceDetector } from "./FaceDetector";
+import { FixtureEmbeddingProvider } from "./FixtureEmbeddingProvider";
+import { LocalEmbeddingProvider } from "./LocalEmbeddingProvider";
+import { RemoteEmbeddingProvider } from "./RemoteEmbeddingProvider";
+
+// Face bounding box in image pixels
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEmbedding {
+  embedding: number[];
+  // The model that produced the embedding; only entries from the same model are compared
+  model: EmbeddingModelInfo;
+  // Where the embedded face is, if the provider reports it
+  box?: FaceBox;
+}
+
+/**
+ * Turns an image into a face embedding. Verification embeds the probe once
+ * through a provider and compares it against the local index.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  // The model every embedding comes from; the dimension may only be known from an embedding
+  readonly model: EmbeddingModelSpec;
+  // Loads what the provider needs up front, if anything
+  load?(): Promise<void>;
+  embed(image: Buffer): Promise<ImageEmbedding>;
+}
+
+export interface EmbeddingProviderOptions {
+  // Endpoint of the remote analyze API
+  remoteUrl: string;
+  // Finds the face to embed in each crop, for the local provider
+  detector: FaceDetector;
+  // ONNX embedder model for the local provider
+  embedderModelPath: string;
+}
+
+/**
+ * Creates the provider selected by configuration
+ * @param name "local" (the frontend's models, run in-process), "remote" (the hosted analyze API)
+ *   or "fixture" (deterministic, offline)
+ */
+export function createEmbeddingProvider(name: string, options: EmbeddingProviderOptions): EmbeddingProvider {
+  switch (name) {
+    case "local":
+      return new LocalEmbeddingProvider(options.detector, options.embedderModelPath);
+    case "remote":
+      return new RemoteEmbeddingProvider(options.remoteUrl);
+    case "fixture":
+      return new FixtureEmbeddingProvider();
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
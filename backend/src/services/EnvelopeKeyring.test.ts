@@ -0,0 +1,70 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, stat } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ANALYZE_FACE_MODEL, createEmbeddingPayload } from "../../../shared/embeddingPayload";
+import { encryptEmbeddingPayload } from "../../../src/utils/embeddingEnvelope";
+import { EnvelopeKeyring, isEmbeddingEnvelope, readEmbeddingPayload } from "./EnvelopeKeyring";
+
+const directory = await mkdtemp(join(tmpdir(), "envelope-"));
+afterAll(() => rm(directory, { recursive: true, force: true }));
+
+const payload = createEmbeddingPayload([0.6, 0.8], ANALYZE_FACE_MODEL, { createdAt: 1767225600000 });
+
+describe("EnvelopeKeyring", () => {
+  test("opens envelopes the frontend encrypts to its public key", async () => {
+    const keyring = await EnvelopeKeyring.loadOrCreate(join(directory, "opens.json"));
+    const envelope = await encryptEmbeddingPayload(payload, keyring.publicKey);
+
+    expect(isEmbeddingEnvelope(envelope)).toBe(true);
+    expect(JSON.stringify(envelope)).not.toContain("0.6");
+    expect(await keyring.decrypt(envelope)).toEqual(payload);
+  });
+
+  test("keeps its key across restarts", async () => {
+    const path = join(directory, "restarts.json");
+    const first = await EnvelopeKeyring.loadOrCreate(path);
+    const envelope = await encryptEmbeddingPayload(payload, first.publicKey);
+
+    const second = await EnvelopeKeyring.loadOrCreate(path);
+    expect(second.publicKey).toEqual(first.publicKey);
+    expect(await second.decrypt(envelope)).toEqual(payload);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(JSON.parse(await readFile(path, "utf8")).kid).toBe(first.kid);
+  });
+
+  test("refuses envelopes for another key", async () => {
+    const keyring = await EnvelopeKeyring.loadOrCreate(join(directory, "mine.json"));
+    const other = await EnvelopeKeyring.loadOrCreate(join(directory, "other.json"));
+    const envelope = await encryptEmbeddingPayload(payload, other.publicKey);
+
+    await expect(keyring.decrypt(envelope)).rejects.toThrow("unknown key");
+  });
+
+  test("refuses envelopes whose header or ciphertext was altered", async () => {
+    const keyring = await EnvelopeKeyring.loadOrCreate(join(directory, "altered.json"));
+    const envelope = await encryptEmbeddingPayload(payload, keyring.publicKey);
+
+    await expect(keyring.decrypt({ ...envelope, version: 2 })).rejects.toThrow("Unsupported envelope");
+    const ciphertext = Buffer.from(envelope.ciphertext, "base64");
+    ciphertext[0] ^= 1;
+    await expect(keyring.decrypt({ ...envelope, ciphertext: ciphertext.toString("base64") })).rejects.toThrow();
+  });
+});
+
+describe("readEmbeddingPayload", () => {
+  test("opens encrypted payloads and reads plaintext ones", async () => {
+    const keyring = await EnvelopeKeyring.loadOrCreate(join(directory, "payloads.json"));
+    const envelope = await encryptEmbeddingPayload(payload, keyring.publicKey);
+
+    expect((await readEmbeddingPayload(envelope, keyring)).embedding).toEqual(payload.embedding);
+    expect((await readEmbeddingPayload(payload, null)).embedding).toEqual(payload.embedding);
+  });
+
+  test("needs a keyring for encrypted payloads", async () => {
+    const keyring = await EnvelopeKeyring.loadOrCreate(join(directory, "nokey.json"));
+    const envelope = await encryptEmbeddingPayload(payload, keyring.publicKey);
+
+    await expect(readEmbeddingPayload(envelope, null)).rejects.toThrow("no envelope key");
+  });
+});
@@ -0,0 +1,173 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { dirname } from "path";
+import type { JsonWebKey } from "crypto";
+import { EmbeddingPayload, parseEmbeddingPayload } from "../../../shared/embeddingPayload";
+
+// Envelope format written by the frontend (see src/utils/embeddingEnvelope.ts)
+export const ENVELOPE_TYPE = "intellifi.embedding-envelope";
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_ALGORITHM = "ECDH-ES+A256GCM";
+
+// HKDF info string binding derived keys to this envelope version
+const HKDF_INFO = new TextEncoder().encode("intellifi-embedding-envelope/v1");
+
+export interface EmbeddingEnvelope {
+  type: typeof ENVELOPE_TYPE;
+  version: number;
+  alg: string;
+  kid: string;
+  // Sender's ephemeral P-256 public key, raw uncompressed point, base64
+  epk: string;
+  // AES-GCM nonce, base64
+  nonce: string;
+  // AES-GCM ciphertext with appended tag, base64
+  ciphertext: string;
+}
+
+// Public half of the envelope key, as published to browsers
+export interface EnvelopePublicKey {
+  kid: string;
+  alg: string;
+  publicKey: string;
+}
+
+interface StoredKey {
+  kid: string;
+  privateKey: JsonWebKey;
+}
+
+export function isEmbeddingEnvelope(value: unknown): value is EmbeddingEnvelope {
+  return typeof value === "object" && value !== null && (value as { type?: unknown }).type === ENVELOPE_TYPE;
+}
+
+// Additional authenticated data: the envelope header, so it cannot be altered
+function envelopeAad(envelope: Pick<EmbeddingEnvelope, "version" | "alg" | "kid">): Uint8Array {
+  return new TextEncoder().encode(`${envelope.version}.${envelope.alg}.${envelope.kid}`);
+}
+
+async function keyIdFor(rawPublicKey: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", rawPublicKey);
+  return Buffer.from(digest).subarray(0, 8).toString("hex");
+}
+
+/**
+ * Holds the backend's envelope private key.
+ *
+ * Browsers encrypt embeddings to the published public key before pinning them
+ * to IPFS; only the comparison path on this server can open them.
+ */
+export class EnvelopeKeyring {
+  private constructor(
+    readonly kid: string,
+    private privateKey: CryptoKey,
+    private rawPublicKey: ArrayBuffer
+  ) {}
+
+  /**
+   * Loads the key from disk, generating and saving a new one on first start
+   * @param path JSON file holding the key id and private JWK
+   */
+  static async loadOrCreate(path: string): Promise<EnvelopeKeyring> {
+    let stored: StoredKey;
+
+    try {
+      stored = JSON.parse(await readFile(path, "utf8")) as StoredKey;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+
+      const pair = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveBits"]) as CryptoKeyPair;
+      const raw = await crypto.subtle.exportKey("raw", pair.publicKey);
+      stored = {
+        kid: await keyIdFor(raw),
+        privateKey: await crypto.subtle.exportKey("jwk", pair.privateKey) as JsonWebKey
+      };
+
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, JSON.stringify(stored), { mode: 0o600 });
+      console.log(`Generated new envelope key ${stored.kid} at ${path}`);
+    }
+
+    const privateKey = await crypto.subtle.importKey(
+      "jwk", stored.privateKey, { name: "ECDH", namedCurve: "P-256" }, false, ["deriveBits"]
+    );
+
+    // Rebuild the public key from the private JWK's x/y coordinates
+    const { kty, crv, x, y } = stored.privateKey;
+    const publicKey = await crypto.subtle.importKey(
+      "jwk", { kty, crv, x, y }, { name: "ECDH", namedCurve: "P-256" }, true, []
+    );
+    const rawPublicKey = await crypto.subtle.exportKey("raw", publicKey);
+
+    return new EnvelopeKeyring(stored.kid, privateKey, rawPublicKey);
+  }
+
+  get publicKey(): EnvelopePublicKey {
+    return {
+      kid: this.kid,
+      alg: ENVELOPE_ALGORITHM,
+      publicKey: Buffer.from(this.rawPublicKey).toString("base64")
+    };
+  }
+
+  /**
+   * Decrypts an envelope and parses its JSON plaintext
+   */
+  async decrypt<T = unknown>(envelope: EmbeddingEnvelope): Promise<T> {
+    if (envelope.version !== ENVELOPE_VERSION || envelope.alg !== ENVELOPE_ALGORITHM) {
+      throw new Error(`Unsupported envelope ${envelope.version}/${envelope.alg}`);
+    }
+    if (envelope.kid !== this.kid) {
+      throw new Error(`Envelope was encrypted to unknown key ${envelope.kid}`);
+    }
+
+    const epkBytes = Buffer.from(envelope.epk, "base64");
+    const ephemeralKey = await crypto.subtle.importKey(
+      "raw", epkBytes, { name: "ECDH", namedCurve: "P-256" }, false, []
+    );
+
+    const sharedSecret = await crypto.subtle.deriveBits(
+      { name: "ECDH", public: ephemeralKey }, this.privateKey, 256
+    );
+    const hkdfKey = await crypto.subtle.importKey("raw", sharedSecret, "HKDF", false, ["deriveKey"]);
+    const aesKey = await crypto.subtle.deriveKey(
+      { name: "HKDF", hash: "SHA-256", salt: epkBytes, info: HKDF_INFO },
+      hkdfKey,
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["decrypt"]
+    );
+
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: Buffer.from(envelope.nonce, "base64"),
+        additionalData: envelopeAad(envelope)
+      },
+      aesKey,
+      Buffer.from(envelope.ciphertext, "base64")
+    );
+
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  }
+}
+
+/**
+ * Reads an embedding payload from IPFS content, opening it first if it is an envelope
+ * and migrating older payload versions
+ * @param payload The JSON content fetched from IPFS
+ * @param keyring Keyring for encrypted payloads; plaintext payloads do not need one
+ */
+export async function readEmbeddingPayload(payload: unknown, keyring: EnvelopeKeyring | null): Promise<EmbeddingPayload> {
+  let content = payload;
+
+  if (isEmbeddingEnvelope(payload)) {
+    if (!keyring) {
+      throw new Error("Encrypted embedding payload but no envelope key is loaded");
+    }
+    content = await keyring.decrypt(payload);
+  }
+
+  return parseEmbeddingPayload(content);
+}
@@ -0,0 +1,100 @@
+import sharp from "sharp";
+import type { InferenceSession, Tensor } from "onnxruntime-web";
+import { readFile } from "fs/promises";
+import { FaceBox } from "./EmbeddingProvider";
+import { DETECTOR_INPUT_SIZE, DETECTOR_MEAN, DETECTOR_STD, DETECTOR_STRIDES, Point, decodeDetections } from "../../../shared/faceDetection";
+
+// Context kept around a face when it is cropped, as a fraction of the box on each side
+const CROP_MARGIN = 0.25;
+
+export interface FaceDetection {
+  box: FaceBox;
+  score: number;
+  // Left eye, right eye, nose tip, left and right mouth corners, in image pixels
+  landmarks: Point[];
+}
+
+/**
+ * Crops a face out of an image with some context around it, for an embedding provider to embed
+ */
+export async function cropFace(image: Buffer, box: FaceBox): Promise<Buffer> {
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+  const left = Math.max(0, Math.floor(box.x - box.width * CROP_MARGIN));
+  const top = Math.max(0, Math.floor(box.y - box.height * CROP_MARGIN));
+  const right = Math.min(width, Math.ceil(box.x + box.width * (1 + CROP_MARGIN)));
+  const bottom = Math.min(height, Math.ceil(box.y + box.height * (1 + CROP_MARGIN)));
+  return sharp(image)
+    .extract({ left, top, width: right - left, height: bottom - top })
+    .jpeg({ quality: 90 })
+    .toBuffer();
+}
+
+/**
+ * SCRFD face detector, the model the frontend uses, run with onnxruntime-web's wasm backend.
+ * Finds every face in an image so each can be embedded and matched on its own.
+ */
+export class FaceDetector {
+  private session: InferenceSession | null = null;
+  private ort: typeof import("onnxruntime-web") | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(private modelPath: string) {}
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        this.ort = await import("onnxruntime-web");
+        const model = await readFile(this.modelPath);
+        this.session = await this.ort.InferenceSession.create(model, { executionProviders: ["wasm"] });
+      })().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Detects the faces in an upright image
+   * @returns Faces in image pixels, highest score first
+   */
+  async detect(image: Buffer): Promise<FaceDetection[]> {
+    await this.load();
+    const ort = this.ort!;
+    const session = this.session!;
+    const size = DETECTOR_INPUT_SIZE;
+
+    const { width = 0, height = 0 } = await sharp(image).metadata();
+    const scale = Math.min(size / width, size / height);
+    const pixels = await sharp(image)
+      .resize(Math.round(width * scale), Math.round(height * scale))
+      .extend({
+        right: size - Math.round(width * scale),
+        bottom: size - Math.round(height * scale),
+        background: { r: 0, g: 0, b: 0 }
+      })
+      .removeAlpha()
+      .raw()
+      .toBuffer();
+
+    const area = size * size;
+    const data = new Float32Array(3 * area);
+    for (let i = 0; i < area; i++) {
+      data[i] = (pixels[i * 3] - DETECTOR_MEAN) / DETECTOR_STD;
+      data[area + i] = (pixels[i * 3 + 1] - DETECTOR_MEAN) / DETECTOR_STD;
+      data[2 * area + i] = (pixels[i * 3 + 2] - DETECTOR_MEAN) / DETECTOR_STD;
+    }
+    const outputs = await session.run({ [session.inputNames[0]]: new ort.Tensor("float32", data, [1, 3, size, size]) });
+
+    // Outputs are ordered scores, boxes, landmarks, each once per stride; see shared/faceDetection.ts
+    const outputAt = (index: number): Float32Array => (outputs[session.outputNames[index]] as Tensor).data as Float32Array;
+    const levels = DETECTOR_STRIDES.map((stride, level) => ({
+      stride,
+      scores: outputAt(level),
+      boxes: outputAt(level + DETECTOR_STRIDES.length),
+      landmarks: outputAt(level + DETECTOR_STRIDES.length * 2)
+    }));
+    // Boxes are clamped to the image, which is cropped around them
+    return decodeDetections(levels, scale, { width, height });
+  }
+}
@@ -0,0 +1,58 @@
+import sharp from "sharp";
+import { createHash } from "crypto";
+import { EmbeddingModelInfo } from "../../../shared/embeddingPayload";
+import { EmbeddingProvider, ImageEmbedding } from "./EmbeddingProvider";
+
+// Preprocessing applied before the image is turned into a vector
+const PREPROCESSING = {
+  orientation: "exif",
+  fit: "cover",
+  size: 16,
+  colourspace: "b-w",
+  centering: "mean"
+};
+
+export const FIXTURE_MODEL: EmbeddingModelInfo = {
+  name: "fixture-thumbnail",
+  dimension: PREPROCESSING.size * PREPROCESSING.size,
+  normalization: "l2",
+  preprocessingHash: createHash("sha256").update(JSON.stringify(PREPROCESSING)).digest("hex")
+};
+
+/**
+ * Offline stand-in for a face model: the embedding is a mean-centered,
+ * L2-normalized grayscale thumbnail of the image.
+ *
+ * It is deterministic (the same image always yields the same vector) and needs
+ * no network, which makes it suitable for tests and local development. It does
+ * not recognize faces and must not be used in production.
+ */
+export class FixtureEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "fixture";
+  readonly model = FIXTURE_MODEL;
+
+  async embed(image: Buffer): Promise<ImageEmbedding> {
+    const { width = 0, height = 0 } = await sharp(image).metadata();
+    const pixels = await sharp(image)
+      .rotate()
+      .resize(PREPROCESSING.size, PREPROCESSING.size, { fit: "cover" })
+      .grayscale()
+      .raw()
+      .toBuffer();
+
+    const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+    const centered = Array.from(pixels, value => value - mean);
+    const magnitude = Math.sqrt(centered.reduce((sum, value) => sum + value * value, 0));
+
+    if (magnitude === 0) {
+      throw new Error("Image has no contrast to embed");
+    }
+
+    return {
+      embedding: centered.map(value => value / magnitude),
+      model: this.model,
+      // No face is detected; the whole image is what was embedded
+      box: { x: 0, y: 0, width, height }
+    };
+  }
+}
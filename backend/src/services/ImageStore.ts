@@ -0,0 +1,292 @@
+import sharp from "sharp";
+import { randomBytes } from "crypto";
+import { lookup } from "dns";
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "fs/promises";
+import { IncomingMessage } from "http";
+import { request } from "https";
+import { BlockList, isIP, LookupFunction } from "net";
+import { join } from "path";
+
+export interface ImageStoreOptions {
+  // Where ingested images are kept
+  directory: string;
+  // Hosts images may be fetched from, each matching itself and its subdomains; "*" allows any public host
+  allowedHosts: string[];
+  // Largest image accepted, in bytes, before it is decoded
+  maxBytes: number;
+  // Largest image accepted, in pixels, once decoded
+  maxPixels: number;
+  // How long ingested images are kept before sweep deletes them, in seconds
+  maxAgeSeconds: number;
+}
+
+// Only https is fetched; data URLs carry the image in the request itself
+const ALLOWED_SCHEMES = ["https:"];
+
+// Redirects followed when fetching an image, each checked like the original URL
+const MAX_REDIRECTS = 3;
+
+const FETCH_TIMEOUT_MS = 10000;
+
+// Formats sharp may decode, recognized by their leading bytes before sharp sees them
+const SIGNATURES: { format: string, matches: (bytes: Buffer) => boolean }[] = [
+  { format: "jpeg", matches: bytes => bytes.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])) },
+  { format: "png", matches: bytes => bytes.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { format: "gif", matches: bytes => ["GIF87a", "GIF89a"].includes(bytes.toString("latin1", 0, 6)) },
+  { format: "webp", matches: bytes => bytes.toString("latin1", 0, 4) === "RIFF" && bytes.toString("latin1", 8, 12) === "WEBP" }
+];
+
+// Addresses an image URL may not point at: loopback, private, link-local, shared, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15],
+  ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], ["::1", 128], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["100::", 64], ["2001:db8::", 32],
+  ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+// Image ids are random hex, so they never name a path outside the store
+const IMAGE_ID = /^[0-9a-f]{32}$/;
+
+/**
+ * An image the store refused, with the HTTP status to report
+ */
+export class ImageRejectedError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "ImageRejectedError";
+  }
+}
+
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+// Resolves a host for a connection and refuses private addresses. The connection goes to the
+// addresses checked here, so a host cannot resolve to a public address for the check and to a
+// private one for the connection.
+const lookupPublic: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, "");
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new ImageRejectedError(403, `Images cannot be fetched from private addresses (${hostname})`), "");
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Ingests images sent for verification and keeps them under opaque ids.
+ *
+ * Images are only fetched over https from the allowed hosts, never from private addresses,
+ * and only up to maxBytes. Whatever arrives is sniffed, decoded and re-encoded as JPEG, so
+ * the store only ever holds well-formed images without their original metadata. Images are
+ * kept for maxAgeSeconds, until the next sweep.
+ */
+export class ImageStore {
+  constructor(private options: ImageStoreOptions) {}
+
+  /**
+   * Ingests an image from an https or data URL
+   * @returns The id to read the image back with
+   * @throws ImageRejectedError If the URL or the image is not acceptable
+   */
+  async ingest(imageUrl: string): Promise<string> {
+    return this.save(await this.load(imageUrl));
+  }
+
+  /**
+   * Loads an image from an https or data URL without storing it
+   * @returns The image re-encoded as JPEG
+   * @throws ImageRejectedError If the URL or the image is not acceptable
+   */
+  async load(imageUrl: string): Promise<Buffer> {
+    const bytes = imageUrl.startsWith("data:") ? this.decodeDataUrl(imageUrl) : await this.download(imageUrl);
+    return this.reencode(bytes);
+  }
+
+  /**
+   * Sniffs and decodes an uploaded image, then re-encodes it as JPEG
+   * @throws ImageRejectedError If the image is not acceptable
+   */
+  async reencode(bytes: Buffer): Promise<Buffer> {
+    if (bytes.length > this.options.maxBytes) {
+      throw new ImageRejectedError(413, `Image is larger than ${this.options.maxBytes} bytes`);
+    }
+    const sniffed = SIGNATURES.find(signature => signature.matches(bytes));
+    if (!sniffed) {
+      throw new ImageRejectedError(415, `Images must be ${SIGNATURES.map(({ format }) => format).join(", ")}`);
+    }
+
+    try {
+      const image = sharp(bytes, { limitInputPixels: this.options.maxPixels, failOn: "error" });
+      const { format } = await image.metadata();
+      if (format !== sniffed.format) {
+        throw new Error(`content is ${format}, not ${sniffed.format}`);
+      }
+      // Applies the EXIF orientation; the output carries no metadata
+      return await image.rotate().jpeg({ quality: 90 }).toBuffer();
+    } catch (error) {
+      throw new ImageRejectedError(422, `Image could not be decoded: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Stores an image re-encoded by load or reencode under a fresh id
+   */
+  async save(image: Buffer): Promise<string> {
+    const imageId = randomBytes(16).toString("hex");
+    await mkdir(this.options.directory, { recursive: true });
+    await writeFile(join(this.options.directory, `${imageId}.jpg`), image);
+    return imageId;
+  }
+
+  /**
+   * Reads an ingested image
+   * @throws ImageRejectedError If there is no image with this id
+   */
+  async read(imageId: string): Promise<Buffer> {
+    if (!IMAGE_ID.test(imageId)) {
+      throw new ImageRejectedError(400, "Invalid image id");
+    }
+    try {
+      return await readFile(join(this.options.directory, `${imageId}.jpg`));
+    } catch {
+      throw new ImageRejectedError(404, "Unknown image id");
+    }
+  }
+
+  /**
+   * Deletes the images stored more than maxAgeSeconds ago
+   * @returns How many images were deleted
+   */
+  async sweep(now = Date.now()): Promise<number> {
+    const files = await readdir(this.options.directory).catch(() => [] as string[]);
+    let deleted = 0;
+    for (const file of files) {
+      if (!IMAGE_ID.test(file.replace(/\.jpg$/, ""))) {
+        continue;
+      }
+      const path = join(this.options.directory, file);
+      const stored = await stat(path).catch(() => null);
+      if (stored && stored.mtimeMs < now - this.options.maxAgeSeconds * 1000) {
+        await rm(path, { force: true });
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  private decodeDataUrl(dataUrl: string): Buffer {
+    const match = /^data:image\/[\w.+-]+;base64,([A-Za-z0-9+/=\s]*)$/.exec(dataUrl);
+    if (!match) {
+      throw new ImageRejectedError(400, "Only base64 image data URLs are accepted");
+    }
+    // Base64 takes 4 characters for every 3 bytes
+    if (match[1].length * 3 / 4 > this.options.maxBytes + 3) {
+      throw new ImageRejectedError(413, `Image is larger than ${this.options.maxBytes} bytes`);
+    }
+    return Buffer.from(match[1], "base64");
+  }
+
+  private async download(imageUrl: string): Promise<Buffer> {
+    let url = this.checkUrl(imageUrl);
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.get(url);
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.destroy();
+        if (redirects === MAX_REDIRECTS) {
+          throw new ImageRejectedError(502, "Too many redirects fetching the image");
+        }
+        url = this.checkUrl(new URL(location, url).href);
+        continue;
+      }
+      if (status < 200 || status >= 300) {
+        response.destroy();
+        throw new ImageRejectedError(502, `Could not fetch the image: HTTP ${status}`);
+      }
+      return this.readCapped(response);
+    }
+  }
+
+  // Requests a URL checked by checkUrl, connecting only to public addresses
+  private get(url: URL): Promise<IncomingMessage> {
+    return new Promise((resolve, reject) => {
+      const fetching = request(url, { lookup: lookupPublic, timeout: FETCH_TIMEOUT_MS }, resolve);
+      fetching.on("timeout", () => fetching.destroy(new Error("timed out")));
+      fetching.on("error", error => reject(error instanceof ImageRejectedError
+        ? error
+        : new ImageRejectedError(502, `Could not fetch the image: ${error.message}`)
+      ));
+      fetching.end();
+    });
+  }
+
+  // Checks the scheme and host of a URL to fetch; its addresses are checked as it is fetched
+  private checkUrl(imageUrl: string): URL {
+    let url: URL;
+    try {
+      url = new URL(imageUrl);
+    } catch {
+      throw new ImageRejectedError(400, "Invalid image URL");
+    }
+    if (!ALLOWED_SCHEMES.includes(url.protocol) || url.username || url.password) {
+      throw new ImageRejectedError(400, `Image URLs must use ${ALLOWED_SCHEMES.join(", ")} without credentials`);
+    }
+
+    const host = url.hostname.replace(/^\[(.*)\]$/, "$1").toLowerCase();
+    const allowed = this.options.allowedHosts.some(allowedHost =>
+      allowedHost === "*" || host === allowedHost || host.endsWith(`.${allowedHost}`)
+    );
+    if (!allowed) {
+      throw new ImageRejectedError(403, `Images cannot be fetched from ${host}`);
+    }
+
+    // Addresses in the URL itself are never looked up, so they are checked here
+    if (isIP(host) && isBlockedAddress(host)) {
+      throw new ImageRejectedError(403, `Images cannot be fetched from private addresses (${host})`);
+    }
+    return url;
+  }
+
+  // Reads a response body, giving up as soon as it exceeds maxBytes
+  private async readCapped(response: IncomingMessage): Promise<Buffer> {
+    const declared = Number(response.headers["content-length"]);
+    if (declared > this.options.maxBytes) {
+      response.destroy();
+      throw new ImageRejectedError(413, `Image is larger than ${this.options.maxBytes} bytes`);
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    try {
+      for await (const chunk of response) {
+        size += chunk.length;
+        if (size > this.options.maxBytes) {
+          throw new ImageRejectedError(413, `Image is larger than ${this.options.maxBytes} bytes`);
+        }
+        chunks.push(chunk);
+      }
+    } catch (error) {
+      response.destroy();
+      throw error instanceof ImageRejectedError
+        ? error
+        : new ImageRejectedError(502, `Could not fetch the image: ${error instanceof Error ? error.message : error}`);
+    }
+    return Buffer.concat(chunks);
+  }
+}
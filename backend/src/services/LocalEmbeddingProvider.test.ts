@@ -0,0 +1,63 @@
+import { describe, expect, test } from "bun:test";
+import { Point } from "../../../shared/faceDetection";
+import { ARCFACE_LANDMARKS, EMBEDDER_PREPROCESSING } from "../../../shared/faceEmbedding";
+import { alignFace } from "./LocalEmbeddingProvider";
+
+const SIZE = EMBEDDER_PREPROCESSING.cropSize;
+const AREA = SIZE * SIZE;
+
+// Packed RGB pixels with each channel given by its function of the pixel position
+function image(width: number, height: number, channel: (x: number, y: number, c: number) => number): Uint8Array {
+  const pixels = new Uint8Array(width * height * 3);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let c = 0; c < 3; c++) {
+        pixels[(y * width + x) * 3 + c] = channel(x, y, c);
+      }
+    }
+  }
+  return pixels;
+}
+
+const normalized = (value: number) => (value - EMBEDDER_PREPROCESSING.embedderMean) / EMBEDDER_PREPROCESSING.embedderStd;
+
+describe("alignFace", () => {
+  test("keeps a face already on the template as it is, in channel-first order", () => {
+    const pixels = image(SIZE, SIZE, (x, y, c) => (x + 2 * y + 50 * c) % 256);
+    const data = alignFace(pixels, SIZE, SIZE, ARCFACE_LANDMARKS);
+
+    for (const [x, y] of [[0, 0], [40, 51], [111, 111]]) {
+      for (let c = 0; c < 3; c++) {
+        expect(data[c * AREA + y * SIZE + x]).toBeCloseTo(normalized(pixels[(y * SIZE + x) * 3 + c]), 4);
+      }
+    }
+  });
+
+  test("scales and moves a face onto the template", () => {
+    // The face is twice the template's size, 20 pixels in from the left
+    const landmarks = ARCFACE_LANDMARKS.map(([x, y]): Point => [2 * x + 20, 2 * y]);
+    const pixels = image(260, 224, (x, y) => (x >= 20 && x < 40 ? 200 : 100) + (y >= 112 ? 10 : 0));
+    const data = alignFace(pixels, 260, 224, landmarks);
+
+    expect(data[20 * SIZE + 4]).toBeCloseTo(normalized(200));
+    expect(data[20 * SIZE + 60]).toBeCloseTo(normalized(100));
+    expect(data[80 * SIZE + 60]).toBeCloseTo(normalized(110));
+    expect(data[AREA + 80 * SIZE + 60]).toBeCloseTo(normalized(110));
+  });
+
+  test("turns an upside-down face upright", () => {
+    const upsideDown = ARCFACE_LANDMARKS.map(([x, y]): Point => [SIZE - x, SIZE - y]);
+    const data = alignFace(image(SIZE, SIZE, x => (x < SIZE / 2 ? 0 : 255)), SIZE, SIZE, upsideDown);
+
+    expect(data[56 * SIZE + 10]).toBeCloseTo(normalized(255));
+    expect(data[56 * SIZE + 100]).toBeCloseTo(normalized(0));
+  });
+
+  test("samples black outside the image", () => {
+    const shifted = ARCFACE_LANDMARKS.map(([x, y]): Point => [x - 60, y]);
+    const data = alignFace(image(SIZE, SIZE, () => 255), SIZE, SIZE, shifted);
+
+    expect(data[56 * SIZE + 10]).toBeCloseTo(normalized(0));
+    expect(data[56 * SIZE + 100]).toBeCloseTo(normalized(255));
+  });
+});
@@ -0,0 +1,116 @@
+import sharp from "sharp";
+import type { InferenceSession, Tensor } from "onnxruntime-web";
+import { readFile } from "fs/promises";
+import { EmbeddingModelSpec, embeddingModelFor } from "../../../shared/embeddingPayload";
+import { Point } from "../../../shared/faceDetection";
+import { EMBEDDER_PREPROCESSING, EMBEDDER_PREPROCESSING_HASH, W600K_MBF_MODEL, embedderModelName, estimateAlignment } from "../../../shared/faceEmbedding";
+import { EmbeddingProvider, ImageEmbedding } from "./EmbeddingProvider";
+import { FaceDetector } from "./FaceDetector";
+
+/**
+ * Warps a face onto the ArcFace template with bilinear sampling, as the frontend's canvas does
+ * @param pixels Packed RGB pixels of the image
+ * @returns The aligned crop as a normalized NCHW RGB tensor buffer
+ */
+export function alignFace(pixels: Uint8Array, width: number, height: number, landmarks: Point[]): Float32Array {
+  const size = EMBEDDER_PREPROCESSING.cropSize;
+  const { embedderMean: mean, embedderStd: std } = EMBEDDER_PREPROCESSING;
+  const [a, b, , , tx, ty] = estimateAlignment(landmarks);
+  const determinant = a * a + b * b;
+
+  const area = size * size;
+  const data = new Float32Array(3 * area);
+  for (let v = 0; v < size; v++) {
+    for (let u = 0; u < size; u++) {
+      // Invert the similarity transform at the crop pixel's center, then sample around the
+      // source point; pixels outside the image are black
+      const du = u + 0.5 - tx;
+      const dv = v + 0.5 - ty;
+      const x = (a * du + b * dv) / determinant - 0.5;
+      const y = (a * dv - b * du) / determinant - 0.5;
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const fx = x - x0;
+      const fy = y - y0;
+
+      const samples = [[x0, y0, (1 - fx) * (1 - fy)], [x0 + 1, y0, fx * (1 - fy)], [x0, y0 + 1, (1 - fx) * fy], [x0 + 1, y0 + 1, fx * fy]]
+        .filter(([sx, sy, weight]) => weight > 0 && sx >= 0 && sy >= 0 && sx < width && sy < height);
+      for (let channel = 0; channel < 3; channel++) {
+        let value = 0;
+        for (const [sx, sy, weight] of samples) {
+          value += pixels[(sy * width + sx) * 3 + channel] * weight;
+        }
+        data[channel * area + v * size + u] = (value - mean) / std;
+      }
+    }
+  }
+  return data;
+}
+
+/**
+ * Embeds faces with the same SCRFD detector and ArcFace-style embedder (w600k_mbf by default)
+ * the frontend runs, so verified images are compared with enrollments from the same model.
+ *
+ * The face is found again in the crop it is given, aligned on its five landmarks and
+ * embedded with onnxruntime-web's wasm backend. Embeddings are L2-normalized.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local";
+  readonly model: EmbeddingModelSpec;
+
+  private session: InferenceSession | null = null;
+  private ort: typeof import("onnxruntime-web") | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(private detector: FaceDetector, private modelPath: string) {
+    const name = embedderModelName(modelPath);
+    this.model = name === W600K_MBF_MODEL.name
+      ? W600K_MBF_MODEL
+      : { name, normalization: "l2", preprocessingHash: EMBEDDER_PREPROCESSING_HASH };
+  }
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        this.ort = await import("onnxruntime-web");
+        const model = await readFile(this.modelPath);
+        this.session = await this.ort.InferenceSession.create(model, { executionProviders: ["wasm"] });
+      })().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  async embed(image: Buffer): Promise<ImageEmbedding> {
+    await this.load();
+    const ort = this.ort!;
+    const session = this.session!;
+
+    const faces = await this.detector.detect(image);
+    if (faces.length === 0) {
+      throw new Error("No face detected");
+    }
+    // Use the largest face in the crop
+    const [face] = faces.sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height);
+
+    const { data: pixels, info } = await sharp(image)
+      .removeAlpha()
+      .toColourspace("srgb")
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    const size = EMBEDDER_PREPROCESSING.cropSize;
+    const input = new ort.Tensor("float32", alignFace(pixels, info.width, info.height, face.landmarks), [1, 3, size, size]);
+    const outputs = await session.run({ [session.inputNames[0]]: input });
+    const raw = (outputs[session.outputNames[0]] as Tensor).data as Float32Array;
+
+    const magnitude = Math.sqrt(raw.reduce((sum, value) => sum + value * value, 0));
+    if (magnitude === 0) {
+      throw new Error("Face embedding model returned a zero vector");
+    }
+
+    const embedding = Array.from(raw, value => value / magnitude);
+    return { embedding, model: embeddingModelFor(this.model, embedding.length), box: face.box };
+  }
+}
@@ -0,0 +1,40 @@
+import { ethers } from "ethers";
+
+/**
+ * Hands out the nonces of the backend's transaction signer, so concurrent senders never race on one.
+ *
+ * Sends run one at a time and each holds the next nonce until its transaction is broadcast. The
+ * first send, and the first after reset(), reads the signer's pending transaction count from the node.
+ */
+export class NonceManager {
+  private nextNonce: number | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly signer: ethers.Wallet) {}
+
+  get address(): string {
+    return this.signer.address;
+  }
+
+  /**
+   * Broadcasts a transaction with the next nonce
+   * @param send Sends the transaction at the given nonce; the nonce is only used up if it resolves
+   */
+  send<T>(send: (nonce: number) => Promise<T>): Promise<T> {
+    const sent = this.queue.then(async () => {
+      this.nextNonce ??= await this.signer.getNonce("pending");
+      const result = await send(this.nextNonce);
+      this.nextNonce++;
+      return result;
+    });
+    this.queue = sent.catch(() => undefined);
+    return sent;
+  }
+
+  /**
+   * Forgets the tracked nonce, e.g. after the node rejected it; the next send reads it again
+   */
+  reset(): void {
+    this.nextNonce = null;
+  }
+}
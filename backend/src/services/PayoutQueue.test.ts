@@ -0,0 +1,227 @@
+import { describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { NonceManager } from "./NonceManager";
+import { PayoutQueue } from "./PayoutQueue";
+import { PayoutJob, RegistryStore } from "./RegistryStore";
+
+const CONTRACT_ADDRESS = "0x00000000000000000000000000000000000000c0";
+const WALLET = "0x00000000000000000000000000000000000000a1";
+const GAS_LIMIT = 90000n;
+
+// A chain the queue talks to through its provider: records broadcasts and answers from its state
+class FakeChain {
+  // Transactions the signer has mined
+  minedNonces = 0;
+  receipts = new Map<string, { hash: string, status: number, blockNumber: number }>();
+  broadcasts: ethers.Transaction[] = [];
+  paid = false;
+  // What the next broadcast does instead of accepting the transaction
+  nextBroadcastError: Error | null = null;
+  // Called with each broadcast before it is accepted
+  onBroadcast: (transaction: ethers.Transaction) => void = () => {};
+
+  provider = {
+    getNetwork: async () => new ethers.Network("test", 31337n),
+    getFeeData: async () => new ethers.FeeData(null, 2000n, 100n),
+    getTransactionCount: async (_address: string, blockTag: string) =>
+      blockTag === "pending" ? this.minedNonces + this.broadcasts.length : this.minedNonces,
+    getTransactionReceipt: async (hash: string) => this.receipts.get(hash) ?? null,
+    broadcastTransaction: async (signed: string) => {
+      const transaction = ethers.Transaction.from(signed);
+      this.onBroadcast(transaction);
+      const error = this.nextBroadcastError;
+      this.nextBroadcastError = null;
+      if (error) {
+        throw error;
+      }
+      this.broadcasts.push(transaction);
+      return transaction;
+    }
+  };
+
+  mine(transaction: ethers.Transaction, status = 1): void {
+    this.minedNonces = transaction.nonce + 1;
+    this.receipts.set(transaction.hash!, { hash: transaction.hash!, status, blockNumber: 10 });
+  }
+}
+
+function setup(simulate: () => Promise<void> = async () => {}) {
+  const chain = new FakeChain();
+  const signer = new ethers.Wallet(ethers.id("payout signer"), chain.provider as unknown as ethers.Provider);
+  const contract = {
+    interface: new ethers.Interface(["function releasePayment(uint256 campaignId, address wallet)"]),
+    getFunction: () => ({ staticCall: simulate, estimateGas: async () => GAS_LIMIT }),
+    releasePayment: {
+      populateTransaction: async (campaignId: number, wallet: string) => ({
+        to: CONTRACT_ADDRESS,
+        data: new ethers.Interface(["function releasePayment(uint256, address)"]).encodeFunctionData("releasePayment", [campaignId, wallet])
+      })
+    },
+    isPaid: async () => chain.paid
+  } as unknown as ethers.Contract;
+  const store = new RegistryStore(":memory:");
+  const queue = new PayoutQueue(contract, new NonceManager(signer), store, { stuckAfterSeconds: 60, maxFeeBumps: 2, maxAttempts: 2 });
+  return { chain, store, queue };
+}
+
+// Queues a job directly in the store, as enqueue would
+function queueJob(store: RegistryStore, campaignId = 1): PayoutJob {
+  return store.enqueuePayoutJob(campaignId, WALLET, Math.floor(Date.now() / 1000));
+}
+
+describe("PayoutQueue.enqueue", () => {
+  test("queues one job per wallet and campaign, authorizing only the first", async () => {
+    const { store, queue } = setup();
+    let authorized = 0;
+    const authorize = () => ++authorized > 0;
+
+    const first = queue.enqueue(1, WALLET, authorize);
+    const second = queue.enqueue(1, WALLET, authorize);
+    await queue.process();
+
+    expect(first?.duplicate).toBe(false);
+    expect(second?.duplicate).toBe(true);
+    expect(second?.job.id).toBe(first!.job.id);
+    expect(authorized).toBe(1);
+    expect(store.listPayoutJobs("submitted")).toHaveLength(1);
+  });
+
+  test("queues nothing when authorization is refused", () => {
+    const { store, queue } = setup();
+
+    expect(queue.enqueue(1, WALLET, () => false)).toBeNull();
+    expect(store.getPayoutJobFor(1, WALLET)).toBeNull();
+  });
+});
+
+describe("PayoutQueue.process", () => {
+  test("records the nonce and hash of a payout before broadcasting it", async () => {
+    const { chain, store, queue } = setup();
+    const job = queueJob(store);
+    let recorded: PayoutJob | null = null;
+    chain.onBroadcast = () => { recorded = store.getPayoutJob(job.id); };
+
+    await queue.process();
+
+    const [transaction] = chain.broadcasts;
+    expect(transaction.nonce).toBe(0);
+    expect(transaction.gasLimit).toBe(GAS_LIMIT);
+    expect(recorded!.status).toBe("submitted");
+    expect(recorded!.nonce).toBe(0);
+    expect(recorded!.transactionHash).toBe(transaction.hash);
+    expect(store.getPayoutJob(job.id)!.transactionHashes).toEqual([transaction.hash!]);
+  });
+
+  test("requeues a payout the node refused and reuses its nonce", async () => {
+    const { chain, store, queue } = setup();
+    const job = queueJob(store);
+    chain.nextBroadcastError = new Error("rejected");
+
+    await queue.process();
+    const refused = store.getPayoutJob(job.id)!;
+    expect(refused.status).toBe("queued");
+    expect(refused.nonce).toBeNull();
+    expect(refused.transactionHashes).toEqual([]);
+    expect(refused.attempts).toBe(1);
+
+    await queue.process();
+    expect(store.getPayoutJob(job.id)!.status).toBe("submitted");
+    expect(chain.broadcasts[0].nonce).toBe(0);
+  });
+
+  test("fails a payout after maxAttempts refused sends", async () => {
+    const { chain, store, queue } = setup();
+    const job = queueJob(store);
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      chain.nextBroadcastError = new Error("rejected");
+      await queue.process();
+    }
+    expect(store.getPayoutJob(job.id)!.status).toBe("failed");
+  });
+
+  test("keeps following a payout whose broadcast timed out", async () => {
+    const { chain, store, queue } = setup();
+    const job = queueJob(store);
+    chain.nextBroadcastError = ethers.makeError("timeout", "TIMEOUT", { operation: "broadcastTransaction", reason: "timeout" });
+
+    await queue.process();
+    const sent = store.getPayoutJob(job.id)!;
+    expect(sent.status).toBe("submitted");
+    expect(sent.nonce).toBe(0);
+    expect(sent.attempts).toBe(0);
+  });
+
+  test("fails a payout the contract refuses without sending it", async () => {
+    const { chain, store, queue } = setup(async () => {
+      throw ethers.makeError("reverted", "CALL_EXCEPTION", { action: "call", data: null, reason: "Payment already sent", invocation: null, revert: null, transaction: { to: CONTRACT_ADDRESS, data: "0x" }, receipt: undefined });
+    });
+    const job = queueJob(store);
+
+    await queue.process();
+    const failed = store.getPayoutJob(job.id)!;
+    expect(failed.status).toBe("failed");
+    expect(failed.errorCode).toBe("PAYMENT_ALREADY_SENT");
+    expect(chain.broadcasts).toHaveLength(0);
+  });
+
+  test("confirms a payout once it is mined", async () => {
+    const { chain, store, queue } = setup();
+    const job = queueJob(store);
+    await queue.process();
+    chain.mine(chain.broadcasts[0]);
+
+    await queue.process();
+    const confirmed = store.getPayoutJob(job.id)!;
+    expect(confirmed.status).toBe("confirmed");
+    expect(confirmed.blockNumber).toBe(10);
+  });
+
+  test("replaces a stuck payout at the same nonce with higher fees", async () => {
+    const { chain, store, queue } = setup();
+    const job = queueJob(store);
+    await queue.process();
+    store.updatePayoutJob({ ...store.getPayoutJob(job.id)!, submittedAt: Math.floor(Date.now() / 1000) - 120 });
+    let recorded: PayoutJob | null = null;
+    chain.onBroadcast = () => { recorded = store.getPayoutJob(job.id); };
+
+    await queue.process();
+
+    const [original, replacement] = chain.broadcasts;
+    expect(replacement.nonce).toBe(original.nonce);
+    expect(replacement.maxFeePerGas! > original.maxFeePerGas!).toBe(true);
+    expect(replacement.maxPriorityFeePerGas! > original.maxPriorityFeePerGas!).toBe(true);
+    expect(recorded!.transactionHashes).toEqual([original.hash!, replacement.hash!]);
+
+    // Either transaction confirms the job
+    chain.mine(original);
+    await queue.process();
+    expect(store.getPayoutJob(job.id)!.status).toBe("confirmed");
+  });
+
+  test("sends a payout again when another transaction took its nonce", async () => {
+    const { chain, store, queue } = setup();
+    const job = queueJob(store);
+    await queue.process();
+    chain.minedNonces = 1;
+    chain.broadcasts = [];
+
+    // Requeued and sent again in the same run
+    await queue.process();
+    const resent = store.getPayoutJob(job.id)!;
+    expect(resent.status).toBe("submitted");
+    expect(resent.nonce).toBe(1);
+    expect(resent.transactionHashes).toEqual([chain.broadcasts[0].hash!]);
+  });
+
+  test("confirms a payout whose nonce was used if the wallet was paid anyway", async () => {
+    const { chain, store, queue } = setup();
+    const job = queueJob(store);
+    await queue.process();
+    chain.minedNonces = 1;
+    chain.paid = true;
+
+    await queue.process();
+    expect(store.getPayoutJob(job.id)!.status).toBe("confirmed");
+  });
+});
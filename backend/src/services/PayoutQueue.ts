@@ -0,0 +1,267 @@
+import { ethers } from "ethers";
+import { NonceManager } from "./NonceManager";
+import { PayoutFees, PayoutJob, RegistryStore } from "./RegistryStore";
+import { decodeContractError, simulateContractCall } from "../../../shared/contractCalls";
+
+export interface PayoutQueueOptions {
+  // Seconds a transaction may go unmined before it is replaced with higher fees
+  stuckAfterSeconds: number;
+  // Fee replacements per job; after that its last transaction is left to mine
+  maxFeeBumps: number;
+  // Failed send attempts before a job is given up
+  maxAttempts: number;
+}
+
+// Replacements must raise fees by at least 10% to be accepted by nodes
+const FEE_BUMP_NUMERATOR = 9n;
+const FEE_BUMP_DENOMINATOR = 8n;
+
+function currentFees(feeData: ethers.FeeData): PayoutFees {
+  if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+    return {
+      maxFeePerGas: feeData.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: feeData.maxPriorityFeePerGas.toString()
+    };
+  }
+  return { gasPrice: (feeData.gasPrice ?? 0n).toString() };
+}
+
+// Raises each fee of a stuck transaction by 12.5%, or to the network's current fee if that is higher
+function bumpFees(previous: PayoutFees, current: PayoutFees): PayoutFees {
+  const bumped: PayoutFees = {};
+  for (const key of Object.keys(previous) as (keyof PayoutFees)[]) {
+    const raised = BigInt(previous[key]!) * FEE_BUMP_NUMERATOR / FEE_BUMP_DENOMINATOR + 1n;
+    const network = BigInt(current[key] ?? 0);
+    bumped[key] = (raised > network ? raised : network).toString();
+  }
+  return bumped;
+}
+
+function feeOverrides(fees: PayoutFees): Partial<Record<keyof PayoutFees, bigint>> {
+  return Object.fromEntries(Object.entries(fees).map(([key, value]) => [key, BigInt(value)]));
+}
+
+/**
+ * Sends the contract's releasePayment for queued payout jobs, one job per wallet and campaign.
+ *
+ * Jobs live in the RegistryStore, so they survive a restart, and a single worker sends them
+ * through the NonceManager. Each transaction is signed and recorded on its job before it is
+ * broadcast, so a crash mid-send leaves the job submitted under the nonce and hash it may have
+ * gone out with. A transaction left unmined for stuckAfterSeconds is replaced at the same nonce
+ * with bumped fees; if another transaction took its nonce, the job is sent again.
+ */
+export class PayoutQueue {
+  private processing: Promise<void> | null = null;
+  private processAgain = false;
+
+  constructor(
+    private contract: ethers.Contract,
+    private nonces: NonceManager,
+    private store: RegistryStore,
+    private options: PayoutQueueOptions
+  ) {}
+
+  /**
+   * Queues a payout unless the wallet already has one for the campaign, and starts sending it
+   * @param authorize Runs in the same store transaction, only when a new job would be queued;
+   * returning false queues nothing. Concurrent requests for a wallet thus authorize one job.
+   * @returns The wallet's job and whether it already existed, or null if authorize refused
+   */
+  enqueue(campaignId: number, wallet: string, authorize: () => boolean): { job: PayoutJob, duplicate: boolean } | null {
+    const queued = this.store.transaction(() => {
+      const existing = this.store.getPayoutJobFor(campaignId, wallet);
+      if (existing && existing.status !== "failed") {
+        return { job: existing, duplicate: true };
+      }
+      if (!authorize()) {
+        return null;
+      }
+      return { job: this.store.enqueuePayoutJob(campaignId, wallet, Math.floor(Date.now() / 1000)), duplicate: false };
+    });
+    if (queued && !queued.duplicate) {
+      this.process();
+    }
+    return queued;
+  }
+
+  /**
+   * Sends queued jobs and follows up on submitted ones. Concurrent callers share the in-flight run.
+   */
+  process(): Promise<void> {
+    if (this.processing) {
+      // Jobs queued during a run are sent by another run right after it
+      this.processAgain = true;
+      return this.processing;
+    }
+    this.processing = this.processJobs()
+      .catch(error => console.error("Error processing payout queue:", error))
+      .finally(() => {
+        this.processing = null;
+        if (this.processAgain) {
+          this.processAgain = false;
+          this.process();
+        }
+      });
+    return this.processing;
+  }
+
+  private get provider(): ethers.Provider {
+    return this.nonces.signer.provider!;
+  }
+
+  private async processJobs(): Promise<void> {
+    for (const job of this.store.listPayoutJobs("submitted")) {
+      await this.checkSubmitted(job);
+    }
+    for (const job of this.store.listPayoutJobs("queued")) {
+      await this.send(job);
+    }
+  }
+
+  private save(job: PayoutJob): void {
+    job.updatedAt = Math.floor(Date.now() / 1000);
+    this.store.updatePayoutJob(job);
+  }
+
+  // Signs a transaction without sending it
+  private async sign(transaction: ethers.TransactionRequest): Promise<{ signed: string, hash: string }> {
+    const signer = this.nonces.signer;
+    const signed = await signer.signTransaction(await signer.populateTransaction(transaction));
+    return { signed, hash: ethers.keccak256(signed) };
+  }
+
+  // Broadcasts a signed transaction. One that timed out may still have reached the node, so it
+  // is left to be followed up like any submitted transaction.
+  private async broadcast(signed: string): Promise<void> {
+    try {
+      await this.provider.broadcastTransaction(signed);
+    } catch (error) {
+      if (ethers.isError(error, "TIMEOUT") || ethers.isError(error, "NETWORK_ERROR")) {
+        console.warn("Broadcast may not have reached the node; following the transaction up as submitted:", error.message);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async findReceipt(job: PayoutJob): Promise<ethers.TransactionReceipt | null> {
+    for (const hash of job.transactionHashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return null;
+  }
+
+  private async checkSubmitted(job: PayoutJob): Promise<void> {
+    let receipt = await this.findReceipt(job);
+    if (!receipt && await this.provider.getTransactionCount(this.nonces.address, "latest") > job.nonce!) {
+      // The nonce is used; unless one of the job's transactions was mined in the meantime, it was another one
+      receipt = await this.findReceipt(job);
+      if (!receipt && await this.contract.isPaid(job.campaignId, job.wallet)) {
+        // Paid all the same, e.g. by a replacement the node no longer reports by hash, or by a claim
+        Object.assign(job, { status: "confirmed", transactionHash: null, error: null, errorCode: null });
+        this.save(job);
+        console.log(`Payout job ${job.id} confirmed without a receipt: the wallet has been paid`);
+        return;
+      }
+      if (!receipt) {
+        console.warn(`Nonce ${job.nonce} of payout job ${job.id} was used by another transaction; sending it again`);
+        Object.assign(job, { status: "queued", nonce: null, transactionHash: null, transactionHashes: [], fees: null });
+        this.save(job);
+        return;
+      }
+    }
+
+    if (receipt) {
+      job.status = receipt.status === 1 ? "confirmed" : "failed";
+      job.transactionHash = receipt.hash;
+      job.blockNumber = receipt.blockNumber;
+      job.error = receipt.status === 1 ? null : "Transaction reverted";
+      job.errorCode = receipt.status === 1 ? null : "REVERTED";
+      this.save(job);
+      console.log(`Payout job ${job.id} ${job.status} in block ${receipt.blockNumber}: ${receipt.hash}`);
+      return;
+    }
+
+    const waited = Math.floor(Date.now() / 1000) - job.submittedAt!;
+    if (waited >= this.options.stuckAfterSeconds && job.transactionHashes.length <= this.options.maxFeeBumps) {
+      await this.replace(job);
+    }
+  }
+
+  // Resends a stuck job's transaction at the same nonce with higher fees
+  private async replace(job: PayoutJob): Promise<void> {
+    const fees = bumpFees(job.fees!, currentFees(await this.provider.getFeeData()));
+    try {
+      const request = await this.contract.releasePayment.populateTransaction(job.campaignId, job.wallet);
+      const { signed, hash } = await this.sign({
+        ...request,
+        nonce: job.nonce!,
+        gasLimit: BigInt(job.gasLimit!),
+        ...feeOverrides(fees)
+      });
+      job.transactionHash = hash;
+      job.transactionHashes.push(hash);
+      job.fees = fees;
+      job.submittedAt = Math.floor(Date.now() / 1000);
+      this.save(job);
+      await this.broadcast(signed);
+      console.log(`Replaced stuck payout job ${job.id} at nonce ${job.nonce} with higher fees: ${hash}`);
+    } catch (error) {
+      // A mined nonce shows up as a receipt or a used nonce on the next run
+      console.error(`Error replacing payout job ${job.id}:`, decodeContractError(error).message);
+    }
+  }
+
+  private async send(job: PayoutJob): Promise<void> {
+    try {
+      // A payout the contract would refuse fails here, without spending gas
+      const gasLimit = await simulateContractCall(this.contract, "releasePayment", [job.campaignId, job.wallet]);
+      const request = await this.contract.releasePayment.populateTransaction(job.campaignId, job.wallet);
+      const fees = currentFees(await this.provider.getFeeData());
+
+      await this.nonces.send(async nonce => {
+        const { signed, hash } = await this.sign({ ...request, nonce, gasLimit, ...feeOverrides(fees) });
+        Object.assign(job, {
+          status: "submitted",
+          nonce,
+          transactionHash: hash,
+          transactionHashes: [hash],
+          fees,
+          gasLimit: gasLimit.toString(),
+          error: null,
+          errorCode: null,
+          submittedAt: Math.floor(Date.now() / 1000)
+        });
+        this.save(job);
+        try {
+          await this.broadcast(signed);
+        } catch (error) {
+          // The node refused it, so the nonce is still free
+          Object.assign(job, { status: "queued", nonce: null, transactionHash: null, transactionHashes: [], fees: null, gasLimit: null, submittedAt: null });
+          throw error;
+        }
+      });
+      console.log(`Sent payout job ${job.id} from campaign ${job.campaignId} to ${job.wallet} at nonce ${job.nonce}: ${job.transactionHash}`);
+    } catch (error) {
+      const failure = decodeContractError(error, this.contract.interface);
+      job.error = failure.message;
+      job.errorCode = failure.code;
+      if (failure.reverted) {
+        job.status = "failed";
+      } else {
+        if (ethers.isError(error, "NONCE_EXPIRED") || ethers.isError(error, "REPLACEMENT_UNDERPRICED")) {
+          this.nonces.reset();
+        }
+        job.attempts++;
+        if (job.attempts >= this.options.maxAttempts) {
+          job.status = "failed";
+        }
+      }
+      console.error(`Error sending payout job ${job.id} (${job.status}):`, job.error);
+    }
+    this.save(job);
+  }
+}
@@ -0,0 +1,57 @@
+// Buckets are dropped once refilled, when the limiter holds more than this many
+const PRUNE_THRESHOLD = 10000;
+
+interface Bucket {
+  tokens: number;
+  limit: number;
+  updatedAt: number;
+}
+
+/**
+ * In-memory token buckets, one per client key (an IP address or an API key).
+ *
+ * A client with a limit of n requests per minute can burst up to n requests and then
+ * regains one every 60/n seconds. Limits reset when the server restarts.
+ */
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private windowMs = 60_000) {}
+
+  /**
+   * Takes one request from a client's bucket
+   * @param key The client
+   * @param limit Requests allowed per window
+   * @returns 0 if the request is allowed, otherwise the seconds until it would be
+   */
+  take(key: string, limit: number, now = Date.now()): number {
+    const bucket = this.buckets.get(key) ?? { tokens: limit, limit, updatedAt: now };
+    bucket.limit = limit;
+    bucket.tokens = this.refilled(bucket, now);
+    bucket.updatedAt = now;
+
+    if (this.buckets.size >= PRUNE_THRESHOLD) {
+      this.prune(now);
+    }
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens < 1) {
+      return Math.ceil((1 - bucket.tokens) * this.windowMs / limit / 1000);
+    }
+    bucket.tokens -= 1;
+    return 0;
+  }
+
+  private refilled(bucket: Bucket, now: number): number {
+    return Math.min(bucket.limit, bucket.tokens + (now - bucket.updatedAt) * bucket.limit / this.windowMs);
+  }
+
+  // Drops the buckets that are full again, as if their clients had never been seen
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (this.refilled(bucket, now) >= bucket.limit) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { afterAll, describe, expect, test } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { RegistrationRecord, RegistryStore } from "./RegistryStore";
+
+const directory = await mkdtemp(join(tmpdir(), "registry-"));
+afterAll(() => rm(directory, { recursive: true, force: true }));
+
+const WALLET = "0x00000000000000000000000000000000000000Aa";
+
+function registration(blockNumber: number, ipfsHash: string): RegistrationRecord {
+  return {
+    wallet: WALLET,
+    faceHash: "0x" + "11".repeat(32),
+    publicKey: "0x" + "22".repeat(33),
+    ipfsHash,
+    timestamp: 1_700_000_000 + blockNumber,
+    blockNumber,
+    transactionHash: "0x" + blockNumber.toString(16).padStart(64, "0"),
+    logIndex: 0
+  };
+}
+
+describe("RegistryStore registrations", () => {
+  test("keeps an ended registration when the wallet registers again", () => {
+    const store = new RegistryStore(":memory:");
+    store.upsertRegistration(registration(100, "QmFirst"));
+    store.endRegistration(WALLET, 110);
+    store.upsertRegistration(registration(120, "QmSecond"));
+
+    expect(store.getRegistration(WALLET)?.ipfsHash).toBe("QmSecond");
+    expect(store.countRegistrations()).toBe(1);
+
+    // Rewinding past the second registration leaves the wallet deregistered, and past the
+    // deregistration brings the first one back
+    store.rewindTo(115);
+    expect(store.getRegistration(WALLET)).toBeNull();
+    store.rewindTo(105);
+    expect(store.getRegistration(WALLET)?.ipfsHash).toBe("QmFirst");
+  });
+
+  test("ignores a replayed registration", () => {
+    const store = new RegistryStore(":memory:");
+    store.upsertRegistration(registration(100, "QmFirst"));
+    store.endRegistration(WALLET, 110);
+    store.upsertRegistration(registration(100, "QmFirst"));
+
+    expect(store.getRegistration(WALLET)).toBeNull();
+    expect(store.listWalletKeys()).toEqual(new Set([WALLET.toLowerCase()]));
+  });
+
+  test("replaces the live registration with a newer one", () => {
+    const store = new RegistryStore(":memory:");
+    store.upsertRegistration(registration(100, "QmFirst"));
+    store.upsertRegistration(registration(120, "QmSecond"));
+
+    expect(store.listRegistrations().map(record => record.ipfsHash)).toEqual(["QmSecond"]);
+  });
+
+  test("rebuilds registrations keyed by wallet alone from the chain", () => {
+    const path = join(directory, "legacy.sqlite");
+    const legacy = new Database(path, { create: true });
+    legacy.exec(`
+      CREATE TABLE registrations (wallet_key TEXT PRIMARY KEY, wallet TEXT NOT NULL, face_hash TEXT NOT NULL,
+        public_key TEXT NOT NULL, ipfs_hash TEXT NOT NULL, timestamp INTEGER NOT NULL, block_number INTEGER NOT NULL,
+        tx_hash TEXT NOT NULL, log_index INTEGER NOT NULL);
+      CREATE TABLE indexed_blocks (number INTEGER PRIMARY KEY, hash TEXT NOT NULL);
+      INSERT INTO indexed_blocks VALUES (120, '0xabc');
+    `);
+    legacy.close();
+
+    const store = new RegistryStore(path);
+    expect(store.getCursor()).toBeNull();
+    store.upsertRegistration(registration(100, "QmFirst"));
+    store.endRegistration(WALLET, 110);
+    store.upsertRegistration(registration(120, "QmSecond"));
+    expect(store.getRegistration(WALLET)?.ipfsHash).toBe("QmSecond");
+  });
+});
@@ -0,0 +1,1100 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "fs";
+import { dirname } from "path";
+import { EmbeddingModelInfo } from "../../../shared/embeddingPayload";
+import { ContractErrorCode } from "../../../shared/contractCalls";
+
+// A Registered event as stored by the indexer
+export interface RegistrationRecord {
+  wallet: string;
+  faceHash: string;
+  publicKey: string;
+  ipfsHash: string;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+// A PaymentSent event as stored by the indexer
+export interface PaymentRecord {
+  wallet: string;
+  campaignId: number;
+  // ERC-20 token paid; the zero address for ETH
+  token: string;
+  amount: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+// A CampaignCreated event as stored by the indexer
+export interface CampaignRecord {
+  id: number;
+  amount: string;
+  // ERC-20 token paid out; the zero address for ETH
+  token: string;
+  startsAt: number;
+  endsAt: number;
+  budget: string;
+  blockNumber: number;
+}
+
+// A claim root published on-chain for a campaign
+export interface ClaimRootRecord {
+  campaignId: number;
+  root: string;
+  // Claim entries up to this id are in the tree
+  lastEntryId: number;
+  transactionHash: string;
+  publishedAt: number;
+}
+
+export type PayoutJobStatus = "queued" | "submitted" | "confirmed" | "failed";
+
+// Fees of a payout transaction as decimal strings: EIP-1559 fees, or a legacy gas price
+export interface PayoutFees {
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+}
+
+// A releasePayment transaction the payout queue sends for one wallet and campaign
+export interface PayoutJob {
+  id: number;
+  campaignId: number;
+  wallet: string;
+  status: PayoutJobStatus;
+  // Nonce of the submitted transaction; fee replacements reuse it
+  nonce: number | null;
+  // The latest transaction sent, or the one mined once confirmed
+  transactionHash: string | null;
+  // Every transaction sent at the current nonce; any of them may be the one mined
+  transactionHashes: string[];
+  fees: PayoutFees | null;
+  gasLimit: string | null;
+  blockNumber: number | null;
+  // Failed attempts to send the job
+  attempts: number;
+  error: string | null;
+  errorCode: ContractErrorCode | null;
+  createdAt: number;
+  // When the latest transaction was sent
+  submittedAt: number | null;
+  updatedAt: number;
+}
+
+// A normalized embedding cached from a pinned payload
+export interface CachedEmbedding {
+  vector: Float32Array;
+  model: EmbeddingModelInfo;
+}
+
+// A uniqueness check too close to call, queued for manual review
+export interface ReviewCase {
+  wallet: string | null;
+  ipfsHash: string | null;
+  embeddingHash: string;
+  model: EmbeddingModelInfo;
+  matches: { address: string, similarity: number }[];
+  createdAt: number;
+}
+
+// How a reviewer settled a case: "approved" lets the reviewed capture register as unique
+export type ReviewStatus = "open" | "approved" | "rejected";
+
+export interface ReviewCaseRecord extends ReviewCase {
+  id: number;
+  status: ReviewStatus;
+  resolvedAt: number | null;
+}
+
+// A deregistration whose face data must be erased
+export interface ErasureRecord {
+  wallet: string;
+  ipfsHash: string;
+  blockNumber: number;
+  // When the pin and cached data were removed; null while pending
+  erasedAt: number | null;
+}
+
+// Position of a registration in index order, used to page through registrants
+export interface RegistrationPosition {
+  blockNumber: number;
+  logIndex: number;
+}
+
+// A registration with the campaigns that have paid its wallet
+export interface RegistrantRecord extends RegistrationRecord {
+  paidCampaigns: number[];
+}
+
+// What an API key may call: "verify" for face verification, "pay" for payouts
+export type ApiScope = "verify" | "pay";
+
+// A key an integrating dApp signs its requests with
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  // HMAC secret; the server needs it to check signatures, so it is stored as is
+  secret: string;
+  scopes: ApiScope[];
+  // Requests allowed per minute
+  rateLimit: number;
+  createdAt: number;
+  revokedAt: number | null;
+}
+
+// A face match /api/verify-face vouched for, which one payout to the matched wallet may spend
+export interface VerificationTokenRecord {
+  // SHA-256 of the token; only the client holds the token itself
+  tokenHash: string;
+  wallet: string;
+  similarity: number;
+  // The API key the face was verified with, the only one that may spend the token
+  apiKeyId: string;
+  createdAt: number;
+  expiresAt: number;
+  usedAt: number | null;
+}
+
+// Last block the indexer has fully processed
+export interface IndexerCursor {
+  blockNumber: number;
+  blockHash: string;
+}
+
+interface RegistrationRow {
+  wallet: string;
+  face_hash: string;
+  public_key: string;
+  ipfs_hash: string;
+  timestamp: number;
+  block_number: number;
+  tx_hash: string;
+  log_index: number;
+}
+
+interface ErasureRow {
+  wallet: string;
+  ipfs_hash: string;
+  block_number: number;
+  erased_at: number | null;
+}
+
+interface PaymentRow {
+  wallet: string;
+  campaign_id: number;
+  token: string;
+  amount: string;
+  block_number: number;
+  tx_hash: string;
+  log_index: number;
+}
+
+interface ClaimRootRow {
+  campaign_id: number;
+  root: string;
+  last_entry_id: number;
+  tx_hash: string;
+  published_at: number;
+}
+
+interface PayoutJobRow {
+  id: number;
+  campaign_id: number;
+  wallet: string;
+  status: PayoutJobStatus;
+  nonce: number | null;
+  tx_hash: string | null;
+  tx_hashes: string;
+  fees: string | null;
+  gas_limit: string | null;
+  block_number: number | null;
+  attempts: number;
+  error: string | null;
+  error_code: ContractErrorCode | null;
+  created_at: number;
+  submitted_at: number | null;
+  updated_at: number;
+}
+
+interface ApiKeyRow {
+  id: string;
+  name: string;
+  secret: string;
+  scopes: string;
+  rate_limit: number;
+  created_at: number;
+  revoked_at: number | null;
+}
+
+interface ReviewCaseRow {
+  id: number;
+  wallet: string | null;
+  ipfs_hash: string | null;
+  embedding_hash: string;
+  model: string;
+  matches: string;
+  created_at: number;
+  status: string;
+  resolved_at: number | null;
+}
+
+interface VerificationTokenRow {
+  token_hash: string;
+  wallet: string;
+  similarity: number;
+  api_key_id: string;
+  created_at: number;
+  expires_at: number;
+  used_at: number | null;
+}
+
+interface CampaignRow {
+  id: number;
+  amount: string;
+  token: string;
+  starts_at: number;
+  ends_at: number;
+  budget: string;
+  block_number: number;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS registrations (
+    wallet_key TEXT NOT NULL,
+    wallet TEXT NOT NULL,
+    face_hash TEXT NOT NULL,
+    public_key TEXT NOT NULL,
+    ipfs_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    ended_block INTEGER,
+    PRIMARY KEY (wallet_key, block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS registrations_block ON registrations (block_number);
+  -- A wallet holds at most one registration at a time; ended ones are kept as its history
+  CREATE UNIQUE INDEX IF NOT EXISTS registrations_live ON registrations (wallet_key) WHERE ended_block IS NULL;
+
+  CREATE TABLE IF NOT EXISTS payments (
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    wallet_key TEXT NOT NULL,
+    wallet TEXT NOT NULL,
+    campaign_id INTEGER NOT NULL,
+    token TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS payments_wallet ON payments (wallet_key);
+  CREATE INDEX IF NOT EXISTS payments_block ON payments (block_number);
+
+  CREATE TABLE IF NOT EXISTS campaigns (
+    id INTEGER PRIMARY KEY,
+    amount TEXT NOT NULL,
+    token TEXT NOT NULL,
+    starts_at INTEGER NOT NULL,
+    ends_at INTEGER NOT NULL,
+    budget TEXT NOT NULL,
+    block_number INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS claim_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    campaign_id INTEGER NOT NULL,
+    wallet_key TEXT NOT NULL,
+    wallet TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    UNIQUE (campaign_id, wallet_key)
+  );
+
+  CREATE TABLE IF NOT EXISTS claim_roots (
+    campaign_id INTEGER PRIMARY KEY,
+    root TEXT NOT NULL,
+    last_entry_id INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    published_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS payout_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    campaign_id INTEGER NOT NULL,
+    wallet_key TEXT NOT NULL,
+    wallet TEXT NOT NULL,
+    status TEXT NOT NULL,
+    nonce INTEGER,
+    tx_hash TEXT,
+    tx_hashes TEXT NOT NULL,
+    fees TEXT,
+    gas_limit TEXT,
+    block_number INTEGER,
+    attempts INTEGER NOT NULL,
+    error TEXT,
+    error_code TEXT,
+    created_at INTEGER NOT NULL,
+    submitted_at INTEGER,
+    updated_at INTEGER NOT NULL,
+    UNIQUE (campaign_id, wallet_key)
+  );
+  CREATE INDEX IF NOT EXISTS payout_jobs_status ON payout_jobs (status);
+
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    secret TEXT NOT NULL,
+    scopes TEXT NOT NULL,
+    rate_limit INTEGER NOT NULL,
+    created_at INTEGER NOT NULL,
+    revoked_at INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS verification_tokens (
+    token_hash TEXT PRIMARY KEY,
+    wallet TEXT NOT NULL,
+    similarity REAL NOT NULL,
+    api_key_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL,
+    used_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS verification_tokens_expiry ON verification_tokens (expires_at);
+
+  CREATE TABLE IF NOT EXISTS indexed_blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS embeddings (
+    ipfs_hash TEXT PRIMARY KEY,
+    vector BLOB NOT NULL,
+    model TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS erasures (
+    ipfs_hash TEXT PRIMARY KEY,
+    wallet_key TEXT NOT NULL,
+    wallet TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    erased_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS erasures_wallet ON erasures (wallet_key);
+
+  CREATE TABLE IF NOT EXISTS review_cases (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    wallet TEXT,
+    ipfs_hash TEXT,
+    embedding_hash TEXT NOT NULL,
+    model TEXT NOT NULL,
+    matches TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'open',
+    resolved_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS review_cases_wallet ON review_cases (wallet);
+  CREATE INDEX IF NOT EXISTS review_cases_embedding ON review_cases (embedding_hash);
+`;
+
+function toRegistration(row: RegistrationRow): RegistrationRecord {
+  return {
+    wallet: row.wallet,
+    faceHash: row.face_hash,
+    publicKey: row.public_key,
+    ipfsHash: row.ipfs_hash,
+    timestamp: row.timestamp,
+    blockNumber: row.block_number,
+    transactionHash: row.tx_hash,
+    logIndex: row.log_index
+  };
+}
+
+function toErasure(row: ErasureRow): ErasureRecord {
+  return {
+    wallet: row.wallet,
+    ipfsHash: row.ipfs_hash,
+    blockNumber: row.block_number,
+    erasedAt: row.erased_at
+  };
+}
+
+function toPayment(row: PaymentRow): PaymentRecord {
+  return {
+    wallet: row.wallet,
+    campaignId: row.campaign_id,
+    token: row.token,
+    amount: row.amount,
+    blockNumber: row.block_number,
+    transactionHash: row.tx_hash,
+    logIndex: row.log_index
+  };
+}
+
+function toCampaign(row: CampaignRow): CampaignRecord {
+  return {
+    id: row.id,
+    amount: row.amount,
+    token: row.token,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    budget: row.budget,
+    blockNumber: row.block_number
+  };
+}
+
+function toPayoutJob(row: PayoutJobRow): PayoutJob {
+  return {
+    id: row.id,
+    campaignId: row.campaign_id,
+    wallet: row.wallet,
+    status: row.status,
+    nonce: row.nonce,
+    transactionHash: row.tx_hash,
+    transactionHashes: JSON.parse(row.tx_hashes),
+    fees: row.fees ? JSON.parse(row.fees) : null,
+    gasLimit: row.gas_limit,
+    blockNumber: row.block_number,
+    attempts: row.attempts,
+    error: row.error,
+    errorCode: row.error_code,
+    createdAt: row.created_at,
+    submittedAt: row.submitted_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toApiKey(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    name: row.name,
+    secret: row.secret,
+    scopes: row.scopes.split(",") as ApiScope[],
+    rateLimit: row.rate_limit,
+    createdAt: row.created_at,
+    revokedAt: row.revoked_at
+  };
+}
+
+function toVerificationToken(row: VerificationTokenRow): VerificationTokenRecord {
+  return {
+    tokenHash: row.token_hash,
+    wallet: row.wallet,
+    similarity: row.similarity,
+    apiKeyId: row.api_key_id,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    usedAt: row.used_at
+  };
+}
+
+function toReviewCase(row: ReviewCaseRow): ReviewCaseRecord {
+  return {
+    id: row.id,
+    wallet: row.wallet,
+    ipfsHash: row.ipfs_hash,
+    embeddingHash: row.embedding_hash,
+    model: JSON.parse(row.model) as EmbeddingModelInfo,
+    matches: JSON.parse(row.matches) as ReviewCase["matches"],
+    createdAt: row.created_at,
+    status: row.status as ReviewStatus,
+    resolvedAt: row.resolved_at
+  };
+}
+
+function toClaimRoot(row: ClaimRootRow): ClaimRootRecord {
+  return {
+    campaignId: row.campaign_id,
+    root: row.root,
+    lastEntryId: row.last_entry_id,
+    transactionHash: row.tx_hash,
+    publishedAt: row.published_at
+  };
+}
+
+/**
+ * Local SQLite store for indexed contract state.
+ *
+ * Backend routes read registrations and payments from here instead of
+ * walking the contract over RPC.
+ */
+export class RegistryStore {
+  private db: Database;
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec("PRAGMA journal_mode = WAL;");
+    this.dropStaleEmbeddingCache();
+    this.dropUncampaignedPayments();
+    this.addReviewStatusColumns();
+    this.rekeyRegistrations();
+    this.db.exec(SCHEMA);
+    this.addPayoutErrorCodeColumn();
+  }
+
+  // Embeddings cached before the model was recorded cannot be trusted; they are refetched
+  private dropStaleEmbeddingCache(): void {
+    const columns = this.db.query("PRAGMA table_info(embeddings)").all() as { name: string }[];
+    if (columns.length > 0 && !columns.some(column => column.name === "model")) {
+      this.db.exec("DROP TABLE embeddings;");
+    }
+  }
+
+  // Payments indexed before campaigns came from the previous contract, whose events no longer parse
+  private dropUncampaignedPayments(): void {
+    const columns = this.db.query("PRAGMA table_info(payments)").all() as { name: string }[];
+    if (columns.length > 0 && !columns.some(column => column.name === "campaign_id")) {
+      this.db.exec("DROP TABLE payments;");
+    }
+  }
+
+  // Review cases queued before they could be resolved lack the columns; the schema indexes them
+  private addReviewStatusColumns(): void {
+    const columns = this.db.query("PRAGMA table_info(review_cases)").all() as { name: string }[];
+    if (columns.length > 0 && !columns.some(column => column.name === "status")) {
+      this.db.exec(`
+        ALTER TABLE review_cases ADD COLUMN status TEXT NOT NULL DEFAULT 'open';
+        ALTER TABLE review_cases ADD COLUMN resolved_at INTEGER;
+      `);
+    }
+  }
+
+  // Registrations keyed by wallet alone lost a wallet's ended registration when it registered
+  // again. The history can only be read back from the chain, so the indexer starts over.
+  private rekeyRegistrations(): void {
+    const columns = this.db.query("PRAGMA table_info(registrations)").all() as { name: string, pk: number }[];
+    if (columns.some(column => column.name === "wallet_key" && column.pk === 1) && !columns.some(column => column.pk > 1)) {
+      this.db.exec("DROP TABLE registrations; DROP TABLE IF EXISTS indexed_blocks;");
+    }
+  }
+
+  // Payout jobs queued before failures were decoded lack the column
+  private addPayoutErrorCodeColumn(): void {
+    const columns = this.db.query("PRAGMA table_info(payout_jobs)").all() as { name: string }[];
+    if (!columns.some(column => column.name === "error_code")) {
+      this.db.exec("ALTER TABLE payout_jobs ADD COLUMN error_code TEXT;");
+    }
+  }
+
+  /**
+   * Runs a set of writes atomically
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  getCursor(): IndexerCursor | null {
+    const row = this.db
+      .query("SELECT number, hash FROM indexed_blocks ORDER BY number DESC LIMIT 1")
+      .get() as { number: number, hash: string } | null;
+    return row ? { blockNumber: row.number, blockHash: row.hash } : null;
+  }
+
+  /**
+   * Hashes of the processed blocks still in the window, newest first
+   */
+  listIndexedBlocks(): IndexerCursor[] {
+    const rows = this.db
+      .query("SELECT number, hash FROM indexed_blocks ORDER BY number DESC")
+      .all() as { number: number, hash: string }[];
+    return rows.map(row => ({ blockNumber: row.number, blockHash: row.hash }));
+  }
+
+  /**
+   * Records the hash of a processed block and drops hashes older than the window
+   */
+  setCursor(cursor: IndexerCursor, keepBlocks: number): void {
+    this.db
+      .query("INSERT OR REPLACE INTO indexed_blocks (number, hash) VALUES (?, ?)")
+      .run(cursor.blockNumber, cursor.blockHash);
+    this.db
+      .query("DELETE FROM indexed_blocks WHERE number < ?")
+      .run(cursor.blockNumber - keepBlocks);
+  }
+
+  /**
+   * Deletes everything indexed after a block so it can be re-read from the chain
+   */
+  rewindTo(blockNumber: number): void {
+    this.db.query("DELETE FROM registrations WHERE block_number > ?").run(blockNumber);
+    this.db.query("UPDATE registrations SET ended_block = NULL WHERE ended_block > ?").run(blockNumber);
+    // Data already erased stays erased
+    this.db.query("DELETE FROM erasures WHERE block_number > ? AND erased_at IS NULL").run(blockNumber);
+    this.db.query("DELETE FROM payments WHERE block_number > ?").run(blockNumber);
+    this.db.query("DELETE FROM campaigns WHERE block_number > ?").run(blockNumber);
+    this.db.query("DELETE FROM indexed_blocks WHERE number > ?").run(blockNumber);
+  }
+
+  /**
+   * Records a wallet's registration. A registration already indexed is left as it is, so a
+   * replayed event cannot revive an ended one; a different one replaces the wallet's live row.
+   * Ended registrations are never overwritten.
+   */
+  upsertRegistration(record: RegistrationRecord): void {
+    this.db.query(`
+      INSERT INTO registrations
+        (wallet_key, wallet, face_hash, public_key, ipfs_hash, timestamp, block_number, tx_hash, log_index)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (wallet_key, block_number, log_index) DO NOTHING
+      ON CONFLICT (wallet_key) WHERE ended_block IS NULL DO UPDATE SET
+        wallet = excluded.wallet,
+        face_hash = excluded.face_hash,
+        public_key = excluded.public_key,
+        ipfs_hash = excluded.ipfs_hash,
+        timestamp = excluded.timestamp,
+        block_number = excluded.block_number,
+        tx_hash = excluded.tx_hash,
+        log_index = excluded.log_index
+    `).run(
+      record.wallet.toLowerCase(),
+      record.wallet,
+      record.faceHash,
+      record.publicKey,
+      record.ipfsHash,
+      record.timestamp,
+      record.blockNumber,
+      record.transactionHash,
+      record.logIndex
+    );
+  }
+
+  /**
+   * Marks a registration as no longer held by its wallet. The row is kept so a
+   * reorg past the block can restore it.
+   */
+  endRegistration(wallet: string, blockNumber: number): void {
+    this.db
+      .query("UPDATE registrations SET ended_block = ? WHERE wallet_key = ? AND ended_block IS NULL")
+      .run(blockNumber, wallet.toLowerCase());
+  }
+
+  /**
+   * Queues the face data of a deregistered wallet for erasure
+   */
+  recordErasure(wallet: string, ipfsHash: string, blockNumber: number): void {
+    this.db
+      .query("INSERT OR IGNORE INTO erasures (ipfs_hash, wallet_key, wallet, block_number) VALUES (?, ?, ?, ?)")
+      .run(ipfsHash, wallet.toLowerCase(), wallet, blockNumber);
+  }
+
+  listPendingErasures(): ErasureRecord[] {
+    const rows = this.db
+      .query("SELECT * FROM erasures WHERE erased_at IS NULL ORDER BY block_number")
+      .all() as ErasureRow[];
+    return rows.map(toErasure);
+  }
+
+  // Latest erasure of a wallet, if it ever deregistered
+  getErasure(wallet: string): ErasureRecord | null {
+    const row = this.db
+      .query("SELECT * FROM erasures WHERE wallet_key = ? ORDER BY block_number DESC LIMIT 1")
+      .get(wallet.toLowerCase()) as ErasureRow | null;
+    return row ? toErasure(row) : null;
+  }
+
+  /**
+   * Drops everything derived from an erased payload and marks the erasure done
+   */
+  completeErasure(erasure: ErasureRecord, erasedAt: number): void {
+    this.transaction(() => {
+      this.db.query("DELETE FROM embeddings WHERE ipfs_hash = ?").run(erasure.ipfsHash);
+      this.db.query("DELETE FROM review_cases WHERE ipfs_hash = ? OR wallet = ?").run(erasure.ipfsHash, erasure.wallet);
+      this.db.query("UPDATE erasures SET erased_at = ? WHERE ipfs_hash = ?").run(erasedAt, erasure.ipfsHash);
+    });
+  }
+
+  insertPayment(record: PaymentRecord): void {
+    this.db.query(`
+      INSERT OR IGNORE INTO payments (tx_hash, log_index, wallet_key, wallet, campaign_id, token, amount, block_number)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.transactionHash,
+      record.logIndex,
+      record.wallet.toLowerCase(),
+      record.wallet,
+      record.campaignId,
+      record.token,
+      record.amount,
+      record.blockNumber
+    );
+  }
+
+  getRegistration(wallet: string): RegistrationRecord | null {
+    const row = this.db
+      .query("SELECT * FROM registrations WHERE wallet_key = ? AND ended_block IS NULL")
+      .get(wallet.toLowerCase()) as RegistrationRow | null;
+    return row ? toRegistration(row) : null;
+  }
+
+  listRegistrations(): RegistrationRecord[] {
+    const rows = this.db
+      .query("SELECT * FROM registrations WHERE ended_block IS NULL ORDER BY block_number, log_index")
+      .all() as RegistrationRow[];
+    return rows.map(toRegistration);
+  }
+
+  /**
+   * Lists active registrations in index order, with the campaigns that paid them
+   * @param after Position of the last registration of the previous page; null for the first page
+   * @param limit Maximum number of registrations to return
+   */
+  listRegistrantsPage(after: RegistrationPosition | null, limit: number): RegistrantRecord[] {
+    const { blockNumber, logIndex } = after ?? { blockNumber: -1, logIndex: -1 };
+    const rows = this.db
+      .query(`
+        SELECT r.*, (
+          SELECT GROUP_CONCAT(p.campaign_id) FROM payments p WHERE p.wallet_key = r.wallet_key
+        ) AS paid_campaigns
+        FROM registrations r
+        WHERE r.ended_block IS NULL AND (r.block_number > ? OR (r.block_number = ? AND r.log_index > ?))
+        ORDER BY r.block_number, r.log_index
+        LIMIT ?
+      `)
+      .all(blockNumber, blockNumber, logIndex, limit) as (RegistrationRow & { paid_campaigns: string | null })[];
+    return rows.map(row => ({
+      ...toRegistration(row),
+      paidCampaigns: row.paid_campaigns ? row.paid_campaigns.split(",").map(Number).sort((a, b) => a - b) : []
+    }));
+  }
+
+  /**
+   * Lowercase addresses of every wallet that has held a registration, including ended ones
+   */
+  listWalletKeys(): Set<string> {
+    const rows = this.db.query("SELECT wallet_key FROM registrations").all() as { wallet_key: string }[];
+    return new Set(rows.map(row => row.wallet_key));
+  }
+
+  countRegistrations(): number {
+    const row = this.db.query("SELECT COUNT(*) AS count FROM registrations WHERE ended_block IS NULL").get() as { count: number };
+    return row.count;
+  }
+
+  getPayments(wallet: string): PaymentRecord[] {
+    const rows = this.db
+      .query("SELECT * FROM payments WHERE wallet_key = ? ORDER BY block_number, log_index")
+      .all(wallet.toLowerCase()) as PaymentRow[];
+    return rows.map(toPayment);
+  }
+
+  insertCampaign(record: CampaignRecord): void {
+    this.db.query(`
+      INSERT OR REPLACE INTO campaigns (id, amount, token, starts_at, ends_at, budget, block_number)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.id,
+      record.amount,
+      record.token,
+      record.startsAt,
+      record.endsAt,
+      record.budget,
+      record.blockNumber
+    );
+  }
+
+  getCampaign(id: number): CampaignRecord | null {
+    const row = this.db.query("SELECT * FROM campaigns WHERE id = ?").get(id) as CampaignRow | null;
+    return row ? toCampaign(row) : null;
+  }
+
+  /**
+   * Total paid out by a campaign so far
+   */
+  getCampaignSpent(id: number): bigint {
+    const rows = this.db.query("SELECT amount FROM payments WHERE campaign_id = ?").all(id) as { amount: string }[];
+    return rows.reduce((total, row) => total + BigInt(row.amount), 0n);
+  }
+
+  /**
+   * Adds a verified wallet to the next claim tree of a campaign
+   * @returns False if the wallet was already added
+   */
+  addClaimEntry(campaignId: number, wallet: string, createdAt: number): boolean {
+    const result = this.db
+      .query("INSERT OR IGNORE INTO claim_entries (campaign_id, wallet_key, wallet, created_at) VALUES (?, ?, ?, ?)")
+      .run(campaignId, wallet.toLowerCase(), wallet, createdAt);
+    return result.changes > 0;
+  }
+
+  hasClaimEntry(campaignId: number, wallet: string): boolean {
+    return this.db
+      .query("SELECT 1 FROM claim_entries WHERE campaign_id = ? AND wallet_key = ?")
+      .get(campaignId, wallet.toLowerCase()) !== null;
+  }
+
+  /**
+   * Lists the wallets added to a campaign's claims
+   * @param upToEntryId Only entries up to this id, e.g. those in a published tree
+   */
+  listClaimEntries(campaignId: number, upToEntryId = Number.MAX_SAFE_INTEGER): { id: number, wallet: string }[] {
+    return this.db
+      .query("SELECT id, wallet FROM claim_entries WHERE campaign_id = ? AND id <= ? ORDER BY id")
+      .all(campaignId, upToEntryId) as { id: number, wallet: string }[];
+  }
+
+  // Campaigns with claim entries newer than their published root
+  listUnpublishedClaimCampaigns(): number[] {
+    const rows = this.db.query(`
+      SELECT DISTINCT e.campaign_id AS id FROM claim_entries e
+      LEFT JOIN claim_roots r ON r.campaign_id = e.campaign_id
+      WHERE r.last_entry_id IS NULL OR e.id > r.last_entry_id
+      ORDER BY e.campaign_id
+    `).all() as { id: number }[];
+    return rows.map(row => row.id);
+  }
+
+  recordClaimRoot(record: ClaimRootRecord): void {
+    this.db.query(`
+      INSERT OR REPLACE INTO claim_roots (campaign_id, root, last_entry_id, tx_hash, published_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(record.campaignId, record.root, record.lastEntryId, record.transactionHash, record.publishedAt);
+  }
+
+  /**
+   * Lists a wallet's claim entries, with the published root that includes each one, if any
+   */
+  listClaimsOf(wallet: string): { campaignId: number, published: ClaimRootRecord | null }[] {
+    const rows = this.db.query(`
+      SELECT e.campaign_id AS entry_campaign_id, e.id AS entry_id, r.* FROM claim_entries e
+      LEFT JOIN claim_roots r ON r.campaign_id = e.campaign_id
+      WHERE e.wallet_key = ?
+      ORDER BY e.campaign_id
+    `).all(wallet.toLowerCase()) as (Partial<ClaimRootRow> & { entry_campaign_id: number, entry_id: number })[];
+    return rows.map(row => ({
+      campaignId: row.entry_campaign_id,
+      published: row.root && row.entry_id <= row.last_entry_id! ? toClaimRoot(row as ClaimRootRow) : null
+    }));
+  }
+
+  /**
+   * Queues a payout for a wallet, or requeues its failed one
+   * @returns The wallet's job for the campaign, which is left as is unless it had failed
+   */
+  enqueuePayoutJob(campaignId: number, wallet: string, createdAt: number): PayoutJob {
+    this.db.query(`
+      INSERT INTO payout_jobs (campaign_id, wallet_key, wallet, status, tx_hashes, attempts, created_at, updated_at)
+      VALUES (?, ?, ?, 'queued', '[]', 0, ?, ?)
+      ON CONFLICT (campaign_id, wallet_key) DO UPDATE SET
+        status = 'queued', nonce = NULL, tx_hash = NULL, tx_hashes = '[]', fees = NULL, gas_limit = NULL,
+        block_number = NULL, attempts = 0, error = NULL, error_code = NULL, submitted_at = NULL, updated_at = excluded.updated_at
+      WHERE status = 'failed'
+    `).run(campaignId, wallet.toLowerCase(), wallet, createdAt, createdAt);
+    return this.getPayoutJobFor(campaignId, wallet)!;
+  }
+
+  getPayoutJob(id: number): PayoutJob | null {
+    const row = this.db.query("SELECT * FROM payout_jobs WHERE id = ?").get(id) as PayoutJobRow | null;
+    return row ? toPayoutJob(row) : null;
+  }
+
+  getPayoutJobFor(campaignId: number, wallet: string): PayoutJob | null {
+    const row = this.db
+      .query("SELECT * FROM payout_jobs WHERE campaign_id = ? AND wallet_key = ?")
+      .get(campaignId, wallet.toLowerCase()) as PayoutJobRow | null;
+    return row ? toPayoutJob(row) : null;
+  }
+
+  listPayoutJobs(status: PayoutJobStatus): PayoutJob[] {
+    const rows = this.db.query("SELECT * FROM payout_jobs WHERE status = ? ORDER BY id").all(status) as PayoutJobRow[];
+    return rows.map(toPayoutJob);
+  }
+
+  /**
+   * Number of a campaign's payouts queued or awaiting their transaction
+   */
+  countPendingPayoutJobs(campaignId: number): number {
+    const row = this.db
+      .query("SELECT COUNT(*) AS count FROM payout_jobs WHERE campaign_id = ? AND status IN ('queued', 'submitted')")
+      .get(campaignId) as { count: number };
+    return row.count;
+  }
+
+  updatePayoutJob(job: PayoutJob): void {
+    this.db.query(`
+      UPDATE payout_jobs SET status = ?, nonce = ?, tx_hash = ?, tx_hashes = ?, fees = ?, gas_limit = ?,
+        block_number = ?, attempts = ?, error = ?, error_code = ?, submitted_at = ?, updated_at = ?
+      WHERE id = ?
+    `).run(
+      job.status,
+      job.nonce,
+      job.transactionHash,
+      JSON.stringify(job.transactionHashes),
+      job.fees ? JSON.stringify(job.fees) : null,
+      job.gasLimit,
+      job.blockNumber,
+      job.attempts,
+      job.error,
+      job.errorCode,
+      job.submittedAt,
+      job.updatedAt,
+      job.id
+    );
+  }
+
+  insertApiKey(record: ApiKeyRecord): void {
+    this.db.query(`
+      INSERT INTO api_keys (id, name, secret, scopes, rate_limit, created_at, revoked_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      record.id,
+      record.name,
+      record.secret,
+      record.scopes.join(","),
+      record.rateLimit,
+      record.createdAt,
+      record.revokedAt
+    );
+  }
+
+  getApiKey(id: string): ApiKeyRecord | null {
+    const row = this.db.query("SELECT * FROM api_keys WHERE id = ?").get(id) as ApiKeyRow | null;
+    return row ? toApiKey(row) : null;
+  }
+
+  listApiKeys(): ApiKeyRecord[] {
+    const rows = this.db.query("SELECT * FROM api_keys ORDER BY created_at").all() as ApiKeyRow[];
+    return rows.map(toApiKey);
+  }
+
+  /**
+   * Revokes an API key; requests signed with it are refused from then on
+   * @returns False if there is no such active key
+   */
+  revokeApiKey(id: string, revokedAt: number): boolean {
+    const result = this.db
+      .query("UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL")
+      .run(revokedAt, id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Stores a verification token, dropping the ones that have expired
+   */
+  insertVerificationToken(record: VerificationTokenRecord): void {
+    this.transaction(() => {
+      this.db.query("DELETE FROM verification_tokens WHERE expires_at < ?").run(record.createdAt);
+      this.db.query(`
+        INSERT INTO verification_tokens (token_hash, wallet, similarity, api_key_id, created_at, expires_at, used_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        record.tokenHash,
+        record.wallet,
+        record.similarity,
+        record.apiKeyId,
+        record.createdAt,
+        record.expiresAt,
+        record.usedAt
+      );
+    });
+  }
+
+  getVerificationToken(tokenHash: string): VerificationTokenRecord | null {
+    const row = this.db
+      .query("SELECT * FROM verification_tokens WHERE token_hash = ?")
+      .get(tokenHash) as VerificationTokenRow | null;
+    return row ? toVerificationToken(row) : null;
+  }
+
+  /**
+   * Marks a verification token used, unless it already is or has expired
+   * @returns Whether this call used it
+   */
+  useVerificationToken(tokenHash: string, usedAt: number): boolean {
+    const result = this.db
+      .query("UPDATE verification_tokens SET used_at = ? WHERE token_hash = ? AND used_at IS NULL AND expires_at >= ?")
+      .run(usedAt, tokenHash, usedAt);
+    return result.changes > 0;
+  }
+
+  /**
+   * Returns a cached normalized embedding for an IPFS payload, if one was stored
+   */
+  getEmbedding(ipfsHash: string): CachedEmbedding | null {
+    const row = this.db
+      .query("SELECT vector, model FROM embeddings WHERE ipfs_hash = ?")
+      .get(ipfsHash) as { vector: Uint8Array, model: string } | null;
+    if (!row) {
+      return null;
+    }
+    const bytes = new Uint8Array(row.vector);
+    return {
+      vector: new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4),
+      model: JSON.parse(row.model) as EmbeddingModelInfo
+    };
+  }
+
+  putEmbedding(ipfsHash: string, { vector, model }: CachedEmbedding): void {
+    this.db
+      .query("INSERT OR REPLACE INTO embeddings (ipfs_hash, vector, model) VALUES (?, ?, ?)")
+      .run(ipfsHash, new Uint8Array(vector.buffer, vector.byteOffset, vector.byteLength), JSON.stringify(model));
+  }
+
+  /**
+   * Queues a uniqueness check for manual review. A wallet has at most one case, which follows
+   * its latest capture while open, and a capture queued for one wallet is not queued for another.
+   * @returns False if the check was not queued
+   */
+  addReviewCase(reviewCase: ReviewCase): boolean {
+    return this.transaction(() => {
+      const existing = this.db
+        .query("SELECT * FROM review_cases WHERE wallet = ? OR embedding_hash = ?")
+        .all(reviewCase.wallet, reviewCase.embeddingHash) as ReviewCaseRow[];
+      const own = existing.find(row => row.wallet === reviewCase.wallet);
+      if (existing.some(row => row !== own) || (own && own.status !== "open")) {
+        return false;
+      }
+
+      const values = [
+        reviewCase.ipfsHash,
+        reviewCase.embeddingHash,
+        JSON.stringify(reviewCase.model),
+        JSON.stringify(reviewCase.matches),
+        reviewCase.createdAt
+      ];
+      if (own) {
+        this.db.query(`
+          UPDATE review_cases SET ipfs_hash = ?, embedding_hash = ?, model = ?, matches = ?, created_at = ?
+          WHERE id = ?
+        `).run(...values, own.id);
+      } else {
+        this.db.query(`
+          INSERT INTO review_cases (wallet, ipfs_hash, embedding_hash, model, matches, created_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `).run(reviewCase.wallet, ...values);
+      }
+      return true;
+    });
+  }
+
+  // The case of a wallet, whatever its status
+  getReviewCase(wallet: string): ReviewCaseRecord | null {
+    const row = this.db.query("SELECT * FROM review_cases WHERE wallet = ?").get(wallet) as ReviewCaseRow | null;
+    return row ? toReviewCase(row) : null;
+  }
+
+  /**
+   * Lists review cases, oldest first
+   * @param status Only cases with this status; all cases if omitted
+   */
+  listReviewCases(status?: ReviewStatus): ReviewCaseRecord[] {
+    const rows = (status
+      ? this.db.query("SELECT * FROM review_cases WHERE status = ? ORDER BY id").all(status)
+      : this.db.query("SELECT * FROM review_cases ORDER BY id").all()) as ReviewCaseRow[];
+    return rows.map(toReviewCase);
+  }
+
+  /**
+   * Settles an open review case
+   * @returns False if there is no such open case
+   */
+  resolveReviewCase(id: number, status: Exclude<ReviewStatus, "open">, resolvedAt: number): boolean {
+    const result = this.db
+      .query("UPDATE review_cases SET status = ?, resolved_at = ? WHERE id = ? AND status = 'open'")
+      .run(status, resolvedAt, id);
+    return result.changes > 0;
+  }
+}
@@ -0,0 +1,63 @@
+import { ANALYZE_FACE_MODEL, embeddingModelFor } from "../../../shared/embeddingPayload";
+import { EmbeddingProvider, FaceBox, ImageEmbedding } from "./EmbeddingProvider";
+
+// Face region as the analyze API reports it
+interface FacialArea {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+function toFaceBox(area: FacialArea | undefined): FaceBox | undefined {
+  if (!area || ![area.x, area.y, area.w, area.h].every(Number.isFinite)) {
+    return undefined;
+  }
+  return { x: area.x, y: area.y, width: area.w, height: area.h };
+}
+
+/**
+ * Embeds images with the hosted analyze API
+ */
+export class RemoteEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "remote";
+  readonly model = ANALYZE_FACE_MODEL;
+
+  constructor(private apiUrl: string, private timeoutMs = 15000) {}
+
+  async embed(image: Buffer): Promise<ImageEmbedding> {
+    const formData = new FormData();
+    formData.append("file", new Blob([image], { type: "image/jpeg" }), "image.jpg");
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.apiUrl, {
+        method: "POST",
+        body: formData,
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new Error(`API responded with status: ${response.status}`);
+      }
+
+      const data = await response.json() as { embedding?: number[], facial_area?: FacialArea, error?: string };
+      if (data.error) {
+        throw new Error(`API error: ${data.error}`);
+      }
+      if (!Array.isArray(data.embedding) || data.embedding.length === 0) {
+        throw new Error("No face embedding returned from API");
+      }
+
+      return {
+        embedding: data.embedding,
+        model: embeddingModelFor(this.model, data.embedding.length),
+        box: toFaceBox(data.facial_area)
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
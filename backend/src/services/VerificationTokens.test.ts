@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { ApiKeyRecord, RegistryStore } from "./RegistryStore";
+import { VerificationTokens } from "./VerificationTokens";
+
+const WALLET = "0x00000000000000000000000000000000000000a1";
+
+const key: ApiKeyRecord = { id: "key-1", name: "Test dApp", secret: "s3cret", scopes: ["verify", "pay"], rateLimit: 60, createdAt: 0, revokedAt: null };
+const otherKey: ApiKeyRecord = { ...key, id: "key-2" };
+
+function setup() {
+  const store = new RegistryStore(":memory:");
+  store.insertApiKey(key);
+  store.insertApiKey(otherKey);
+  return { store, tokens: new VerificationTokens(store, 300) };
+}
+
+afterEach(() => setSystemTime());
+
+describe("VerificationTokens", () => {
+  test("vouches for the wallet a face matched, storing only the token's hash", () => {
+    const { store, tokens } = setup();
+    const { token, expiresAt } = tokens.issue(WALLET, 0.91, key);
+
+    const checked = tokens.check(token, key);
+    expect("verification" in checked && checked.verification).toMatchObject({ wallet: WALLET, similarity: 0.91, apiKeyId: key.id, expiresAt });
+    expect(store.getVerificationToken(token)).toBeNull();
+  });
+
+  test("is spent once", () => {
+    const { tokens } = setup();
+    const { token } = tokens.issue(WALLET, 0.91, key);
+
+    expect(tokens.use(token)).toBe(true);
+    expect(tokens.use(token)).toBe(false);
+    expect(tokens.check(token, key)).toMatchObject({ status: 409 });
+  });
+
+  test("is only accepted from the key it was issued to", () => {
+    const { tokens } = setup();
+    const { token } = tokens.issue(WALLET, 0.91, key);
+
+    expect(tokens.check(token, otherKey)).toMatchObject({ status: 401, error: "Unknown verification token" });
+    expect(tokens.check("made-up", key)).toMatchObject({ status: 401 });
+  });
+
+  test("expires", () => {
+    const { tokens } = setup();
+    const { token, expiresAt } = tokens.issue(WALLET, 0.91, key);
+
+    setSystemTime(new Date((expiresAt + 1) * 1000));
+    expect(tokens.check(token, key)).toMatchObject({ status: 401 });
+    expect(tokens.use(token)).toBe(false);
+  });
+});
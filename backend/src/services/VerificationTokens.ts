@@ -0,0 +1,62 @@
+import { createHash, randomBytes } from "crypto";
+import { ApiKeyRecord, RegistryStore, VerificationTokenRecord } from "./RegistryStore";
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Short-lived, single-use tokens vouching that a face was matched to a wallet.
+ *
+ * /api/verify-face issues one for each clear match, and /api/release-payment or /api/claims
+ * spends it, so a payout can only follow a verification made with the same API key moments
+ * before. Only the tokens' hashes are stored.
+ */
+export class VerificationTokens {
+  constructor(private store: RegistryStore, private ttlSeconds: number) {}
+
+  /**
+   * Issues a token for a face matched to a wallet
+   * @returns The token and when it expires, in Unix seconds
+   */
+  issue(wallet: string, similarity: number, key: ApiKeyRecord): { token: string, expiresAt: number } {
+    const token = randomBytes(32).toString("base64url");
+    const now = Math.floor(Date.now() / 1000);
+    this.store.insertVerificationToken({
+      tokenHash: hashToken(token),
+      wallet,
+      similarity,
+      apiKeyId: key.id,
+      createdAt: now,
+      expiresAt: now + this.ttlSeconds,
+      usedAt: null
+    });
+    return { token, expiresAt: now + this.ttlSeconds };
+  }
+
+  /**
+   * Looks up a token that may still be spent, without spending it
+   * @returns The verification it vouches for, or the error and HTTP status to report
+   */
+  check(token: string, key: ApiKeyRecord): { verification: VerificationTokenRecord } | { status: number, error: string } {
+    const verification = this.store.getVerificationToken(hashToken(token));
+    if (!verification || verification.apiKeyId !== key.id) {
+      return { status: 401, error: "Unknown verification token" };
+    }
+    if (verification.usedAt !== null) {
+      return { status: 409, error: "Verification token was already used" };
+    }
+    if (verification.expiresAt < Math.floor(Date.now() / 1000)) {
+      return { status: 401, error: "Verification token has expired; verify the face again" };
+    }
+    return { verification };
+  }
+
+  /**
+   * Spends a token
+   * @returns False if it was spent by another request or expired in the meantime
+   */
+  use(token: string): boolean {
+    return this.store.useVerificationToken(hashToken(token), Math.floor(Date.now() / 1000));
+  }
+}
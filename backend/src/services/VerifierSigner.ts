@@ -0,0 +1,153 @@
+import { ethers } from "ethers";
+import { SimilarityDecision } from "../../../shared/similarityPolicy";
+import { LivenessEvidence } from "../../../shared/livenessPolicy";
+
+// A registrant that is close to the checked embedding
+export interface UniquenessMatch {
+  address: string;
+  similarity: number;
+}
+
+// The outcome of a uniqueness check, as signed by the verifier
+export interface UniquenessResult {
+  wallet: string | null;
+  embeddingHash: string;
+  isUnique: boolean;
+  // "uncertain" results are queued for manual review and never attested
+  decision: SimilarityDecision;
+  threshold: number;
+  matches: UniquenessMatch[];
+  // Liveness evidence the capture came with; required before a registration attestation
+  liveness: LivenessEvidence | null;
+  issuedAt: number;
+}
+
+// What the verifier attests to when it authorizes a registration
+export interface RegistrationAttestation {
+  wallet: string;
+  faceHash: string;
+  ipfsHash: string;
+  expiry: number;
+}
+
+export interface SignedRegistrationAttestation extends RegistrationAttestation {
+  signature: string;
+}
+
+// What the verifier attests to when it allows a registration to move to a new wallet
+export interface RecoveryAttestation {
+  oldWallet: string;
+  newWallet: string;
+  faceHash: string;
+  ipfsHash: string;
+  expiry: number;
+}
+
+export interface SignedRecoveryAttestation extends RecoveryAttestation {
+  signature: string;
+}
+
+export interface SignedUniquenessResult {
+  result: UniquenessResult;
+  signature: string;
+  signer: string;
+  attestation?: SignedRegistrationAttestation;
+}
+
+// EIP-712 types checked by FaceRegistration.register
+export const REGISTRATION_ATTESTATION_TYPES = {
+  RegistrationAttestation: [
+    { name: "wallet", type: "address" },
+    { name: "faceHash", type: "bytes32" },
+    { name: "ipfsHash", type: "string" },
+    { name: "expiry", type: "uint256" }
+  ]
+};
+
+// EIP-712 types checked by FaceRegistration.requestRecovery
+export const RECOVERY_ATTESTATION_TYPES = {
+  RecoveryAttestation: [
+    { name: "oldWallet", type: "address" },
+    { name: "newWallet", type: "address" },
+    { name: "faceHash", type: "bytes32" },
+    { name: "ipfsHash", type: "string" },
+    { name: "expiry", type: "uint256" }
+  ]
+};
+
+/**
+ * EIP-712 domain of a deployed FaceRegistration contract
+ */
+export function attestationDomain(chainId: bigint, contractAddress: string): ethers.TypedDataDomain {
+  return {
+    name: "FaceRegistration",
+    version: "1",
+    chainId,
+    verifyingContract: contractAddress
+  };
+}
+
+/**
+ * Hashes an embedding the same way the frontend derives its face hash
+ * (SHA-256 over the Float32 bytes), so a signed result can be tied to a registration.
+ */
+export function hashEmbedding(embedding: ArrayLike<number>): string {
+  const vector = Float32Array.from(embedding);
+  return ethers.sha256(new Uint8Array(vector.buffer));
+}
+
+/**
+ * Signs verification results with the verifier key so that clients can check
+ * they came from this backend.
+ */
+export class VerifierSigner {
+  private wallet: ethers.Wallet;
+
+  constructor(privateKey: string) {
+    this.wallet = new ethers.Wallet(privateKey);
+  }
+
+  get address(): string {
+    return this.wallet.address;
+  }
+
+  /**
+   * Signs a uniqueness result as an EIP-191 personal message over its JSON encoding
+   */
+  async signUniquenessResult(result: UniquenessResult): Promise<SignedUniquenessResult> {
+    const signature = await this.wallet.signMessage(JSON.stringify(result));
+    return { result, signature, signer: this.wallet.address };
+  }
+
+  /**
+   * Signs the published envelope key so browsers only encrypt to a key this verifier vouches for
+   */
+  async signEnvelopeKey<T>(key: T): Promise<{ key: T, signature: string, signer: string }> {
+    const signature = await this.wallet.signMessage(JSON.stringify(key));
+    return { key, signature, signer: this.wallet.address };
+  }
+
+  /**
+   * Signs the EIP-712 attestation that FaceRegistration.register requires
+   * @param domain The contract's EIP-712 domain (see attestationDomain)
+   */
+  async signRegistrationAttestation(
+    domain: ethers.TypedDataDomain,
+    attestation: RegistrationAttestation
+  ): Promise<SignedRegistrationAttestation> {
+    const signature = await this.wallet.signTypedData(domain, REGISTRATION_ATTESTATION_TYPES, attestation);
+    return { ...attestation, signature };
+  }
+
+  /**
+   * Signs the EIP-712 attestation that FaceRegistration.requestRecovery requires
+   * @param domain The contract's EIP-712 domain (see attestationDomain)
+   */
+  async signRecoveryAttestation(
+    domain: ethers.TypedDataDomain,
+    attestation: RecoveryAttestation
+  ): Promise<SignedRecoveryAttestation> {
+    const signature = await this.wallet.signTypedData(domain, RECOVERY_ATTESTATION_TYPES, attestation);
+    return { ...attestation, signature };
+  }
+}
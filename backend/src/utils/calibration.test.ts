@@ -0,0 +1,59 @@
+import { describe, expect, test } from "bun:test";
+import { LabeledPair, calibrate, parseLabeledPairs } from "./calibration";
+
+// A pair of unit vectors whose cosine similarity is the given one
+function pair(similarity: number, same: boolean): LabeledPair {
+  return { a: [1, 0], b: [similarity, Math.sqrt(1 - similarity * similarity)], same };
+}
+
+const separable = [pair(0.9, true), pair(0.8, true), pair(0.6, true), pair(0.1, false), pair(0.3, false), pair(0.5, false)];
+const options = { maxFar: 0, maxReviewFar: 0.34, policy: { threshold: 0.7, reviewThreshold: 0.4 } };
+
+describe("calibrate", () => {
+  test("recommends the lowest thresholds within the target error rates", () => {
+    const report = calibrate(separable, options);
+
+    expect(report.genuinePairs).toBe(3);
+    expect(report.impostorPairs).toBe(3);
+    expect(report.recommended.threshold).toBeCloseTo(0.6);
+    expect(report.recommended.frr).toBe(0);
+    expect(report.recommendedReview.threshold).toBeCloseTo(0.5);
+    expect(report.recommendedReview.far).toBeCloseTo(1 / 3);
+  });
+
+  test("measures the ROC of a separable set", () => {
+    const report = calibrate(separable, options);
+
+    expect(report.auc).toBeCloseTo(1);
+    expect(report.equalErrorRate.far).toBe(0);
+    expect(report.equalErrorRate.frr).toBe(0);
+    expect(report.roc.map(point => point.threshold)).toEqual([...report.roc.map(point => point.threshold)].sort((x, y) => x - y));
+    expect(report.roc[report.roc.length - 1]).toMatchObject({ far: 0, frr: 1 });
+  });
+
+  test("reports how the current policy performs", () => {
+    const { current } = calibrate(separable, options);
+
+    expect(current.threshold.far).toBe(0);
+    expect(current.threshold.frr).toBeCloseTo(1 / 3);
+    expect(current.review.far).toBeCloseTo(1 / 3);
+    expect(current.review.frr).toBe(0);
+  });
+
+  test("needs both same-person and different-person pairs", () => {
+    expect(() => calibrate(separable.filter(({ same }) => same), options)).toThrow("both same-person and different-person");
+  });
+});
+
+describe("parseLabeledPairs", () => {
+  test("reads JSON lines and JSON arrays", () => {
+    const pairs = [pair(0.9, true), pair(0.1, false)];
+    expect(parseLabeledPairs(pairs.map(value => JSON.stringify(value)).join("\n") + "\n")).toEqual(pairs);
+    expect(parseLabeledPairs(JSON.stringify(pairs))).toEqual(pairs);
+  });
+
+  test("refuses malformed pairs", () => {
+    expect(() => parseLabeledPairs('{"a": [1, 0], "b": [1], "same": true}')).toThrow("Pair 0");
+    expect(() => parseLabeledPairs('{"a": [1, 0], "b": [1, 0]}')).toThrow("Pair 0");
+  });
+});
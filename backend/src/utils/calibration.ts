@@ -0,0 +1,137 @@
+import { normalizeEmbedding } from "../services/EmbeddingIndex";
+import { SimilarityPolicy, meetsThreshold } from "../../../shared/similarityPolicy";
+
+// Two embeddings labeled as the same person or not
+export interface LabeledPair {
+  a: number[];
+  b: number[];
+  same: boolean;
+}
+
+// Error rates when similarities at or above a threshold count as matches
+export interface OperatingPoint {
+  threshold: number;
+  // False accept rate: share of different-person pairs that match
+  far: number;
+  // False reject rate: share of same-person pairs that do not match
+  frr: number;
+}
+
+export interface CalibrationReport {
+  genuinePairs: number;
+  impostorPairs: number;
+  // One point per distinct similarity, by increasing threshold
+  roc: OperatingPoint[];
+  auc: number;
+  // Where FAR and FRR are closest
+  equalErrorRate: OperatingPoint;
+  // Lowest threshold whose FAR stays within the target
+  recommended: OperatingPoint;
+  // Lowest threshold whose FAR stays within the review target; the start of the uncertain band
+  recommendedReview: OperatingPoint;
+  // How the policy in use performs on the set
+  current: { threshold: OperatingPoint, review: OperatingPoint };
+}
+
+export interface CalibrationOptions {
+  maxFar: number;
+  maxReviewFar: number;
+  policy: SimilarityPolicy;
+}
+
+/**
+ * Parses labeled pairs from a JSON array or JSON lines
+ * @throws If a pair is malformed
+ */
+export function parseLabeledPairs(text: string): LabeledPair[] {
+  const trimmed = text.trim();
+  const values: unknown[] = trimmed.startsWith("[")
+    ? JSON.parse(trimmed)
+    : trimmed.split("\n").filter(line => line.trim() !== "").map(line => JSON.parse(line));
+
+  return values.map((value, index) => {
+    const pair = value as Partial<LabeledPair>;
+    if (
+      !Array.isArray(pair.a) || !Array.isArray(pair.b) ||
+      pair.a.length === 0 || pair.a.length !== pair.b.length ||
+      typeof pair.same !== "boolean"
+    ) {
+      throw new Error(`Pair ${index} must have equal-length "a" and "b" embeddings and a boolean "same"`);
+    }
+    return { a: pair.a, b: pair.b, same: pair.same };
+  });
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  const u = normalizeEmbedding(a);
+  const v = normalizeEmbedding(b);
+  if (!u || !v) {
+    return 0;
+  }
+  let similarity = 0;
+  for (let i = 0; i < u.length; i++) {
+    similarity += u[i] * v[i];
+  }
+  return similarity;
+}
+
+// Error rates of one threshold
+function operatingPoint(genuine: number[], impostor: number[], threshold: number): OperatingPoint {
+  const falseAccepts = impostor.filter(similarity => meetsThreshold(similarity, threshold)).length;
+  const falseRejects = genuine.filter(similarity => !meetsThreshold(similarity, threshold)).length;
+  return {
+    threshold,
+    far: falseAccepts / impostor.length,
+    frr: falseRejects / genuine.length
+  };
+}
+
+// Lowest threshold whose FAR is within the target; the ROC is ordered by threshold and FAR only falls
+function lowestThresholdWithin(roc: OperatingPoint[], maxFar: number): OperatingPoint {
+  return roc.find(point => point.far <= maxFar) ?? roc[roc.length - 1];
+}
+
+/**
+ * Computes the ROC of a labeled set and recommends thresholds
+ * @throws If the set lacks same-person or different-person pairs
+ */
+export function calibrate(pairs: LabeledPair[], { maxFar, maxReviewFar, policy }: CalibrationOptions): CalibrationReport {
+  const genuine: number[] = [];
+  const impostor: number[] = [];
+  for (const pair of pairs) {
+    (pair.same ? genuine : impostor).push(cosineSimilarity(pair.a, pair.b));
+  }
+  if (genuine.length === 0 || impostor.length === 0) {
+    throw new Error("Calibration needs both same-person and different-person pairs");
+  }
+
+  // Every distinct similarity is a candidate threshold; one above the maximum rejects everything
+  const thresholds = [...new Set([...genuine, ...impostor])].sort((x, y) => x - y);
+  thresholds.push(thresholds[thresholds.length - 1] + 1e-6);
+  const roc = thresholds.map(threshold => operatingPoint(genuine, impostor, threshold));
+
+  // Area under TPR against FAR, integrated from the strictest threshold down
+  let auc = 0;
+  for (let i = roc.length - 1; i > 0; i--) {
+    const [strict, loose] = [roc[i], roc[i - 1]];
+    auc += (loose.far - strict.far) * ((1 - strict.frr) + (1 - loose.frr)) / 2;
+  }
+
+  const equalErrorRate = roc.reduce((best, point) =>
+    Math.abs(point.far - point.frr) < Math.abs(best.far - best.frr) ? point : best
+  );
+
+  return {
+    genuinePairs: genuine.length,
+    impostorPairs: impostor.length,
+    roc,
+    auc,
+    equalErrorRate,
+    recommended: lowestThresholdWithin(roc, maxFar),
+    recommendedReview: lowestThresholdWithin(roc, maxReviewFar),
+    current: {
+      threshold: operatingPoint(genuine, impostor, policy.threshold),
+      review: operatingPoint(genuine, impostor, policy.reviewThreshold)
+    }
+  };
+}
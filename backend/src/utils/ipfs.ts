@@ -0,0 +1,66 @@
+// List of IPFS gateways to try
+export const IPFS_GATEWAYS = [
+  "https://gateway.pinata.cloud/ipfs/",
+  "https://ipfs.io/ipfs/",
+  "https://cloudflare-ipfs.com/ipfs/",
+  "https://dweb.link/ipfs/"
+];
+
+/**
+ * Attempts to fetch JSON content from IPFS using multiple gateways
+ * @param ipfsHash The IPFS hash (CID) to retrieve
+ * @param timeoutMs Timeout applied to each gateway request
+ * @returns The parsed JSON content
+ */
+export async function fetchFromIPFS<T = unknown>(ipfsHash: string, timeoutMs = 8000): Promise<T> {
+  // Clean the hash (remove ipfs:// prefix if present)
+  const cleanHash = ipfsHash.replace('ipfs://', '').trim();
+  if (!cleanHash) {
+    throw new Error('Invalid IPFS hash: empty or undefined');
+  }
+
+  // Track errors for better diagnostics
+  const errors: string[] = [];
+
+  for (const gateway of IPFS_GATEWAYS) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    try {
+      const response = await fetch(`${gateway}${cleanHash}`, { signal: controller.signal });
+      if (!response.ok) {
+        errors.push(`${gateway}: ${response.status}`);
+        continue;
+      }
+      return await response.json() as T;
+    } catch (error) {
+      errors.push(`${gateway}: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  throw new Error(`Failed to retrieve IPFS content from all gateways. Errors: ${errors.join('; ')}`);
+}
+
+/**
+ * Removes a pin from Pinata
+ * @param ipfsHash The IPFS hash (CID) to unpin
+ * @param jwt Pinata API token
+ * @returns false if the CID was not pinned
+ */
+export async function unpinFromPinata(ipfsHash: string, jwt: string): Promise<boolean> {
+  const cleanHash = ipfsHash.replace('ipfs://', '').trim();
+  const response = await fetch(`https://api.pinata.cloud/pinning/unpin/${cleanHash}`, {
+    method: "DELETE",
+    headers: { Authorization: `Bearer ${jwt}` }
+  });
+
+  if (response.status === 404) {
+    return false;
+  }
+  if (!response.ok) {
+    throw new Error(`Pinata unpin failed: ${response.status} ${await response.text()}`);
+  }
+  return true;
+}
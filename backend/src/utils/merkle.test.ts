@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { buildClaimTree, claimLeaf } from "./merkle";
+
+const wallets = Array.from({ length: 5 }, (_, i) => ethers.getAddress(`0x${String(i + 1).repeat(40)}`));
+
+// What the contract's claim() does with a proof: hash sorted pairs up to the root
+function rootFromProof(leaf: string, proof: string[]): string {
+  return proof.reduce((hash, sibling) =>
+    BigInt(hash) < BigInt(sibling)
+      ? ethers.keccak256(ethers.concat([hash, sibling]))
+      : ethers.keccak256(ethers.concat([sibling, hash])),
+  leaf);
+}
+
+describe("claimLeaf", () => {
+  test("double-hashes the ABI-encoded campaign and wallet", () => {
+    const encoded = ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "address"], [7, wallets[0]]);
+    expect(claimLeaf(7, wallets[0])).toBe(ethers.keccak256(ethers.keccak256(encoded)));
+    expect(claimLeaf(8, wallets[0])).not.toBe(claimLeaf(7, wallets[0]));
+  });
+});
+
+describe("buildClaimTree", () => {
+  test("gives every wallet a proof of the root, including an odd one out", () => {
+    for (let count = 1; count <= wallets.length; count++) {
+      const tree = buildClaimTree(3, wallets.slice(0, count));
+      for (const wallet of wallets.slice(0, count)) {
+        const proof = tree.proofs.get(wallet.toLowerCase())!;
+        expect(rootFromProof(claimLeaf(3, wallet), proof)).toBe(tree.root);
+      }
+    }
+  });
+
+  test("roots a single wallet at its leaf", () => {
+    const tree = buildClaimTree(3, [wallets[0]]);
+    expect(tree.root).toBe(claimLeaf(3, wallets[0]));
+    expect(tree.proofs.get(wallets[0].toLowerCase())).toEqual([]);
+  });
+
+  test("does not depend on the order or case of the wallets", () => {
+    const tree = buildClaimTree(3, wallets);
+    const shuffled = buildClaimTree(3, [...wallets].reverse().map(wallet => wallet.toLowerCase()));
+    expect(shuffled.root).toBe(tree.root);
+  });
+
+  test("counts a wallet listed twice once", () => {
+    const tree = buildClaimTree(3, [wallets[0], wallets[1], wallets[0].toLowerCase()]);
+    expect(tree.proofs.size).toBe(2);
+    expect(tree.root).toBe(buildClaimTree(3, [wallets[0], wallets[1]]).root);
+  });
+
+  test("refuses an empty campaign", () => {
+    expect(() => buildClaimTree(3, [])).toThrow("at least one wallet");
+  });
+});
@@ -0,0 +1,64 @@
+import { ethers } from "ethers";
+
+// Merkle trees of the wallets allowed to claim from a campaign, in the layout the
+// contract's claim() verifies: double-hashed leaves and sorted-pair hashing.
+
+export interface ClaimTree {
+  root: string;
+  // Proof for each wallet, keyed by lowercase address
+  proofs: Map<string, string[]>;
+}
+
+/**
+ * Hashes one claim leaf: keccak256(bytes.concat(keccak256(abi.encode(campaignId, wallet))))
+ */
+export function claimLeaf(campaignId: number, wallet: string): string {
+  const encoded = ethers.AbiCoder.defaultAbiCoder().encode(["uint256", "address"], [campaignId, wallet]);
+  return ethers.keccak256(ethers.keccak256(encoded));
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b)
+    ? ethers.keccak256(ethers.concat([a, b]))
+    : ethers.keccak256(ethers.concat([b, a]));
+}
+
+/**
+ * Builds the claim tree of a campaign
+ * @param campaignId The campaign
+ * @param wallets The wallets allowed to claim
+ * @throws If there are no wallets
+ */
+export function buildClaimTree(campaignId: number, wallets: string[]): ClaimTree {
+  const keys = [...new Set(wallets.map(wallet => wallet.toLowerCase()))];
+  if (keys.length === 0) {
+    throw new Error("A claim tree needs at least one wallet");
+  }
+
+  // Sorted leaves make the root independent of the order wallets were collected in
+  const leaves = keys.map(key => ({ key, hash: claimLeaf(campaignId, key) }))
+    .sort((x, y) => (BigInt(x.hash) < BigInt(y.hash) ? -1 : 1));
+
+  const proofs = new Map(leaves.map(leaf => [leaf.key, [] as string[]]));
+  // Wallets under each node of the current layer
+  let layer = leaves.map(leaf => ({ hash: leaf.hash, keys: [leaf.key] }));
+
+  while (layer.length > 1) {
+    const next: typeof layer = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      const left = layer[i];
+      const right = layer[i + 1];
+      // An odd node is carried up unchanged
+      if (!right) {
+        next.push(left);
+        continue;
+      }
+      left.keys.forEach(key => proofs.get(key)!.push(right.hash));
+      right.keys.forEach(key => proofs.get(key)!.push(left.hash));
+      next.push({ hash: hashPair(left.hash, right.hash), keys: [...left.keys, ...right.keys] });
+    }
+    layer = next;
+  }
+
+  return { root: layer[0].hash, proofs };
+}
@@ -0,0 +1,173 @@
+// Contract calls shared by the frontend and the backend. Transactions are simulated before
+// they are sent, so a call the contract would refuse fails before any wallet prompt or gas,
+// and failures are decoded into error codes the UI and the API can report as they are.
+
+import { ethers } from "ethers";
+
+export type ContractErrorCode =
+  | "ALREADY_REGISTERED"
+  | "NOT_REGISTERED"
+  | "ATTESTATION_EXPIRED"
+  | "INVALID_ATTESTATION"
+  | "RECOVERY_PENDING"
+  | "NO_RECOVERY_PENDING"
+  | "RECOVERY_TIME_LOCKED"
+  | "UNKNOWN_CAMPAIGN"
+  | "CAMPAIGN_NOT_STARTED"
+  | "CAMPAIGN_ENDED"
+  | "CAMPAIGN_BUDGET_EXHAUSTED"
+  | "PAYMENT_ALREADY_SENT"
+  | "INSUFFICIENT_CONTRACT_BALANCE"
+  | "TOKEN_TRANSFER_FAILED"
+  | "NO_CLAIMS_PUBLISHED"
+  | "INVALID_PROOF"
+  | "PAUSED"
+  | "NOT_AUTHORIZED"
+  | "MIGRATION_FINISHED"
+  // A revert without a known reason
+  | "REVERTED"
+  | "USER_REJECTED"
+  // The sender cannot pay for gas
+  | "INSUFFICIENT_FUNDS"
+  | "NETWORK_ERROR"
+  | "UNKNOWN";
+
+// Revert reasons of FaceRegistration and what they mean to the caller
+const REVERT_REASONS: Record<string, { code: ContractErrorCode, message: string }> = {
+  "Already registered": { code: "ALREADY_REGISTERED", message: "This wallet is already registered" },
+  "Not registered": { code: "NOT_REGISTERED", message: "This wallet is not registered" },
+  "Attestation expired": { code: "ATTESTATION_EXPIRED", message: "The verifier's attestation has expired; please run the check again" },
+  "Invalid attestation": { code: "INVALID_ATTESTATION", message: "The verifier's attestation does not match this transaction" },
+  "Invalid signature": { code: "INVALID_ATTESTATION", message: "The verifier's attestation does not match this transaction" },
+  "Invalid signature length": { code: "INVALID_ATTESTATION", message: "The verifier's attestation does not match this transaction" },
+  "Recovery pending": { code: "RECOVERY_PENDING", message: "A recovery of this registration is already pending" },
+  "No recovery pending": { code: "NO_RECOVERY_PENDING", message: "There is no pending recovery for this registration" },
+  "Recovery time-locked": { code: "RECOVERY_TIME_LOCKED", message: "The recovery cannot be completed until its time-lock has passed" },
+  "Unknown campaign": { code: "UNKNOWN_CAMPAIGN", message: "Unknown campaign" },
+  "Campaign not started": { code: "CAMPAIGN_NOT_STARTED", message: "Campaign has not started" },
+  "Campaign ended": { code: "CAMPAIGN_ENDED", message: "Campaign has ended" },
+  "Campaign budget exhausted": { code: "CAMPAIGN_BUDGET_EXHAUSTED", message: "Campaign budget exhausted" },
+  "Payment already sent": { code: "PAYMENT_ALREADY_SENT", message: "Payment from this campaign already sent to this person" },
+  "Insufficient contract balance": { code: "INSUFFICIENT_CONTRACT_BALANCE", message: "The contract does not hold enough funds for this payout" },
+  "Token transfer failed": { code: "TOKEN_TRANSFER_FAILED", message: "The payout token transfer failed" },
+  "No claims published": { code: "NO_CLAIMS_PUBLISHED", message: "No claims have been published for this campaign yet" },
+  "Invalid proof": { code: "INVALID_PROOF", message: "This wallet is not in the campaign's published claims" },
+  "Paused": { code: "PAUSED", message: "The contract is paused; please try again later" },
+  "Not authorized": { code: "NOT_AUTHORIZED", message: "This account is not allowed to make this call" },
+  "Migration finished": { code: "MIGRATION_FINISHED", message: "The registration migration has already finished" }
+};
+
+// Custom errors are matched by the PascalCase form of the reason, e.g. AlreadyRegistered()
+const CUSTOM_ERRORS = Object.fromEntries(
+  Object.entries(REVERT_REASONS).map(([reason, known]) => [
+    reason.replace(/(?:^|[\s-])(\w)/g, (_, letter: string) => letter.toUpperCase()),
+    known
+  ])
+);
+
+/**
+ * A failed contract call, with the decoded reason
+ */
+export class ContractCallError extends Error {
+  constructor(
+    readonly code: ContractErrorCode,
+    message: string,
+    // The revert reason or custom error as the contract reported it, if it reverted
+    readonly reason: string | null = null
+  ) {
+    super(message);
+    this.name = "ContractCallError";
+  }
+
+  // Whether the contract refused the call, as opposed to the call not reaching it
+  get reverted(): boolean {
+    return this.reason !== null;
+  }
+}
+
+function revertError(reason: string): ContractCallError {
+  const known = REVERT_REASONS[reason] ?? CUSTOM_ERRORS[reason.replace(/\(.*\)$/, "")];
+  return known
+    ? new ContractCallError(known.code, known.message, reason)
+    : new ContractCallError("REVERTED", `The contract refused the call: ${reason}`, reason);
+}
+
+// The revert of a call exception: a require reason, or a custom error decoded with the ABI
+function revertReason(error: ethers.CallExceptionError, contractInterface?: ethers.Interface): string {
+  if (error.reason) {
+    return error.reason;
+  }
+  const revert = error.revert ?? (error.data && contractInterface ? contractInterface.parseError(error.data) : null);
+  return revert ? `${revert.name}(${revert.args.join(", ")})` : "no reason given";
+}
+
+/**
+ * Decodes why a contract call failed
+ * @param error What the call threw
+ * @param contractInterface The contract's ABI, to decode custom errors ethers did not
+ */
+export function decodeContractError(error: unknown, contractInterface?: ethers.Interface): ContractCallError {
+  if (error instanceof ContractCallError) {
+    return error;
+  }
+  if (ethers.isError(error, "CALL_EXCEPTION")) {
+    return revertError(revertReason(error, contractInterface));
+  }
+  if (ethers.isError(error, "ACTION_REJECTED")) {
+    return new ContractCallError("USER_REJECTED", "The transaction was rejected in the wallet", null);
+  }
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS")) {
+    return new ContractCallError("INSUFFICIENT_FUNDS", "Not enough ETH to pay for gas", null);
+  }
+  if (ethers.isError(error, "NETWORK_ERROR") || ethers.isError(error, "SERVER_ERROR") || ethers.isError(error, "TIMEOUT")) {
+    return new ContractCallError("NETWORK_ERROR", "Could not reach the network; please try again", null);
+  }
+
+  // Wallets that do not surface ethers errors still quote the reason in their message
+  const message = error instanceof Error ? error.message : String(error);
+  const quoted = Object.keys(REVERT_REASONS).find(reason =>
+    message.includes(`"${reason}"`) || message.includes(`'${reason}'`) || message.includes(`reverted: ${reason}`)
+  );
+  if (quoted) {
+    return revertError(quoted);
+  }
+  return new ContractCallError("UNKNOWN", message, null);
+}
+
+/**
+ * Simulates a contract transaction without sending it
+ * @returns The gas limit to send it with
+ * @throws ContractCallError If the contract would refuse it
+ */
+export async function simulateContractCall(
+  contract: ethers.Contract,
+  method: string,
+  args: unknown[],
+  overrides: ethers.Overrides = {}
+): Promise<bigint> {
+  const fn = contract.getFunction(method);
+  try {
+    await fn.staticCall(...args, overrides);
+    return await fn.estimateGas(...args, overrides);
+  } catch (error) {
+    throw decodeContractError(error, contract.interface);
+  }
+}
+
+/**
+ * Simulates a contract transaction, then sends it with the estimated gas limit
+ * @throws ContractCallError If the simulation or the send fails
+ */
+export async function sendContractTransaction(
+  contract: ethers.Contract,
+  method: string,
+  args: unknown[],
+  overrides: ethers.Overrides = {}
+): Promise<ethers.ContractTransactionResponse> {
+  const gasLimit = await simulateContractCall(contract, method, args, overrides);
+  try {
+    return await contract.getFunction(method).send(...args, { gasLimit, ...overrides });
+  } catch (error) {
+    throw decodeContractError(error, contract.interface);
+  }
+}
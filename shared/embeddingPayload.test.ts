@@ -0,0 +1,73 @@
+import { describe, expect, test } from "bun:test";
+import {
+  ANALYZE_FACE_MODEL,
+  EMBEDDING_PAYLOAD_SCHEMA,
+  EMBEDDING_PAYLOAD_VERSION,
+  EmbeddingModelInfo,
+  createEmbeddingPayload,
+  embeddingModelFor,
+  parseEmbeddingPayload,
+  sameEmbeddingModel,
+  validateEmbeddingPayload
+} from "./embeddingPayload";
+
+const MODEL: EmbeddingModelInfo = { name: "w600k_mbf", dimension: 3, normalization: "l2", preprocessingHash: "ab".repeat(32) };
+
+describe("parseEmbeddingPayload", () => {
+  test("migrates v1 payloads as analyze-face embeddings", () => {
+    const payload = parseEmbeddingPayload({ embedding: [1, 2, 3], timestamp: 1700000000000, version: "1.0" });
+
+    expect(payload).toMatchObject({
+      schema: EMBEDDING_PAYLOAD_SCHEMA,
+      version: EMBEDDING_PAYLOAD_VERSION,
+      embedding: [1, 2, 3],
+      createdAt: 1700000000000,
+      model: { ...ANALYZE_FACE_MODEL, dimension: 3 }
+    });
+    expect(validateEmbeddingPayload(payload)).toEqual([]);
+  });
+
+  test("reads current payloads as they are", () => {
+    const payload = createEmbeddingPayload([0.6, 0.8, 0], MODEL);
+    expect(parseEmbeddingPayload(JSON.parse(JSON.stringify(payload)))).toEqual(payload);
+  });
+
+  test("refuses payloads matching no version", () => {
+    expect(() => parseEmbeddingPayload({ embedding: [], timestamp: 0, version: "1.0" })).toThrow("Invalid embedding payload");
+    expect(() => parseEmbeddingPayload({ ...createEmbeddingPayload([1, 2, 3], MODEL), version: 3 })).toThrow("version must be");
+    expect(() => parseEmbeddingPayload("not a payload")).toThrow("payload must be an object");
+  });
+});
+
+describe("validateEmbeddingPayload", () => {
+  test("reports every problem", () => {
+    const errors = validateEmbeddingPayload({
+      schema: EMBEDDING_PAYLOAD_SCHEMA,
+      version: EMBEDDING_PAYLOAD_VERSION,
+      createdAt: 0,
+      model: { name: "", dimension: 0, normalization: "l1", preprocessingHash: "xyz" },
+      embedding: [1, Number.NaN]
+    });
+    expect(errors).toHaveLength(5);
+  });
+
+  test("refuses embeddings whose length differs from the model's dimension", () => {
+    const payload = { ...createEmbeddingPayload([1, 2, 3], MODEL), embedding: [1, 2] };
+    expect(validateEmbeddingPayload(payload)).toEqual(["embedding has 2 dimensions but model.dimension is 3"]);
+  });
+});
+
+describe("embedding models", () => {
+  test("are the same only when every field matches", () => {
+    expect(sameEmbeddingModel(MODEL, { ...MODEL })).toBe(true);
+    expect(sameEmbeddingModel(MODEL, { ...MODEL, name: "other" })).toBe(false);
+    expect(sameEmbeddingModel(MODEL, { ...MODEL, dimension: 512 })).toBe(false);
+    expect(sameEmbeddingModel(MODEL, { ...MODEL, normalization: "none" })).toBe(false);
+    expect(sameEmbeddingModel(MODEL, { ...MODEL, preprocessingHash: "cd".repeat(32) })).toBe(false);
+  });
+
+  test("take their dimension from the embedding unless they fix one", () => {
+    expect(embeddingModelFor(ANALYZE_FACE_MODEL, 128).dimension).toBe(128);
+    expect(() => embeddingModelFor(MODEL, 512)).toThrow("produces 3-dimensional embeddings");
+  });
+});
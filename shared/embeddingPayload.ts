@@ -0,0 +1,281 @@
+// Face embedding payload format shared by the frontend and the backend.
+// Keep this module free of browser- and Node-specific APIs; both sides import it.
+
+export const EMBEDDING_PAYLOAD_SCHEMA = "intellifi.face-embedding";
+export const EMBEDDING_PAYLOAD_VERSION = 2;
+
+export type EmbeddingNormalization = "none" | "l2";
+
+const NORMALIZATIONS: EmbeddingNormalization[] = ["none", "l2"];
+
+// Identifies the model and preprocessing that produced an embedding.
+// Embeddings are only comparable when all of these fields match.
+export interface EmbeddingModelInfo {
+  name: string;
+  dimension: number;
+  normalization: EmbeddingNormalization;
+  // SHA-256 (hex) identifying the preprocessing applied before the model ran
+  preprocessingHash: string;
+}
+
+// A model description whose dimension is taken from the embedding itself
+export type EmbeddingModelSpec = Omit<EmbeddingModelInfo, "dimension"> & { dimension?: number };
+
+// Quality measurements of one enrollment frame
+export interface TemplateFrameQuality {
+  // Detector confidence, if the provider reports one
+  detectorScore: number | null;
+  // Face box width relative to the frame width, if known
+  faceSize: number | null;
+  // Mean absolute Laplacian of the frame's luma; low values mean blur
+  sharpness: number;
+  // Mean luma, 0-255
+  brightness: number;
+  // Cosine similarity to the final template; null if the frame had no usable embedding
+  similarityToTemplate: number | null;
+  accepted: boolean;
+}
+
+// How a multi-frame template was built
+export interface EmbeddingTemplateInfo {
+  // Mean of the accepted L2-normalized frame embeddings, re-normalized
+  method: "mean-l2";
+  frames: TemplateFrameQuality[];
+}
+
+export interface EmbeddingPayloadOptions {
+  createdAt?: number;
+  template?: EmbeddingTemplateInfo;
+}
+
+// Current payload format
+export interface EmbeddingPayload {
+  schema: typeof EMBEDDING_PAYLOAD_SCHEMA;
+  version: typeof EMBEDDING_PAYLOAD_VERSION;
+  model: EmbeddingModelInfo;
+  embedding: number[];
+  createdAt: number;
+  // Present when the embedding is a template averaged over several frames
+  template?: EmbeddingTemplateInfo;
+}
+
+// Original untyped payload, pinned before the model was recorded
+export interface EmbeddingPayloadV1 {
+  embedding: number[];
+  timestamp: number;
+  version: "1.0";
+}
+
+// The hosted analyze-face API, which produced every v1 payload. Its preprocessing
+// runs server-side and is not visible to us, so the hash is sha256("analyze-face").
+export const ANALYZE_FACE_MODEL: EmbeddingModelSpec = {
+  name: "analyze-face",
+  normalization: "none",
+  preprocessingHash: "377fd6c96eeef721df49d01d8d4f9efbad6a94c14c4d68beb6bc77e70e9bc320"
+};
+
+/**
+ * Completes a model description with the dimension of an embedding it produced
+ * @throws If the description fixes a different dimension
+ */
+export function embeddingModelFor(spec: EmbeddingModelSpec, dimension: number): EmbeddingModelInfo {
+  if (spec.dimension !== undefined && spec.dimension !== dimension) {
+    throw new Error(`Model ${spec.name} produces ${spec.dimension}-dimensional embeddings, got ${dimension}`);
+  }
+  return { ...spec, dimension };
+}
+
+// Stable identifier for a model, e.g. for cache keys and log messages
+export function embeddingModelKey(model: EmbeddingModelInfo): string {
+  return `${model.name}/${model.dimension}/${model.normalization}/${model.preprocessingHash}`;
+}
+
+export function sameEmbeddingModel(a: EmbeddingModelInfo, b: EmbeddingModelInfo): boolean {
+  return embeddingModelKey(a) === embeddingModelKey(b);
+}
+
+/**
+ * Builds a current-version payload for an embedding
+ * @param embedding The face embedding
+ * @param model The model that produced it
+ * @param options Creation time and, for multi-frame templates, how the template was built
+ */
+export function createEmbeddingPayload(
+  embedding: ArrayLike<number>,
+  model: EmbeddingModelSpec,
+  { createdAt = Date.now(), template }: EmbeddingPayloadOptions = {}
+): EmbeddingPayload {
+  return {
+    schema: EMBEDDING_PAYLOAD_SCHEMA,
+    version: EMBEDDING_PAYLOAD_VERSION,
+    model: embeddingModelFor(model, embedding.length),
+    embedding: Array.from(embedding),
+    createdAt,
+    ...(template ? { template } : {})
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateEmbedding(value: unknown, errors: string[]): void {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push("embedding must be a non-empty array");
+  } else if (!value.every(component => typeof component === "number" && Number.isFinite(component))) {
+    errors.push("embedding must only contain finite numbers");
+  }
+}
+
+/**
+ * Checks a model description
+ * @returns A list of problems; empty if the description is valid
+ */
+export function validateEmbeddingModel(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ["model must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (typeof value.name !== "string" || value.name === "") {
+    errors.push("model.name must be a non-empty string");
+  }
+  if (typeof value.dimension !== "number" || !Number.isInteger(value.dimension) || value.dimension <= 0) {
+    errors.push("model.dimension must be a positive integer");
+  }
+  if (!NORMALIZATIONS.includes(value.normalization as EmbeddingNormalization)) {
+    errors.push(`model.normalization must be one of ${NORMALIZATIONS.join(", ")}`);
+  }
+  if (typeof value.preprocessingHash !== "string" || !/^[0-9a-f]{64}$/.test(value.preprocessingHash)) {
+    errors.push("model.preprocessingHash must be a hex SHA-256 digest");
+  }
+  return errors;
+}
+
+function isNumberOrNull(value: unknown): boolean {
+  return value === null || (typeof value === "number" && Number.isFinite(value));
+}
+
+/**
+ * Checks multi-frame template metadata
+ * @returns A list of problems; empty if the metadata is valid
+ */
+export function validateTemplateInfo(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ["template must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (value.method !== "mean-l2") {
+    errors.push(`template.method must be "mean-l2"`);
+  }
+  if (!Array.isArray(value.frames) || value.frames.length === 0) {
+    errors.push("template.frames must be a non-empty array");
+    return errors;
+  }
+
+  value.frames.forEach((frame: unknown, index: number) => {
+    if (!isRecord(frame)) {
+      errors.push(`template.frames[${index}] must be an object`);
+    } else if (
+      !isNumberOrNull(frame.detectorScore) ||
+      !isNumberOrNull(frame.faceSize) ||
+      !isNumberOrNull(frame.similarityToTemplate) ||
+      typeof frame.sharpness !== "number" ||
+      typeof frame.brightness !== "number" ||
+      typeof frame.accepted !== "boolean"
+    ) {
+      errors.push(`template.frames[${index}] has invalid quality fields`);
+    }
+  });
+
+  if (!value.frames.some((frame: unknown) => isRecord(frame) && frame.accepted === true)) {
+    errors.push("template must have at least one accepted frame");
+  }
+  return errors;
+}
+
+/**
+ * Checks a payload against the current schema
+ * @returns A list of problems; empty if the payload is valid
+ */
+export function validateEmbeddingPayload(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ["payload must be an object"];
+  }
+
+  const errors: string[] = [];
+  if (value.schema !== EMBEDDING_PAYLOAD_SCHEMA) {
+    errors.push(`schema must be "${EMBEDDING_PAYLOAD_SCHEMA}"`);
+  }
+  if (value.version !== EMBEDDING_PAYLOAD_VERSION) {
+    errors.push(`version must be ${EMBEDDING_PAYLOAD_VERSION}`);
+  }
+  if (typeof value.createdAt !== "number" || !Number.isFinite(value.createdAt)) {
+    errors.push("createdAt must be a timestamp");
+  }
+
+  errors.push(...validateEmbeddingModel(value.model));
+  validateEmbedding(value.embedding, errors);
+  if (value.template !== undefined) {
+    errors.push(...validateTemplateInfo(value.template));
+  }
+
+  if (errors.length === 0) {
+    const model = value.model as EmbeddingModelInfo;
+    const embedding = value.embedding as number[];
+    if (model.dimension !== embedding.length) {
+      errors.push(`embedding has ${embedding.length} dimensions but model.dimension is ${model.dimension}`);
+    }
+  }
+  return errors;
+}
+
+export function isEmbeddingPayload(value: unknown): value is EmbeddingPayload {
+  return validateEmbeddingPayload(value).length === 0;
+}
+
+function isEmbeddingPayloadV1(value: unknown): value is EmbeddingPayloadV1 {
+  if (!isRecord(value) || value.version !== "1.0" || "schema" in value) {
+    return false;
+  }
+  const errors: string[] = [];
+  validateEmbedding(value.embedding, errors);
+  return errors.length === 0;
+}
+
+/**
+ * Upgrades a v1 payload. v1 payloads were all produced by the analyze-face API.
+ */
+export function migrateEmbeddingPayloadV1(payload: EmbeddingPayloadV1): EmbeddingPayload {
+  const createdAt = typeof payload.timestamp === "number" ? payload.timestamp : 0;
+  return createEmbeddingPayload(payload.embedding, ANALYZE_FACE_MODEL, { createdAt });
+}
+
+/**
+ * Validates a payload read from IPFS, migrating older versions to the current one
+ * @param value The parsed JSON content
+ * @returns The payload in the current format
+ * @throws If the payload matches no known version
+ */
+export function parseEmbeddingPayload(value: unknown): EmbeddingPayload {
+  if (isEmbeddingPayloadV1(value)) {
+    return migrateEmbeddingPayloadV1(value);
+  }
+
+  const errors = validateEmbeddingPayload(value);
+  if (errors.length > 0) {
+    throw new Error(`Invalid embedding payload: ${errors.join("; ")}`);
+  }
+  return value as EmbeddingPayload;
+}
+
+/**
+ * Refuses to compare embeddings produced by different models
+ * @throws If the models differ
+ */
+export function assertComparableModels(a: EmbeddingModelInfo, b: EmbeddingModelInfo): void {
+  if (!sameEmbeddingModel(a, b)) {
+    throw new Error(`Cannot compare embeddings from different models: ${embeddingModelKey(a)} vs ${embeddingModelKey(b)}`);
+  }
+}
@@ -0,0 +1,107 @@
+// Decoding of the SCRFD face detector's outputs. Shared by the frontend, which runs the detector
+// on webcam frames, and the backend, which runs it on images sent for verification, so both find
+// the same faces.
+
+// Detector input preprocessing: the image is letterboxed into a square input
+export const DETECTOR_INPUT_SIZE = 640;
+export const DETECTOR_MEAN = 127.5;
+export const DETECTOR_STD = 128;
+
+// SCRFD feature map strides and anchors per location
+export const DETECTOR_STRIDES = [8, 16, 32];
+const ANCHORS_PER_LOCATION = 2;
+const DETECTION_THRESHOLD = 0.5;
+const NMS_IOU_THRESHOLD = 0.4;
+
+export type Point = [number, number];
+
+export interface DetectedBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// SCRFD outputs for one stride: scores, box distances and, if requested, landmark offsets from
+// each anchor, in stride units
+export interface DetectorLevel {
+  stride: number;
+  scores: Float32Array;
+  boxes: Float32Array;
+  landmarks?: Float32Array;
+}
+
+// A decoded face with its five landmarks, if decoded: left eye, right eye, nose tip, left and
+// right mouth corners (as they appear in the image)
+export interface DecodedFace {
+  box: DetectedBox;
+  score: number;
+  landmarks: Point[];
+}
+
+export function boxIou(a: DetectedBox, b: DetectedBox): number {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Decodes SCRFD outputs into faces in source image pixels
+ * @param scale How much the image was scaled to fit the detector input
+ * @param bounds The image size to clamp boxes to, since faces at the edge are predicted past it
+ * @returns Faces after non-maximum suppression, highest score first
+ */
+export function decodeDetections(levels: DetectorLevel[], scale: number, bounds?: { width: number, height: number }): DecodedFace[] {
+  const detections: DecodedFace[] = [];
+  for (const { stride, scores, boxes, landmarks } of levels) {
+    const columns = Math.ceil(DETECTOR_INPUT_SIZE / stride);
+    for (let i = 0; i < scores.length; i++) {
+      if (scores[i] < DETECTION_THRESHOLD) {
+        continue;
+      }
+
+      const location = Math.floor(i / ANCHORS_PER_LOCATION);
+      const centerX = (location % columns) * stride;
+      const centerY = Math.floor(location / columns) * stride;
+
+      // Distances are predicted in stride units; map back to source pixels
+      let x1 = (centerX - boxes[i * 4] * stride) / scale;
+      let y1 = (centerY - boxes[i * 4 + 1] * stride) / scale;
+      let x2 = (centerX + boxes[i * 4 + 2] * stride) / scale;
+      let y2 = (centerY + boxes[i * 4 + 3] * stride) / scale;
+      if (bounds) {
+        x1 = Math.max(0, x1);
+        y1 = Math.max(0, y1);
+        x2 = Math.min(bounds.width, x2);
+        y2 = Math.min(bounds.height, y2);
+        if (x2 <= x1 || y2 <= y1) {
+          continue;
+        }
+      }
+
+      const points: Point[] = [];
+      if (landmarks) {
+        for (let k = 0; k < 5; k++) {
+          points.push([
+            (centerX + landmarks[i * 10 + k * 2] * stride) / scale,
+            (centerY + landmarks[i * 10 + k * 2 + 1] * stride) / scale
+          ]);
+        }
+      }
+
+      detections.push({ box: { x: x1, y: y1, width: x2 - x1, height: y2 - y1 }, score: scores[i], landmarks: points });
+    }
+  }
+
+  const kept: DecodedFace[] = [];
+  for (const detection of detections.sort((a, b) => b.score - a.score)) {
+    if (kept.every(other => boxIou(other.box, detection.box) < NMS_IOU_THRESHOLD)) {
+      kept.push(detection);
+    }
+  }
+  return kept;
+}
@@ -0,0 +1,11 @@
+import { describe, expect, test } from "bun:test";
+import { createHash } from "crypto";
+import { EMBEDDER_PREPROCESSING, EMBEDDER_PREPROCESSING_HASH, W600K_MBF_MODEL } from "./faceEmbedding";
+import { validateEmbeddingModel } from "./embeddingPayload";
+
+describe("W600K_MBF_MODEL", () => {
+  test("is identified by the hash of the embedder's preprocessing", () => {
+    expect(createHash("sha256").update(JSON.stringify(EMBEDDER_PREPROCESSING)).digest("hex")).toBe(EMBEDDER_PREPROCESSING_HASH);
+    expect(validateEmbeddingModel(W600K_MBF_MODEL)).toEqual([]);
+  });
+});
@@ -0,0 +1,81 @@
+// The ArcFace-style face embedder (w600k_mbf by default). The frontend runs it in the browser
+// on webcam frames and the backend on images sent for verification; sharing the preprocessing
+// and alignment keeps their embeddings comparable.
+
+import { EmbeddingModelSpec } from "./embeddingPayload";
+import { DETECTOR_INPUT_SIZE, DETECTOR_MEAN, DETECTOR_STD, Point } from "./faceDetection";
+
+// Everything that happens to an image before the embedder sees it. Hashed into the
+// model's preprocessingHash, so changing any of it makes old embeddings incomparable.
+export const EMBEDDER_PREPROCESSING = {
+  detector: "scrfd",
+  detectorInputSize: DETECTOR_INPUT_SIZE,
+  detectorMean: DETECTOR_MEAN,
+  detectorStd: DETECTOR_STD,
+  alignment: "arcface-5-point-similarity",
+  cropSize: 112,
+  embedderMean: 127.5,
+  embedderStd: 127.5,
+  channels: "RGB"
+};
+
+// sha256(JSON.stringify(EMBEDDER_PREPROCESSING)), kept as a constant so both sides can name
+// the model without hashing; faceEmbedding.test.ts checks it still matches
+export const EMBEDDER_PREPROCESSING_HASH = "9db46f118c0f9b3e85866eced810f0612175fe779ba6a5676e082aaa4ae67067";
+
+// The default embedder, InsightFace's MobileFaceNet trained on WebFace600K
+export const W600K_MBF_MODEL: EmbeddingModelSpec = {
+  name: "w600k_mbf",
+  dimension: 512,
+  normalization: "l2",
+  preprocessingHash: EMBEDDER_PREPROCESSING_HASH
+};
+
+// Landmark positions (eyes, nose, mouth corners) in the 112x112 ArcFace crop
+export const ARCFACE_LANDMARKS: Point[] = [
+  [38.2946, 51.6963],
+  [73.5318, 51.5014],
+  [56.0252, 71.7366],
+  [41.5493, 92.3655],
+  [70.7299, 92.2041]
+];
+
+// Model name from its file name, e.g. "/models/w600k_mbf.onnx" -> "w600k_mbf"
+export function embedderModelName(path: string): string {
+  const file = path.split("/").pop() || path;
+  return file.replace(/\.onnx$/, "");
+}
+
+/**
+ * Least-squares similarity transform (rotation, uniform scale, translation)
+ * mapping the detected landmarks onto the ArcFace template
+ * @returns Transform coefficients [a, b, c, d, e, f], as a canvas takes them: a landmark at
+ *   (x, y) lands at (a * x + c * y + e, b * x + d * y + f)
+ */
+export function estimateAlignment(landmarks: Point[]): [number, number, number, number, number, number] {
+  const n = landmarks.length;
+  let srcX = 0, srcY = 0, dstX = 0, dstY = 0;
+  for (let i = 0; i < n; i++) {
+    srcX += landmarks[i][0] / n;
+    srcY += landmarks[i][1] / n;
+    dstX += ARCFACE_LANDMARKS[i][0] / n;
+    dstY += ARCFACE_LANDMARKS[i][1] / n;
+  }
+
+  let dot = 0, cross = 0, norm = 0;
+  for (let i = 0; i < n; i++) {
+    const sx = landmarks[i][0] - srcX;
+    const sy = landmarks[i][1] - srcY;
+    const dx = ARCFACE_LANDMARKS[i][0] - dstX;
+    const dy = ARCFACE_LANDMARKS[i][1] - dstY;
+    dot += sx * dx + sy * dy;
+    cross += sx * dy - sy * dx;
+    norm += sx * sx + sy * sy;
+  }
+
+  const a = dot / norm;
+  const b = cross / norm;
+  const tx = dstX - (a * srcX - b * srcY);
+  const ty = dstY - (b * srcX + a * srcY);
+  return [a, b, -b, a, tx, ty];
+}
@@ -0,0 +1,65 @@
+// When a capture counts as live. Shared by the frontend, which runs the checks, and
+// the backend, which only attests to captures that came with passing evidence.
+//
+// The evidence is measured and reported by the browser. Requiring it stops captures
+// that skipped the check, but a modified client can still report passing numbers.
+
+export type LivenessChallenge = "blink" | "turnLeft" | "turnRight" | "smile";
+
+const CHALLENGES: LivenessChallenge[] = ["blink", "turnLeft", "turnRight", "smile"];
+
+// Minimum fine texture (mean Laplacian relative to contrast); recaptured prints are flatter
+export const MIN_TEXTURE_SCORE = 0.08;
+// Maximum spectral peak relative to its frequency ring; screens and halftone prints
+// produce sharp periodic peaks (moiré) that natural skin does not
+export const MAX_MOIRE_SCORE = 9;
+
+// Distinct challenges a capture must have passed
+export const MIN_LIVENESS_CHALLENGES = 2;
+
+// How long after the check its evidence is accepted, covering the IPFS upload in between
+export const LIVENESS_EVIDENCE_TTL_SECONDS = 15 * 60;
+
+// What the frontend's liveness check sends along with an attestation request
+export interface LivenessEvidence {
+  // Challenges performed and passed, in order
+  challenges: LivenessChallenge[];
+  textureScore: number;
+  moireScore: number;
+  // When the check ran, in Unix seconds
+  checkedAt: number;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+/**
+ * Checks liveness evidence sent with an attestation request
+ * @param now The current time, in Unix seconds
+ * @returns A list of problems; empty if the evidence shows a live capture
+ */
+export function validateLivenessEvidence(value: unknown, now: number): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return ["liveness evidence is required"];
+  }
+  const evidence = value as Record<string, unknown>;
+
+  const errors: string[] = [];
+  const challenges = evidence.challenges;
+  if (!Array.isArray(challenges) || !challenges.every(challenge => CHALLENGES.includes(challenge))) {
+    errors.push(`liveness.challenges must list challenges among ${CHALLENGES.join(", ")}`);
+  } else if (new Set(challenges).size < MIN_LIVENESS_CHALLENGES) {
+    errors.push(`liveness.challenges must include at least ${MIN_LIVENESS_CHALLENGES} distinct challenges`);
+  }
+  if (!isFiniteNumber(evidence.textureScore) || evidence.textureScore < MIN_TEXTURE_SCORE) {
+    errors.push(`liveness.textureScore must be at least ${MIN_TEXTURE_SCORE}`);
+  }
+  if (!isFiniteNumber(evidence.moireScore) || evidence.moireScore > MAX_MOIRE_SCORE) {
+    errors.push(`liveness.moireScore must be at most ${MAX_MOIRE_SCORE}`);
+  }
+  if (!isFiniteNumber(evidence.checkedAt) || evidence.checkedAt > now + 60 || evidence.checkedAt < now - LIVENESS_EVIDENCE_TTL_SECONDS) {
+    errors.push("liveness.checkedAt is missing or too old; run the liveness check again");
+  }
+  return errors;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, test } from "bun:test";
+import { DEFAULT_SIMILARITY_POLICY, classifySimilarity, hasSimilarityPolicy, similarityPolicyFor } from "./similarityPolicy";
+
+describe("classifySimilarity", () => {
+  const policy = { threshold: 0.4, reviewThreshold: 0.35 };
+
+  test("matches at and above the threshold", () => {
+    expect(classifySimilarity(0.4, policy)).toBe("match");
+    expect(classifySimilarity(0.9, policy)).toBe("match");
+  });
+
+  test("sends the band below the threshold to review", () => {
+    expect(classifySimilarity(0.35, policy)).toBe("uncertain");
+    expect(classifySimilarity(0.399, policy)).toBe("uncertain");
+  });
+
+  test("does not match below the review band", () => {
+    expect(classifySimilarity(0.349, policy)).toBe("no-match");
+    expect(classifySimilarity(-1, policy)).toBe("no-match");
+  });
+});
+
+describe("similarityPolicyFor", () => {
+  test("uses each model's own policy", () => {
+    const fixture = similarityPolicyFor({ name: "fixture-thumbnail" });
+    expect(fixture.threshold).toBeGreaterThan(DEFAULT_SIMILARITY_POLICY.threshold);
+    expect(fixture.reviewThreshold).toBeLessThan(fixture.threshold);
+  });
+
+  test("keeps every review band below its threshold", () => {
+    for (const name of ["analyze-face", "w600k_mbf", "fixture-thumbnail"]) {
+      const policy = similarityPolicyFor({ name });
+      expect(policy.reviewThreshold).toBeLessThan(policy.threshold);
+    }
+  });
+
+  test("tells calibrated models from those that fall back to the default", () => {
+    expect(hasSimilarityPolicy({ name: "w600k_mbf" })).toBe(true);
+    expect(hasSimilarityPolicy({ name: "unknown-model" })).toBe(false);
+    expect(hasSimilarityPolicy({ name: "toString" })).toBe(false);
+    expect(similarityPolicyFor({ name: "unknown-model" })).toBe(DEFAULT_SIMILARITY_POLICY);
+  });
+});
@@ -0,0 +1,57 @@
+// When two face embeddings count as the same person. Shared by the frontend and
+// the backend so every comparison uses the same numbers; tune them with
+// `bun run calibrate` in the backend.
+
+import { EmbeddingModelInfo } from "./embeddingPayload";
+
+// How a similarity is compared with a threshold: a similarity equal to the threshold matches
+export const SIMILARITY_OPERATOR = ">=";
+
+export type SimilarityDecision = "match" | "uncertain" | "no-match";
+
+export interface SimilarityPolicy {
+  // Cosine similarities at or above this are the same person
+  threshold: number;
+  // Similarities in [reviewThreshold, threshold) are too close to call and go to manual review
+  reviewThreshold: number;
+}
+
+// Policy for each model, keyed by model name
+const SIMILARITY_POLICIES: Record<string, SimilarityPolicy> = {
+  "analyze-face": { threshold: 0.40, reviewThreshold: 0.35 },
+  "w600k_mbf": { threshold: 0.40, reviewThreshold: 0.32 },
+  // Raw-pixel thumbnails used in development; only near-identical images match
+  "fixture-thumbnail": { threshold: 0.90, reviewThreshold: 0.85 }
+};
+
+// Used for models without a calibrated policy
+export const DEFAULT_SIMILARITY_POLICY: SimilarityPolicy = SIMILARITY_POLICIES["analyze-face"];
+
+// Whether a model has a calibrated policy of its own
+export function hasSimilarityPolicy(model: Pick<EmbeddingModelInfo, "name">): boolean {
+  return Object.prototype.hasOwnProperty.call(SIMILARITY_POLICIES, model.name);
+}
+
+export function similarityPolicyFor(model: Pick<EmbeddingModelInfo, "name">): SimilarityPolicy {
+  return SIMILARITY_POLICIES[model.name] ?? DEFAULT_SIMILARITY_POLICY;
+}
+
+// Applies SIMILARITY_OPERATOR
+export function meetsThreshold(similarity: number, threshold: number): boolean {
+  return similarity >= threshold;
+}
+
+/**
+ * Classifies the similarity of two embeddings
+ * @param similarity Cosine similarity of the embeddings
+ * @param policy The policy of the model that produced them
+ */
+export function classifySimilarity(similarity: number, policy: SimilarityPolicy): SimilarityDecision {
+  if (meetsThreshold(similarity, policy.threshold)) {
+    return "match";
+  }
+  if (meetsThreshold(similarity, policy.reviewThreshold)) {
+    return "uncertain";
+  }
+  return "no-match";
+}
@@ -1,11 +1,20 @@
 import React, { useState, useCallback, useRef } from 'react';
 import Webcam from 'react-webcam';
 import { useFaceProcessing } from '../hooks/useFaceProcessing';
+import { useLivenessCheck } from '../hooks/useLivenessCheck';
+import { CHALLENGE_PROMPTS } from '../services/LivenessService';
 import { uploadToIPFS } from '../utils/ipfsUtils';
+import { VerifierApiService } from '../services/VerifierApiService';
+import { EmbeddingModelInfo, createEmbeddingPayload } from '../../shared/embeddingPayload';
+import { LivenessEvidence } from '../../shared/livenessPolicy';
 import { CheckCircleIcon, ExclamationTriangleIcon, CameraIcon } from '@heroicons/react/24/outline';
 
+// Extra frames captured after the liveness check, spread across small head movements
+const ENROLLMENT_FRAMES = 5;
+const ENROLLMENT_INTERVAL_MS = 400;
+
 interface FaceProcessorProps {
-  onHashGenerated?: (hash: string, embedding?: Float32Array) => void;
+  onHashGenerated?: (hash: string, embedding?: Float32Array, model?: EmbeddingModelInfo, liveness?: LivenessEvidence) => void;
   onIpfsHashGenerated?: (ipfsHash: string) => void;
   hasWallet?: boolean;
 }
@@ -24,6 +33,7 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
   const [isCameraTesting, setIsCameraTesting] = useState(false);
   const [cameraTestResult, setCameraTestResult] = useState<'success' | 'warning' | 'error' | null>(null);
   const [cameraTestMessage, setCameraTestMessage] = useState<string | null>(null);
+  const [isEnrolling, setIsEnrolling] = useState(false);
 
   const { 
     modelLoading, 
@@ -33,10 +43,20 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
     isFaceRegistered,
     similarity,
     faceEmbedding,
-    processImage,
+    embeddingModel,
+    templateInfo,
+    processFrames,
     resetFaceProcessing
   } = useFaceProcessing();
 
+  const {
+    isChecking: isCheckingLiveness,
+    currentChallenge,
+    result: livenessResult,
+    runLivenessCheck,
+    resetLiveness
+  } = useLivenessCheck();
+
   // Turn camera on
   const turnOnCamera = useCallback(() => {
     setIsCameraOn(true);
@@ -153,36 +173,71 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
     });
   }, []);
 
-  // Capture image from webcam
-  const captureImage = useCallback(() => {
-    if (webcamRef.current) {
-      const imageSrc = webcamRef.current.getScreenshot();
-      if (imageSrc) {
-        setCapturedImage(imageSrc);
-        
-        // Check if the image has a face before processing
-        checkImageQuality(imageSrc).then(qualityCheck => {
-          if (qualityCheck.hasIssues) {
-            showToast(
-              "Image quality issue", 
-              qualityCheck.message || "Please ensure good lighting and face visibility", 
-              "warning"
-            );
-            // Still process the image, but warn the user
-          }
-          processImage(imageSrc);
-        });
+  // Capture frames for the enrollment template while the user moves slightly
+  const captureEnrollmentFrames = useCallback(async (): Promise<string[]> => {
+    const frames: string[] = [];
+    try {
+      setIsEnrolling(true);
+      for (let i = 0; i < ENROLLMENT_FRAMES; i++) {
+        await new Promise(resolve => setTimeout(resolve, ENROLLMENT_INTERVAL_MS));
+        const frame = webcamRef.current?.getScreenshot();
+        if (frame) {
+          frames.push(frame);
+        }
       }
+    } finally {
+      setIsEnrolling(false);
+    }
+    return frames;
+  }, []);
+
+  // Run the liveness check, then capture the verified frame and enrollment frames
+  const captureImage = useCallback(async () => {
+    if (!webcamRef.current) {
+      return;
+    }
+
+    const liveness = await runLivenessCheck(() => webcamRef.current?.getScreenshot() ?? null);
+    if (!liveness.passed || !liveness.frame) {
+      showToast(
+        "Liveness check failed",
+        liveness.reason || "Please follow the on-screen prompts and try again",
+        "error"
+      );
+      return;
+    }
+
+    const imageSrc = liveness.frame;
+    const enrollmentFrames = await captureEnrollmentFrames();
+    setCapturedImage(imageSrc);
+    
+    // Check if the image has a face before processing
+    const qualityCheck = await checkImageQuality(imageSrc);
+    if (qualityCheck.hasIssues) {
+      showToast(
+        "Image quality issue", 
+        qualityCheck.message || "Please ensure good lighting and face visibility", 
+        "warning"
+      );
+      // Still process the image, but warn the user
     }
-  }, [processImage, checkImageQuality]);
+    // The verified frame anchors the template
+    processFrames([imageSrc, ...enrollmentFrames]);
+  }, [processFrames, checkImageQuality, runLivenessCheck, captureEnrollmentFrames, showToast]);
 
   // Upload face embedding to IPFS and check for similar faces
   const registerOnline = async () => {
-    if (!faceEmbedding) {
+    if (!faceEmbedding || !embeddingModel) {
       showToast("No face embedding available", "Please capture your face first", "error");
       return null;
     }
 
+    // Registration is blocked until the capture passed the liveness check
+    if (!livenessResult?.passed) {
+      showToast("Liveness check required", "Please capture your face again and follow the prompts", "error");
+      return null;
+    }
+
     // If already uploaded to IPFS, don't upload again
     if (ipfsHash) {
       showToast("Already uploaded", "Face embedding already uploaded to IPFS", "warning");
@@ -191,15 +246,12 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
 
     try {
       setIsUploading(true);
-      // Convert Float32Array to regular array for JSON serialization
-      const embeddingArray = Array.from(faceEmbedding);
       
-      // Upload to IPFS
-      const newIpfsHash = await uploadToIPFS({
-        embedding: embeddingArray,
-        timestamp: Date.now(),
-        version: "1.0"
-      });
+      // Encrypt to the verifier so the embedding is never public, then upload to IPFS
+      const envelope = await VerifierApiService.sealEmbeddingPayload(
+        createEmbeddingPayload(faceEmbedding, embeddingModel, { template: templateInfo ?? undefined })
+      );
+      const newIpfsHash = await uploadToIPFS(envelope);
       
       setIpfsHash(newIpfsHash);
       
@@ -210,7 +262,7 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
       
       // Call the callback with hash and embedding if we have a face hash
       if (onHashGenerated && hash) {
-        onHashGenerated(hash, faceEmbedding);
+        onHashGenerated(hash, faceEmbedding, embeddingModel, livenessResult.evidence);
       }
       
       showToast("Face embedding uploaded to IPFS", `Ready to register on blockchain`, "success");
@@ -229,6 +281,7 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
   const resetCapture = () => {
     setCapturedImage(null);
     setIpfsHash(null);
+    resetLiveness();
     resetFaceProcessing();
   };
 
@@ -237,6 +290,7 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
     setIsCameraOn(false);
     setCapturedImage(null);
     setIpfsHash(null);
+    resetLiveness();
     resetFaceProcessing();
   };
 
@@ -379,6 +433,24 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
           />
         )}
         
+        {/* Liveness challenge prompt */}
+        {isCameraOn && currentChallenge && (
+          <div className="absolute top-3 left-0 right-0 flex justify-center">
+            <p className="bg-indigo-600/90 text-white font-bold py-2 px-4 rounded-md shadow-lg">
+              {CHALLENGE_PROMPTS[currentChallenge]}
+            </p>
+          </div>
+        )}
+        
+        {/* Enrollment prompt */}
+        {isCameraOn && isEnrolling && (
+          <div className="absolute top-3 left-0 right-0 flex justify-center">
+            <p className="bg-indigo-600/90 text-white font-bold py-2 px-4 rounded-md shadow-lg">
+              Hold still and move your head slightly
+            </p>
+          </div>
+        )}
+        
         {/* Loading overlay */}
         {isCameraOn && (modelLoading || isProcessing || isUploading) && (
           <div className="absolute inset-0 bg-black bg-opacity-50 rounded-lg flex justify-center items-center flex-col">
@@ -390,6 +462,30 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
         )}
       </div>
       
+      {/* Liveness result */}
+      {livenessResult && !livenessResult.passed && (
+        <div className="mb-4 p-2 bg-red-900/50 rounded-md">
+          <div className="flex items-center">
+            <ExclamationTriangleIcon className="h-5 w-5 text-red-400 mr-2" />
+            <p className="text-red-400">Liveness check failed: {livenessResult.reason}</p>
+          </div>
+        </div>
+      )}
+      
+      {livenessResult?.passed && (
+        <div className="mb-4 p-2 bg-green-900/50 rounded-md">
+          <div className="flex items-center">
+            <CheckCircleIcon className="h-5 w-5 text-green-400 mr-2" />
+            <p className="text-green-400">Liveness verified</p>
+          </div>
+          {templateInfo && (
+            <p className="text-green-300 text-sm mt-1">
+              Template built from {templateInfo.frames.filter(frame => frame.accepted).length} of {templateInfo.frames.length} frames
+            </p>
+          )}
+        </div>
+      )}
+      
       {/* Status and error messages */}
       {error && (
         <div className="mb-4 p-2 bg-red-900/50 rounded-md">
@@ -496,14 +592,14 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
             <button 
               className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white font-medium py-2 px-4 rounded-md flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
               onClick={captureImage} 
-              disabled={modelLoading}
+              disabled={modelLoading || isCheckingLiveness || isEnrolling}
             >
-              Capture Face
+              {isCheckingLiveness ? 'Checking Liveness...' : isEnrolling ? 'Capturing...' : 'Capture Face'}
             </button>
             <button 
               className="bg-gray-700 hover:bg-gray-600 text-white font-medium py-2 px-4 rounded-md flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
               onClick={testCamera}
-              disabled={isCameraTesting || modelLoading}
+              disabled={isCameraTesting || modelLoading || isCheckingLiveness || isEnrolling}
             >
               {isCameraTesting ? 'Testing...' : 'Test Camera'}
             </button>
@@ -517,7 +613,7 @@ export const FaceProcessor: React.FC<FaceProcessorProps> = ({
               Retake
             </button>
             
-            {hasWallet && hash && !ipfsHash && (
+            {hasWallet && hash && !ipfsHash && livenessResult?.passed && (
               <button 
                 className="bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white font-medium py-2 px-4 rounded-md flex-1 min-w-[120px] disabled:opacity-50 disabled:cursor-not-allowed"
                 onClick={registerOnline}
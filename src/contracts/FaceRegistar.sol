@@ -1,12 +1,83 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.0;
 
+/**
+ * @notice Deployed behind FaceRegistrationProxy, which keeps the address and storage across upgrades.
+ * @dev Upgrades must keep the storage layout: only append new state variables after the existing
+ *      ones, never reorder, retype or remove them.
+ */
 contract FaceRegistration {
-    // Owner of the contract
+    // Owner of the contract; holds every role
     address public owner;
+    
+    // Account the owner has offered ownership to, until it accepts
+    address public pendingOwner;
+    
+    // Manages campaigns, recoveries, roles and withdrawals, and lifts pauses
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+    
+    // Releases payouts and publishes claim roots for any campaign
+    bytes32 public constant PAYER_ROLE = keccak256("PAYER_ROLE");
+    
+    // Rotates the verifier key
+    bytes32 public constant VERIFIER_MANAGER_ROLE = keccak256("VERIFIER_MANAGER_ROLE");
+    
+    // Pauses the contract in an emergency
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    
+    // Role members
+    mapping(bytes32 => mapping(address => bool)) private roleMembers;
+    
+    // While paused, registrations, recovery requests and payouts are refused
+    bool public paused;
+
+    // Key whose EIP-712 attestations authorize registrations
+    address public verifier;
+
+    // EIP-712 type hashes
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    bytes32 private constant ATTESTATION_TYPEHASH = keccak256(
+        "RegistrationAttestation(address wallet,bytes32 faceHash,string ipfsHash,uint256 expiry)"
+    );
+    bytes32 private constant RECOVERY_TYPEHASH = keccak256(
+        "RecoveryAttestation(address oldWallet,address newWallet,bytes32 faceHash,string ipfsHash,uint256 expiry)"
+    );
+
+    // Time between a recovery request and the rebinding, during which the old wallet can cancel it
+    uint256 public constant RECOVERY_DELAY = 3 days;
 
+    // EIP-1967 implementation slot: bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+    bytes32 private constant IMPLEMENTATION_SLOT = 0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+    
+    // This implementation's own address, to tell direct calls from calls through the proxy
+    address private immutable self = address(this);
+    
+    // Whether initialize has run
+    bool private initialized;
+    
+    // While true, admins can copy registrations from the previous deployment
+    bool public migrating;
+
+    // The implementation itself is never initialized; only proxies are
     constructor() {
-        owner = msg.sender;
+        initialized = true;
+    }
+    
+    /**
+     * @notice Set up a proxy's storage. Called once, by FaceRegistrationProxy's constructor.
+     * @param _owner The owner of the contract.
+     * @param _verifier The verifier key.
+     */
+    function initialize(address _owner, address _verifier) external {
+        require(!initialized, "Already initialized");
+        require(_owner != address(0), "Invalid owner");
+        require(_verifier != address(0), "Invalid verifier");
+        initialized = true;
+        owner = _owner;
+        verifier = _verifier;
+        migrating = true;
     }
     
     // Modifier to restrict functions to the owner only
@@ -14,6 +85,18 @@ contract FaceRegistration {
         require(msg.sender == owner, "Not authorized");
         _;
     }
+    
+    // Modifier to restrict functions to members of a role and the owner
+    modifier onlyRole(bytes32 _role) {
+        require(hasRole(_role, msg.sender), "Not authorized");
+        _;
+    }
+    
+    // Modifier to refuse calls while the contract is paused
+    modifier whenNotPaused() {
+        require(!paused, "Paused");
+        _;
+    }
 
     // Structure to store registration details
     struct Registration {
@@ -30,8 +113,52 @@ contract FaceRegistration {
     // Array of registrant addresses (for enumeration if needed)
     address[] public registrants;
     
-    // Separate mapping to track if payment has been sent
-    mapping(address => bool) public paymentSent;
+    // Position of each registrant in registrants, plus one (zero means absent)
+    mapping(address => uint256) private registrantIndex;
+    
+    // A pending move of a registration to a new wallet
+    struct Recovery {
+        address newWallet;    // Wallet that will own the registration
+        bytes32 faceHash;     // Hash of the face captured for the recovery
+        string ipfsHash;      // IPFS hash of the recovery capture
+        uint256 readyAt;      // Earliest time the recovery can complete
+    }
+    
+    // Pending recoveries by the wallet being recovered
+    mapping(address => Recovery) public recoveries;
+    
+    // The wallet being recovered, by the wallet recovering it
+    mapping(address => address) public recoveryFor;
+    
+    // A payout program, e.g. a partner's bounty
+    struct Campaign {
+        uint256 amount;       // Paid to each registrant
+        address token;        // ERC-20 token paid out; zero for ETH
+        uint256 startsAt;     // Payouts are accepted from this time
+        uint256 endsAt;       // Payouts are accepted until this time
+        uint256 budget;       // Cap on the total paid out
+        uint256 spent;        // Total paid out so far
+        address operator;     // Account allowed to release payouts besides the owner
+    }
+    
+    // Campaigns by id; ids start at 1
+    mapping(uint256 => Campaign) public campaigns;
+    
+    // Number of campaigns created, which is also the latest id
+    uint256 public campaignCount;
+    
+    // Identity of each wallet's registration. Recovery carries it to the new wallet and
+    // deregistration leaves it with the wallet, so neither makes a registration payable twice in
+    // a campaign. It follows wallets, not faces: deregistration erases the face data, so the same
+    // person registering again from another wallet gets a new identity.
+    mapping(address => uint256) private identityOf;
+    uint256 private identityCount;
+    
+    // Whether an identity has been paid, by campaign
+    mapping(uint256 => mapping(uint256 => bool)) private campaignPaid;
+    
+    // Merkle root of the wallets allowed to claim from each campaign
+    mapping(uint256 => bytes32) public claimRoots;
     
     // Events for transparency
     event Registered(
@@ -41,51 +168,479 @@ contract FaceRegistration {
         string ipfsHash,
         uint256 timestamp
     );
-    event PaymentSent(address indexed wallet, uint256 amount);
+    event PaymentSent(address indexed wallet, uint256 indexed campaignId, address token, uint256 amount);
+    event CampaignCreated(
+        uint256 indexed campaignId,
+        uint256 amount,
+        address token,
+        uint256 startsAt,
+        uint256 endsAt,
+        uint256 budget,
+        address operator
+    );
+    event CampaignOperatorUpdated(uint256 indexed campaignId, address indexed previousOperator, address indexed newOperator);
+    event ClaimRootUpdated(uint256 indexed campaignId, bytes32 root);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+    event Paused(address account);
+    event Unpaused(address account);
+    event Withdrawn(address indexed token, address indexed to, uint256 amount);
+    event Upgraded(address indexed implementation);
+    event MigrationFinished();
+    event VerifierUpdated(address indexed previousVerifier, address indexed newVerifier);
+    event Deregistered(address indexed wallet, bytes32 faceHash, string ipfsHash, uint256 timestamp);
+    event RecoveryRequested(address indexed oldWallet, address indexed newWallet, uint256 readyAt);
+    event RecoveryCancelled(address indexed oldWallet, address indexed newWallet);
+    event Rebound(
+        address indexed oldWallet,
+        address indexed newWallet,
+        bytes32 faceHash,
+        bytes publicKey,
+        string ipfsHash,
+        uint256 timestamp
+    );
     
     /**
      * @notice Register a user's face hash along with their public key and IPFS hash.
+     * @dev Requires an attestation from the verifier that the face passed the uniqueness check.
      * @param _faceHash The hash of the user's facial data (computed off-chain).
      * @param _publicKey The public key associated with the user's wallet.
      * @param _ipfsHash The IPFS hash containing additional registration data.
+     * @param _expiry Timestamp after which the attestation is no longer accepted.
+     * @param _signature The verifier's EIP-712 signature over the attestation.
      */
     function register(
         bytes32 _faceHash,
         bytes calldata _publicKey,
-        string calldata _ipfsHash
-    ) external {
+        string calldata _ipfsHash,
+        uint256 _expiry,
+        bytes calldata _signature
+    ) external whenNotPaused {
         require(registrations[msg.sender].wallet == address(0), "Already registered");
+        require(block.timestamp <= _expiry, "Attestation expired");
         
-        Registration memory newRegistration = Registration({
+        bytes32 structHash = keccak256(
+            abi.encode(ATTESTATION_TYPEHASH, msg.sender, _faceHash, keccak256(bytes(_ipfsHash)), _expiry)
+        );
+        require(_recoverSigner(_hashTypedData(structHash), _signature) == verifier, "Invalid attestation");
+        
+        _addRegistration(Registration({
             wallet: msg.sender,
             publicKey: _publicKey,
             faceHash: _faceHash,
             ipfsHash: _ipfsHash,
             timestamp: block.timestamp
+        }));
+    }
+    
+    /**
+     * @notice Allows an admin to copy registrations from the previous deployment.
+     * @dev Each copy emits Registered with its original timestamp. Wallets already registered
+     *      are skipped, so an interrupted migration can be re-run.
+     * @param _registrations The registrations, as returned by the previous deployment's getRegistration.
+     */
+    function migrateRegistrations(Registration[] calldata _registrations) external onlyRole(ADMIN_ROLE) {
+        require(migrating, "Migration finished");
+        for (uint256 i = 0; i < _registrations.length; i++) {
+            address wallet = _registrations[i].wallet;
+            if (wallet != address(0) && registrations[wallet].wallet == address(0)) {
+                _addRegistration(_registrations[i]);
+            }
+        }
+    }
+    
+    /**
+     * @notice Allows an admin to end the migration for good, once every registration is copied.
+     */
+    function finishMigration() external onlyRole(ADMIN_ROLE) {
+        require(migrating, "Migration finished");
+        migrating = false;
+        emit MigrationFinished();
+    }
+    
+    /**
+     * @notice Remove the caller's registration, e.g. to exercise their right to erasure.
+     * @dev Cancels any pending recovery of the registration. The wallet keeps its identity, so
+     *      registering it again does not make it eligible for a second payment in a campaign.
+     *      Registering the same face from another wallet does, since its face data is erased.
+     */
+    function deregister() external {
+        Registration memory registration = registrations[msg.sender];
+        require(registration.wallet != address(0), "Not registered");
+        
+        address recoveringWallet = recoveries[msg.sender].newWallet;
+        if (recoveringWallet != address(0)) {
+            delete recoveries[msg.sender];
+            delete recoveryFor[recoveringWallet];
+            emit RecoveryCancelled(msg.sender, recoveringWallet);
+        }
+        
+        delete registrations[msg.sender];
+        
+        // Move the last registrant into the freed slot
+        uint256 index = registrantIndex[msg.sender];
+        address last = registrants[registrants.length - 1];
+        registrants[index - 1] = last;
+        registrantIndex[last] = index;
+        registrants.pop();
+        delete registrantIndex[msg.sender];
+        
+        emit Deregistered(msg.sender, registration.faceHash, registration.ipfsHash, block.timestamp);
+    }
+    
+    /**
+     * @notice Start moving an existing registration to the calling wallet, e.g. after the old wallet was lost.
+     * @dev Requires a verifier attestation that a fresh capture matches the old registration's face.
+     *      The move can be completed after RECOVERY_DELAY; until then the old wallet can cancel it.
+     * @param _oldWallet The wallet that currently holds the registration.
+     * @param _faceHash The hash of the face captured for the recovery.
+     * @param _ipfsHash The IPFS hash of the recovery capture.
+     * @param _expiry Timestamp after which the attestation is no longer accepted.
+     * @param _signature The verifier's EIP-712 signature over the recovery attestation.
+     */
+    function requestRecovery(
+        address _oldWallet,
+        bytes32 _faceHash,
+        string calldata _ipfsHash,
+        uint256 _expiry,
+        bytes calldata _signature
+    ) external whenNotPaused {
+        require(registrations[_oldWallet].wallet != address(0), "Not registered");
+        require(registrations[msg.sender].wallet == address(0), "Already registered");
+        require(recoveries[_oldWallet].newWallet == address(0), "Recovery pending");
+        require(recoveryFor[msg.sender] == address(0), "Recovery pending");
+        require(block.timestamp <= _expiry, "Attestation expired");
+        
+        bytes32 structHash = keccak256(
+            abi.encode(RECOVERY_TYPEHASH, _oldWallet, msg.sender, _faceHash, keccak256(bytes(_ipfsHash)), _expiry)
+        );
+        require(_recoverSigner(_hashTypedData(structHash), _signature) == verifier, "Invalid attestation");
+        
+        uint256 readyAt = block.timestamp + RECOVERY_DELAY;
+        recoveries[_oldWallet] = Recovery({
+            newWallet: msg.sender,
+            faceHash: _faceHash,
+            ipfsHash: _ipfsHash,
+            readyAt: readyAt
         });
+        recoveryFor[msg.sender] = _oldWallet;
+        
+        emit RecoveryRequested(_oldWallet, msg.sender, readyAt);
+    }
+    
+    /**
+     * @notice Cancel a pending recovery. Callable by the old wallet, the new wallet or an admin.
+     * @param _oldWallet The wallet being recovered.
+     */
+    function cancelRecovery(address _oldWallet) external {
+        address newWallet = recoveries[_oldWallet].newWallet;
+        require(newWallet != address(0), "No recovery pending");
+        require(msg.sender == _oldWallet || msg.sender == newWallet || hasRole(ADMIN_ROLE, msg.sender), "Not authorized");
         
-        registrations[msg.sender] = newRegistration;
-        registrants.push(msg.sender);
+        delete recoveries[_oldWallet];
+        delete recoveryFor[newWallet];
         
-        emit Registered(msg.sender, _faceHash, _publicKey, _ipfsHash, block.timestamp);
+        emit RecoveryCancelled(_oldWallet, newWallet);
     }
     
     /**
-     * @notice Allows the owner to release a payment of 0.01 ETH to a registered wallet.
-     * @param _wallet The wallet address of the registrant to receive the payment.
+     * @notice Complete a recovery once its time-lock has passed, moving the registration to the calling wallet.
+     * @dev The registration takes the recovery capture's IPFS hash; the verifier erases the old
+     *      wallet's pinned data when it indexes Rebound, as it does after deregister.
+     * @param _oldWallet The wallet being recovered.
+     * @param _publicKey The public key of the calling wallet.
      */
-    function releasePayment(address _wallet) external onlyOwner {
-        require(registrations[_wallet].wallet != address(0), "Not registered");
-        require(!paymentSent[_wallet], "Payment already sent");
+    function completeRecovery(address _oldWallet, bytes calldata _publicKey) external {
+        Recovery memory recovery = recoveries[_oldWallet];
+        require(recovery.newWallet == msg.sender, "No recovery pending");
+        require(block.timestamp >= recovery.readyAt, "Recovery time-locked");
+        require(registrations[msg.sender].wallet == address(0), "Already registered");
         
-        uint256 payment = 0.01 ether;
-        require(address(this).balance >= payment, "Insufficient contract balance");
+        delete recoveries[_oldWallet];
+        delete recoveryFor[msg.sender];
         
-        // Mark payment as sent to prevent reentrancy
-        paymentSent[_wallet] = true;
-        payable(_wallet).transfer(payment);
+        registrations[msg.sender] = Registration({
+            wallet: msg.sender,
+            publicKey: _publicKey,
+            faceHash: recovery.faceHash,
+            ipfsHash: recovery.ipfsHash,
+            timestamp: block.timestamp
+        });
+        delete registrations[_oldWallet];
+        
+        // The new wallet takes the old wallet's place in the registrant list
+        uint256 index = registrantIndex[_oldWallet];
+        registrants[index - 1] = msg.sender;
+        registrantIndex[msg.sender] = index;
+        delete registrantIndex[_oldWallet];
+        
+        // Payments made to the old wallet count for the new one
+        identityOf[msg.sender] = identityOf[_oldWallet];
+        delete identityOf[_oldWallet];
         
-        emit PaymentSent(_wallet, payment);
+        emit Rebound(_oldWallet, msg.sender, recovery.faceHash, _publicKey, recovery.ipfsHash, block.timestamp);
+    }
+    
+    /**
+     * @notice Allows an admin to create a payout campaign.
+     * @dev The contract must hold enough ETH or tokens for the payouts; deposit them separately.
+     * @param _amount The amount paid to each registrant, in wei or token units.
+     * @param _token The ERC-20 token paid out, or the zero address for ETH.
+     * @param _startsAt Time from which payouts are accepted.
+     * @param _endsAt Time until which payouts are accepted.
+     * @param _budget Cap on the total paid out by the campaign.
+     * @param _operator Account allowed to release payouts; the zero address leaves it to payers.
+     * @return campaignId The id of the new campaign.
+     */
+    function createCampaign(
+        uint256 _amount,
+        address _token,
+        uint256 _startsAt,
+        uint256 _endsAt,
+        uint256 _budget,
+        address _operator
+    ) external onlyRole(ADMIN_ROLE) returns (uint256 campaignId) {
+        require(_amount > 0 && _budget >= _amount, "Invalid amount");
+        require(_startsAt < _endsAt && _endsAt > block.timestamp, "Invalid period");
+        
+        campaignId = ++campaignCount;
+        campaigns[campaignId] = Campaign({
+            amount: _amount,
+            token: _token,
+            startsAt: _startsAt,
+            endsAt: _endsAt,
+            budget: _budget,
+            spent: 0,
+            operator: _operator
+        });
+        
+        emit CampaignCreated(campaignId, _amount, _token, _startsAt, _endsAt, _budget, _operator);
+    }
+    
+    /**
+     * @notice Allows an admin to hand a campaign to another operator.
+     * @param _campaignId The campaign.
+     * @param _operator The new operator, or the zero address to leave payouts to payers.
+     */
+    function setCampaignOperator(uint256 _campaignId, address _operator) external onlyRole(ADMIN_ROLE) {
+        require(_campaignId > 0 && _campaignId <= campaignCount, "Unknown campaign");
+        emit CampaignOperatorUpdated(_campaignId, campaigns[_campaignId].operator, _operator);
+        campaigns[_campaignId].operator = _operator;
+    }
+    
+    /**
+     * @notice Allows a campaign's operator or a payer to pay a registered wallet once from the campaign.
+     * @param _campaignId The campaign paying out.
+     * @param _wallet The wallet address of the registrant to receive the payment.
+     */
+    function releasePayment(uint256 _campaignId, address _wallet) external {
+        require(_campaignId > 0 && _campaignId <= campaignCount, "Unknown campaign");
+        require(msg.sender == campaigns[_campaignId].operator || hasRole(PAYER_ROLE, msg.sender), "Not authorized");
+        _pay(_campaignId, _wallet);
+    }
+    
+    /**
+     * @notice Allows a campaign's operator or a payer to publish the wallets that may claim from it.
+     * @dev Each leaf is keccak256(bytes.concat(keccak256(abi.encode(campaignId, wallet)))), and pairs are
+     *      hashed in sorted order. A new root replaces the previous one, so it must include every wallet
+     *      that should still be able to claim.
+     * @param _campaignId The campaign.
+     * @param _root The Merkle root.
+     */
+    function setClaimRoot(uint256 _campaignId, bytes32 _root) external {
+        require(_campaignId > 0 && _campaignId <= campaignCount, "Unknown campaign");
+        require(msg.sender == campaigns[_campaignId].operator || hasRole(PAYER_ROLE, msg.sender), "Not authorized");
+        claimRoots[_campaignId] = _root;
+        emit ClaimRootUpdated(_campaignId, _root);
+    }
+    
+    /**
+     * @notice Claim the calling wallet's payout from a campaign.
+     * @param _campaignId The campaign paying out.
+     * @param _proof Merkle proof that the calling wallet is in the campaign's claim root.
+     */
+    function claim(uint256 _campaignId, bytes32[] calldata _proof) external {
+        bytes32 root = claimRoots[_campaignId];
+        require(root != bytes32(0), "No claims published");
+        
+        bytes32 node = keccak256(bytes.concat(keccak256(abi.encode(_campaignId, msg.sender))));
+        for (uint256 i = 0; i < _proof.length; i++) {
+            node = node < _proof[i]
+                ? keccak256(abi.encodePacked(node, _proof[i]))
+                : keccak256(abi.encodePacked(_proof[i], node));
+        }
+        require(node == root, "Invalid proof");
+        
+        _pay(_campaignId, msg.sender);
+    }
+    
+    /**
+     * @notice Check whether a wallet's registrant has been paid by a campaign.
+     * @param _campaignId The campaign.
+     * @param _wallet The wallet address of the registrant.
+     * @return True if the registrant was paid, from this wallet or one it was recovered from.
+     */
+    function isPaid(uint256 _campaignId, address _wallet) external view returns (bool) {
+        uint256 identity = identityOf[_wallet];
+        return identity != 0 && campaignPaid[_campaignId][identity];
+    }
+    
+    /**
+     * @notice Allows a verifier-key manager to rotate the verifier key.
+     * @param _verifier The address of the new verifier key.
+     */
+    function setVerifier(address _verifier) external onlyRole(VERIFIER_MANAGER_ROLE) {
+        require(_verifier != address(0), "Invalid verifier");
+        emit VerifierUpdated(verifier, _verifier);
+        verifier = _verifier;
+    }
+    
+    /**
+     * @notice Offer ownership to another account; it takes effect once that account accepts.
+     * @param _newOwner The proposed owner, or the zero address to withdraw an offer.
+     */
+    function transferOwnership(address _newOwner) external onlyOwner {
+        pendingOwner = _newOwner;
+        emit OwnershipTransferStarted(owner, _newOwner);
+    }
+    
+    /**
+     * @notice Accept an ownership offer made with transferOwnership.
+     */
+    function acceptOwnership() external {
+        require(msg.sender == pendingOwner, "Not authorized");
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
+    }
+    
+    /**
+     * @notice Check whether an account holds a role. The owner holds every role.
+     * @param _role The role.
+     * @param _account The account.
+     */
+    function hasRole(bytes32 _role, address _account) public view returns (bool) {
+        return _account == owner || roleMembers[_role][_account];
+    }
+    
+    /**
+     * @notice Grant a role. Admins grant every role except admin, which only the owner grants.
+     * @param _role The role.
+     * @param _account The account receiving it.
+     */
+    function grantRole(bytes32 _role, address _account) external {
+        _checkRoleManager(_role);
+        if (!roleMembers[_role][_account]) {
+            roleMembers[_role][_account] = true;
+            emit RoleGranted(_role, _account, msg.sender);
+        }
+    }
+    
+    /**
+     * @notice Revoke a role. Admins revoke every role except admin, which only the owner revokes.
+     * @param _role The role.
+     * @param _account The account losing it.
+     */
+    function revokeRole(bytes32 _role, address _account) external {
+        _checkRoleManager(_role);
+        if (roleMembers[_role][_account]) {
+            roleMembers[_role][_account] = false;
+            emit RoleRevoked(_role, _account, msg.sender);
+        }
+    }
+    
+    /**
+     * @notice Give up a role held by the caller, e.g. when its key may be compromised.
+     * @param _role The role.
+     */
+    function renounceRole(bytes32 _role) external {
+        if (roleMembers[_role][msg.sender]) {
+            roleMembers[_role][msg.sender] = false;
+            emit RoleRevoked(_role, msg.sender, msg.sender);
+        }
+    }
+    
+    /**
+     * @notice Allows a pauser to stop registrations, recovery requests and payouts in an emergency.
+     */
+    function pause() external onlyRole(PAUSER_ROLE) {
+        require(!paused, "Paused");
+        paused = true;
+        emit Paused(msg.sender);
+    }
+    
+    /**
+     * @notice Allows an admin to lift a pause.
+     */
+    function unpause() external onlyRole(ADMIN_ROLE) {
+        require(paused, "Not paused");
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+    
+    /**
+     * @notice Allows an admin to withdraw ETH or tokens, e.g. what is left after campaigns end.
+     * @dev Campaign budgets are not reserved; withdrawing from a running campaign's funds makes its payouts fail.
+     * @param _token The ERC-20 token to withdraw, or the zero address for ETH.
+     * @param _to The recipient.
+     * @param _amount The amount, in wei or token units.
+     */
+    function withdraw(address _token, address _to, uint256 _amount) external onlyRole(ADMIN_ROLE) {
+        require(_to != address(0), "Invalid recipient");
+        _transferOut(_token, _to, _amount);
+        emit Withdrawn(_token, _to, _amount);
+    }
+    
+    /**
+     * @notice Allows the owner to point the proxy at a new implementation.
+     * @param _implementation The new implementation; it must keep this contract's storage layout.
+     */
+    function upgradeTo(address _implementation) external onlyOwner {
+        require(address(this) != self, "Not called through proxy");
+        // Refuse contracts that could not upgrade again, which would freeze the proxy
+        try FaceRegistration(payable(_implementation)).proxiableUUID() returns (bytes32 uuid) {
+            require(uuid == IMPLEMENTATION_SLOT, "Invalid implementation");
+        } catch {
+            revert("Invalid implementation");
+        }
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, _implementation)
+        }
+        emit Upgraded(_implementation);
+    }
+    
+    /**
+     * @notice ERC-1822 marker that the implementation can be upgraded through its proxy.
+     */
+    function proxiableUUID() external view returns (bytes32) {
+        require(address(this) == self, "Called through proxy");
+        return IMPLEMENTATION_SLOT;
+    }
+    
+    /**
+     * @notice The implementation the proxy currently delegates to.
+     */
+    function implementation() external view returns (address impl) {
+        assembly {
+            impl := sload(IMPLEMENTATION_SLOT)
+        }
+    }
+    
+    /**
+     * @notice EIP-712 domain separator for verifier attestations.
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                DOMAIN_TYPEHASH,
+                keccak256(bytes("FaceRegistration")),
+                keccak256(bytes("1")),
+                block.chainid,
+                address(this)
+            )
+        );
     }
     
     /**
@@ -105,6 +660,30 @@ contract FaceRegistration {
         return registrants.length;
     }
     
+    /**
+     * @notice Retrieve a page of registrations in registrant order.
+     * @dev Deregistration moves the last registrant into the freed slot, so pages read
+     *      across a deregistration may skip or repeat a registrant.
+     * @param _offset Index of the first registrant to return.
+     * @param _limit Maximum number of registrations to return.
+     * @return page The registrations; empty if the offset is past the end.
+     */
+    function getRegistrantsPage(uint256 _offset, uint256 _limit) external view returns (Registration[] memory page) {
+        if (_offset >= registrants.length) {
+            return new Registration[](0);
+        }
+        
+        uint256 end = registrants.length;
+        if (_limit < end - _offset) {
+            end = _offset + _limit;
+        }
+        
+        page = new Registration[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = registrations[registrants[i]];
+        }
+    }
+    
     /**
      * @notice Deposit ETH into the contract so that funds are available for payments.
      */
@@ -112,4 +691,83 @@ contract FaceRegistration {
     
     // Fallback function to accept ETH directly
     receive() external payable {}
+    
+    // Store a registration and add its wallet to the registrant list
+    function _addRegistration(Registration memory _registration) internal {
+        address wallet = _registration.wallet;
+        registrations[wallet] = _registration;
+        registrants.push(wallet);
+        registrantIndex[wallet] = registrants.length;
+        if (identityOf[wallet] == 0) {
+            identityOf[wallet] = ++identityCount;
+        }
+        
+        emit Registered(wallet, _registration.faceHash, _registration.publicKey, _registration.ipfsHash, _registration.timestamp);
+    }
+    
+    // Pay a registered wallet once from a campaign, within its period and budget
+    function _pay(uint256 _campaignId, address _wallet) internal whenNotPaused {
+        Campaign storage campaign = campaigns[_campaignId];
+        require(block.timestamp >= campaign.startsAt, "Campaign not started");
+        require(block.timestamp <= campaign.endsAt, "Campaign ended");
+        require(registrations[_wallet].wallet != address(0), "Not registered");
+        
+        uint256 identity = identityOf[_wallet];
+        require(!campaignPaid[_campaignId][identity], "Payment already sent");
+        require(campaign.spent + campaign.amount <= campaign.budget, "Campaign budget exhausted");
+        
+        // Record the payment before transferring to prevent reentrancy
+        campaignPaid[_campaignId][identity] = true;
+        campaign.spent += campaign.amount;
+        
+        _transferOut(campaign.token, _wallet, campaign.amount);
+        
+        emit PaymentSent(_wallet, _campaignId, campaign.token, campaign.amount);
+    }
+    
+    // Send ETH (zero token address) or an ERC-20 token from the contract
+    function _transferOut(address _token, address _to, uint256 _amount) internal {
+        if (_token == address(0)) {
+            require(address(this).balance >= _amount, "Insufficient contract balance");
+            payable(_to).transfer(_amount);
+        } else {
+            // Tolerates tokens that return nothing from transfer
+            (bool ok, bytes memory data) = _token.call(
+                abi.encodeWithSignature("transfer(address,uint256)", _to, _amount)
+            );
+            require(ok && (data.length == 0 || abi.decode(data, (bool))), "Token transfer failed");
+        }
+    }
+    
+    // Only the owner manages admins; admins manage the other roles
+    function _checkRoleManager(bytes32 _role) internal view {
+        require(
+            msg.sender == owner || (_role != ADMIN_ROLE && roleMembers[ADMIN_ROLE][msg.sender]),
+            "Not authorized"
+        );
+    }
+    
+    // Digest of an EIP-712 struct hash under this contract's domain
+    function _hashTypedData(bytes32 _structHash) internal view returns (bytes32) {
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator(), _structHash));
+    }
+    
+    // Recover the signer of a 65-byte ECDSA signature, rejecting malleable signatures
+    function _recoverSigner(bytes32 _digest, bytes calldata _signature) internal pure returns (address) {
+        require(_signature.length == 65, "Invalid signature length");
+        
+        bytes32 r = bytes32(_signature[0:32]);
+        bytes32 s = bytes32(_signature[32:64]);
+        uint8 v = uint8(_signature[64]);
+        
+        require(
+            uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0,
+            "Invalid signature"
+        );
+        require(v == 27 || v == 28, "Invalid signature");
+        
+        address signer = ecrecover(_digest, v, r, s);
+        require(signer != address(0), "Invalid signature");
+        return signer;
+    }
 }
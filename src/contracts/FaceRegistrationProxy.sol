@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+/**
+ * @notice EIP-1967 proxy for FaceRegistration. Holds the registry's storage and funds at a fixed
+ *         address and delegates every call to the current implementation, which the owner can
+ *         replace with FaceRegistration.upgradeTo.
+ */
+contract FaceRegistrationProxy {
+    // EIP-1967 implementation slot: bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)
+    bytes32 private constant IMPLEMENTATION_SLOT = 0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc;
+    
+    event Upgraded(address indexed implementation);
+    
+    /**
+     * @param _implementation The FaceRegistration implementation.
+     * @param _data Encoded initialize(owner, verifier) call run against the proxy's storage.
+     */
+    constructor(address _implementation, bytes memory _data) {
+        require(_implementation.code.length > 0, "Invalid implementation");
+        assembly {
+            sstore(IMPLEMENTATION_SLOT, _implementation)
+        }
+        emit Upgraded(_implementation);
+        
+        (bool ok, bytes memory result) = _implementation.delegatecall(_data);
+        if (!ok) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+    
+    fallback() external payable {
+        _delegate();
+    }
+    
+    receive() external payable {
+        _delegate();
+    }
+    
+    // Forward the call to the implementation and return or revert with its result
+    function _delegate() internal {
+        assembly {
+            let implementation := sload(IMPLEMENTATION_SLOT)
+            calldatacopy(0, 0, calldatasize())
+            let ok := delegatecall(gas(), implementation, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch ok
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
+        }
+    }
+}
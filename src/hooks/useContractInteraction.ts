@@ -2,25 +2,53 @@ import { useState, useCallback } from 'react';
 import { ethers } from 'ethers';
 import { useDynamicContext } from '@dynamic-labs/sdk-react-core';
 import { getSigner } from '@dynamic-labs/ethers-v6';
-import { FaceApiService } from '../services/FaceApiService';
+import { VerifierApiService, SignedUniquenessResult, RegistrationAttestation, ErasureStatus, CampaignClaim } from '../services/VerifierApiService';
+import { EmbeddingModelInfo } from '../../shared/embeddingPayload';
+import { LivenessEvidence } from '../../shared/livenessPolicy';
+import { decodeContractError, sendContractTransaction } from '../../shared/contractCalls';
 
 // Import the ABI directly
 import faceAbi from './faceAbi.json';
 
-// Threshold for face similarity (0.75 is a good balance for face recognition)
-// Increasing to 0.85 to reduce false positives - different people should have lower similarity
-const SIMILARITY_THRESHOLD = 0.60;
-
 // Contract address - replace with your deployed contract address
 const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS;
 
+// Previous deployment, still read while its registrations are migrated to CONTRACT_ADDRESS
+const LEGACY_CONTRACT_ADDRESS = import.meta.env.VITE_LEGACY_CONTRACT_ADDRESS;
+
+// A wallet's registration and the contract it was found on
+export interface RegistrationLookup {
+  registration: {
+    wallet: string;
+    publicKey: string;
+    faceHash: string;
+    ipfsHash: string;
+    timestamp: bigint;
+  };
+  // 'legacy' until the registration is migrated to the current contract
+  source: 'current' | 'legacy';
+}
+
+// A recovery of an old registration to the connected wallet, waiting for its time-lock
+export interface PendingRecovery {
+  oldWallet: string;
+  // Unix time (seconds) after which the recovery can be completed
+  readyAt: number;
+}
+
 export function useContractInteraction() {
   const { primaryWallet } = useDynamicContext();
   const [isRegistering, setIsRegistering] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [registrationStatus, setRegistrationStatus] = useState<'none' | 'success' | 'error' | 'checking'>('none');
-  const [uniquenessStatus, setUniquenessStatus] = useState<'unique' | 'duplicate' | 'checking' | 'error' | null>(null);
+  const [uniquenessStatus, setUniquenessStatus] = useState<'unique' | 'duplicate' | 'review' | 'checking' | 'error' | null>(null);
+  const [lastUniquenessCheck, setLastUniquenessCheck] = useState<SignedUniquenessResult | null>(null);
+  const [recoveryStatus, setRecoveryStatus] = useState<'none' | 'requesting' | 'pending' | 'completing' | 'completed' | 'error'>('none');
+  const [pendingRecovery, setPendingRecovery] = useState<PendingRecovery | null>(null);
+  const [isDeregistering, setIsDeregistering] = useState(false);
+  const [claims, setClaims] = useState<CampaignClaim[]>([]);
+  const [claimingCampaignId, setClaimingCampaignId] = useState<number | null>(null);
   const [publicKeyInfo, setPublicKeyInfo] = useState<{key: string | null, source: string | null}>({ key: null, source: null });
 
   // Check for public key when wallet connects
@@ -153,12 +181,37 @@ export function useContractInteraction() {
     }
   }, [primaryWallet]);
 
-  // Check if a face is already registered by comparing embeddings
-  const checkFaceUniqueness = useCallback(async (faceEmbedding: Float32Array, currentIpfsHash?: string): Promise<boolean> => {
+  /**
+   * Looks up a wallet's registration on the current contract, falling back to the legacy one during a migration
+   * @returns null if neither contract has a registration for the wallet
+   */
+  const getRegistration = useCallback(async (wallet: string): Promise<RegistrationLookup | null> => {
+    const contract = await getContract();
+    const registration = await contract.getRegistration(wallet);
+    if (registration.wallet !== ethers.ZeroAddress) {
+      return { registration, source: 'current' };
+    }
+    if (!LEGACY_CONTRACT_ADDRESS) {
+      return null;
+    }
+
+    const legacyContract = new ethers.Contract(LEGACY_CONTRACT_ADDRESS, contract.interface, contract.runner);
+    const legacyRegistration = await legacyContract.getRegistration(wallet);
+    return legacyRegistration.wallet !== ethers.ZeroAddress ? { registration: legacyRegistration, source: 'legacy' } : null;
+  }, [getContract]);
+
+  // Check if a face is already registered by asking the backend to compare it against every registrant.
+  // Resolves to the verifier's registration attestation when the face is unique, null otherwise.
+  const checkFaceUniqueness = useCallback(async (
+    faceEmbedding: Float32Array,
+    ipfsHash: string,
+    model?: EmbeddingModelInfo,
+    liveness?: LivenessEvidence
+  ): Promise<RegistrationAttestation | null> => {
     try {
       console.log('Starting face uniqueness check...');
-      console.log('Current IPFS hash:', currentIpfsHash);
       setUniquenessStatus('checking');
+      setLastUniquenessCheck(null);
       
       if (!primaryWallet) {
         throw new Error('No wallet connected');
@@ -177,130 +230,41 @@ export function useContractInteraction() {
         console.error('Invalid face embedding with too many zeros');
         setError('Invalid face embedding. Please capture a new image with better lighting.');
         setUniquenessStatus('error');
-        return false;
+        return null;
       }
       
-      // TEMPORARY TESTING OVERRIDE - Uncomment to bypass uniqueness check during testing
-      // console.log('TESTING MODE: Bypassing uniqueness check');
-      // setUniquenessStatus('unique');
-      // return true;
-      
-      try {
-        const contract = await getContract();
-        
-        // Get all registrations
-        let registrationsCount;
-        try {
-          registrationsCount = await contract.totalRegistrants();
-          console.log('Raw registrationsCount:', registrationsCount);
-        } catch (countError) {
-          console.error('Error getting total registrants:', countError);
-          // If we can't get the count, assume no registrations yet
-          console.log('Assuming no registrations due to contract error');
-          setUniquenessStatus('unique');
-          return true;
-        }
+      // The backend holds an index of every registrant's embedding and signs its answer
+      const signedResult = await VerifierApiService.checkUniqueness(faceEmbedding, primaryWallet.address, ipfsHash, model, liveness);
+      setLastUniquenessCheck(signedResult);
       
-        // Convert to number safely, handling different return types
-        let count = 0;
-        if (typeof registrationsCount === 'number') {
-          count = registrationsCount;
-        } else if (typeof registrationsCount === 'bigint') {
-          count = Number(registrationsCount);
-        } else if (typeof registrationsCount.toString === 'function') {
-          // For BigNumber or other objects with toString
-          count = parseInt(registrationsCount.toString(), 10);
-        } else if (typeof registrationsCount === 'string') {
-          count = parseInt(registrationsCount, 10);
-        }
+      const { isUnique, decision, matches } = signedResult.result;
+      if (decision === 'uncertain' && !isUnique) {
+        // Too close to call; the verifier has queued the check for manual review, and
+        // registers this same capture once a reviewer approves it
+        console.log(`Borderline similarity ${matches[0]?.similarity}, sent to manual review`);
+        setUniquenessStatus('review');
+        return null;
+      }
+      if (!isUnique) {
+        console.log(`Similar face found! Similarity: ${matches[0]?.similarity}`);
+        setUniquenessStatus('duplicate');
+        return null;
+      }
       
-        console.log(`Total registrants: ${count}`);
-        
-        // If no registrations yet, face is definitely unique
-        if (count === 0) {
-          console.log('No registrations found, face is unique');
-          setUniquenessStatus('unique');
-          return true;
-        }
-        
-        // Pass the face embedding directly to the comparison function
-        // No need to convert to Blob anymore
-        
-        // Check each registration's embedding for similarity
-        for (let i = 0; i < count; i++) {
-          try {
-            const registrantAddress = await contract.registrants(i);
-            console.log(`Registrant ${i} address:`, registrantAddress);
-            
-            const registration = await contract.getRegistration(registrantAddress);
-            
-            console.log(`Checking registration for address: ${registrantAddress}`);
-            console.log(`IPFS hash: ${registration.ipfsHash}`);
-            console.log(`Current wallet address: ${primaryWallet.address}`);
-            
-            // Skip if no IPFS hash or if it's the current user's wallet or if it's the same IPFS hash we just uploaded
-            if (!registration.ipfsHash || 
-                registration.ipfsHash === '' || 
-                registrantAddress.toLowerCase() === primaryWallet.address.toLowerCase() ||
-                (currentIpfsHash && registration.ipfsHash === currentIpfsHash)) {
-              console.log('Skipping: empty IPFS hash, own wallet, or same IPFS hash');
-              continue;
-            }
-            
-            // Use the FaceApiService to compare the face with the IPFS hash
-            // Now passing the embedding directly instead of converting to a Blob
-            console.log(`Comparing face with IPFS hash: ${registration.ipfsHash}`);
-            const comparisonResult = await FaceApiService.compareFaceWithIpfs(
-              faceEmbedding,
-              registration.ipfsHash,
-              SIMILARITY_THRESHOLD.toString()
-            );
-            
-            // Check if there was an IPFS access error
-            if (!comparisonResult.success && comparisonResult.error) {
-              console.warn(`API error for hash ${registration.ipfsHash}: ${comparisonResult.error}`);
-              
-              // If it's an IPFS gateway error, skip this registration
-              if (comparisonResult.error.includes('IPFS') || 
-                  comparisonResult.error.includes('gateway') || 
-                  comparisonResult.error.includes('403')) {
-                console.log('Skipping this registration due to IPFS access error');
-                continue; // Skip this registration and continue with the next one
-              }
-            }
-            
-            const similarity = comparisonResult.similarity || 0;
-            console.log(`Similarity with registration ${i}: ${similarity}`);
-            
-            // If similarity is above threshold, face is already registered
-            if (similarity > SIMILARITY_THRESHOLD) {
-              console.log(`Similar face found! Similarity: ${similarity}`);
-              setUniquenessStatus('duplicate');
-              return false;
-            }
-          } catch (err) {
-            console.error(`Error processing registration ${i}:`, err);
-            // Continue checking other registrations
-          }
-        }
-        
-        // If we get here, no similar faces were found
-        console.log('No similar faces found, face is unique');
-        setUniquenessStatus('unique');
-        return true;
-      } catch (err) {
-        console.error('Error checking face uniqueness:', err);
-        setError('Error checking face uniqueness. Please try again.');
-        setUniquenessStatus('error');
-        return false;
+      if (!signedResult.attestation) {
+        throw new Error('Verifier did not return a registration attestation');
       }
+      
+      console.log('No similar faces found, face is unique');
+      setUniquenessStatus('unique');
+      return signedResult.attestation;
     } catch (err) {
       console.error('Error in face uniqueness check:', err);
       setError('Error checking face uniqueness. Please try again.');
       setUniquenessStatus('error');
-      return false;
+      return null;
     }
-  }, [primaryWallet, getContract, setError, setUniquenessStatus]);
+  }, [primaryWallet, setError, setUniquenessStatus]);
 
   // Helper function to ensure a hash is properly formatted for blockchain transactions
   const ensureValidBytesLike = (hash: string): string => {
@@ -350,18 +314,110 @@ export function useContractInteraction() {
     }
   };
 
-  // Register a face hash on the blockchain
-  const registerFaceHash = useCallback(async (faceHash: string, ipfsHash: string) => {
+  // Read the connected wallet's public key, if the wallet exposes it
+  const getWalletPublicKey = useCallback(async (): Promise<string | null> => {
+    if (!primaryWallet) {
+      return null;
+    }
+
+    let publicKey: string | null = null;
+    try {
+      // Attempt to get the public key if the wallet provider exposes it
+      if (primaryWallet.connector && 'getPublicKey' in primaryWallet.connector) {
+        // @ts-expect-error - Some connectors might have this method
+        const walletPublicKey = await primaryWallet.connector.getPublicKey();
+        if (walletPublicKey) {
+          // Ensure the public key is properly formatted as a hex string
+          // Remove 0x prefix if present, then check if it's base64 encoded
+          const rawKey = walletPublicKey.startsWith('0x') ? walletPublicKey.slice(2) : walletPublicKey;
+          
+          // Check if the key is base64 encoded (contains non-hex characters)
+          const isBase64 = /[^0-9a-fA-F]/.test(rawKey);
+          
+          if (isBase64) {
+            // Convert base64 to hex
+            try {
+              // Decode base64 to binary
+              const binaryStr = atob(rawKey);
+              // Convert binary to hex
+              let hexKey = '';
+              for (let i = 0; i < binaryStr.length; i++) {
+                const hex = binaryStr.charCodeAt(i).toString(16).padStart(2, '0');
+                hexKey += hex;
+              }
+              publicKey = '0x' + hexKey;
+            } catch (e) {
+              console.error('Failed to convert base64 key to hex:', e);
+              throw new Error('Invalid public key format');
+            }
+          } else {
+            // Already hex, just ensure 0x prefix
+            publicKey = '0x' + rawKey;
+          }
+          
+          console.log('Retrieved public key from wallet:', publicKey.substring(0, 12) + '...');
+        }
+      } else {
+        console.log('Wallet connector does not expose public key method');
+        
+        // Try alternative method for specific wallet types
+        if (primaryWallet.connector && primaryWallet.connector.name === 'MetaMask') {
+          console.log('Attempting alternative method for MetaMask...');
+          try {
+            // @ts-expect-error - MetaMask specific API
+            const publicKeyFromMM = await window.ethereum.request({
+              method: 'eth_getEncryptionPublicKey',
+              params: [primaryWallet.address],
+            });
+            if (publicKeyFromMM && typeof publicKeyFromMM === 'string') {
+              // MetaMask returns base64 encoded key, convert to hex
+              try {
+                // Remove 0x prefix if present
+                const rawKey = (publicKeyFromMM as string).startsWith('0x') ? (publicKeyFromMM as string).slice(2) : publicKeyFromMM;
+                
+                // Check if the key is base64 encoded
+                const isBase64 = /[^0-9a-fA-F]/.test(rawKey);
+                
+                if (isBase64) {
+                  // Decode base64 to binary
+                  const binaryStr = atob(rawKey);
+                  // Convert binary to hex
+                  let hexKey = '';
+                  for (let i = 0; i < binaryStr.length; i++) {
+                    const hex = binaryStr.charCodeAt(i).toString(16).padStart(2, '0');
+                    hexKey += hex;
+                  }
+                  publicKey = '0x' + hexKey;
+                } else {
+                  // Already hex, just ensure 0x prefix
+                  publicKey = '0x' + rawKey;
+                }
+              } catch (e) {
+                console.error('Failed to convert MetaMask key to hex:', e);
+                throw new Error('Invalid public key format from MetaMask');
+              }
+              console.log('Retrieved public key via MetaMask specific method');
+            }
+          } catch (mmError) {
+            console.warn('MetaMask specific method failed:', mmError);
+          }
+        }
+      }
+    } catch (pkError) {
+      console.warn('Could not retrieve public key from wallet:', pkError);
+    }
+    
+    return publicKey;
+  }, [primaryWallet]);
+
+  // Register a face hash on the blockchain, authorized by the verifier's attestation
+  const registerFaceHash = useCallback(async (faceHash: string, ipfsHash: string, attestation: RegistrationAttestation) => {
     if (!primaryWallet) {
       setError('No wallet connected');
       return;
     }
 
     try {
-      console.log('Starting face hash registration...');
-      console.log('Face hash:', faceHash.substring(0, 10) + '...');
-      console.log('IPFS hash:', ipfsHash);
-      
       setIsRegistering(true);
       setError(null);
       setRegistrationStatus('checking');
@@ -370,109 +426,29 @@ export function useContractInteraction() {
       const contract = await getContract();
       
       // Check if the wallet address is already registered
-      const registration = await contract.getRegistration(primaryWallet.address);
-      const isRegistered = registration.wallet !== ethers.ZeroAddress;
-        
-        console.log('Wallet already registered?', isRegistered);
+      const existing = await getRegistration(primaryWallet.address);
+      const isRegistered = existing !== null;
       
       if (isRegistered) {
-        setError('This wallet address is already registered');
+        setError(existing.source === 'legacy'
+          ? 'This wallet is registered on the previous contract and will be migrated'
+          : 'This wallet address is already registered');
         setRegistrationStatus('error');
         return;
       }
 
-        // Try to get the public key from the wallet if possible
-        let publicKey = null; // Start with null to indicate we haven't found a valid key yet
-        
-        try {
-          // Attempt to get the public key if the wallet provider exposes it
-          if (primaryWallet.connector && 'getPublicKey' in primaryWallet.connector) {
-            // @ts-expect-error - Some connectors might have this method
-            const walletPublicKey = await primaryWallet.connector.getPublicKey();
-            if (walletPublicKey) {
-              // Ensure the public key is properly formatted as a hex string
-              // Remove 0x prefix if present, then check if it's base64 encoded
-              const rawKey = walletPublicKey.startsWith('0x') ? walletPublicKey.slice(2) : walletPublicKey;
-              
-              // Check if the key is base64 encoded (contains non-hex characters)
-              const isBase64 = /[^0-9a-fA-F]/.test(rawKey);
-              
-              if (isBase64) {
-                // Convert base64 to hex
-                try {
-                  // Decode base64 to binary
-                  const binaryStr = atob(rawKey);
-                  // Convert binary to hex
-                  let hexKey = '';
-                  for (let i = 0; i < binaryStr.length; i++) {
-                    const hex = binaryStr.charCodeAt(i).toString(16).padStart(2, '0');
-                    hexKey += hex;
-                  }
-                  publicKey = '0x' + hexKey;
-                } catch (e) {
-                  console.error('Failed to convert base64 key to hex:', e);
-                  throw new Error('Invalid public key format');
-                }
-              } else {
-                // Already hex, just ensure 0x prefix
-                publicKey = '0x' + rawKey;
-              }
-              
-              console.log('Retrieved public key from wallet:', publicKey.substring(0, 12) + '...');
-            }
-          } else {
-            console.log('Wallet connector does not expose public key method');
-            
-            // Try alternative method for specific wallet types
-            if (primaryWallet.connector && primaryWallet.connector.name === 'MetaMask') {
-              console.log('Attempting alternative method for MetaMask...');
-              try {
-                // @ts-expect-error - MetaMask specific API
-                const publicKeyFromMM = await window.ethereum.request({
-                  method: 'eth_getEncryptionPublicKey',
-                  params: [primaryWallet.address],
-                });
-                if (publicKeyFromMM && typeof publicKeyFromMM === 'string') {
-                  // MetaMask returns base64 encoded key, convert to hex
-                  try {
-                    // Remove 0x prefix if present
-                    const rawKey = (publicKeyFromMM as string).startsWith('0x') ? (publicKeyFromMM as string).slice(2) : publicKeyFromMM;
-                    
-                    // Check if the key is base64 encoded
-                    const isBase64 = /[^0-9a-fA-F]/.test(rawKey);
-                    
-                    if (isBase64) {
-                      // Decode base64 to binary
-                      const binaryStr = atob(rawKey);
-                      // Convert binary to hex
-                      let hexKey = '';
-                      for (let i = 0; i < binaryStr.length; i++) {
-                        const hex = binaryStr.charCodeAt(i).toString(16).padStart(2, '0');
-                        hexKey += hex;
-                      }
-                      publicKey = '0x' + hexKey;
-                    } else {
-                      // Already hex, just ensure 0x prefix
-                      publicKey = '0x' + rawKey;
-                    }
-                  } catch (e) {
-                    console.error('Failed to convert MetaMask key to hex:', e);
-                    throw new Error('Invalid public key format from MetaMask');
-                  }
-                  console.log('Retrieved public key via MetaMask specific method');
-                }
-              } catch (mmError) {
-                console.warn('MetaMask specific method failed:', mmError);
-              }
-            }
-          }
-        } catch (pkError) {
-          console.warn('Could not retrieve public key from wallet:', pkError);
+        // Registrations are refused while the contract is paused in an emergency
+        if (await contract.paused()) {
+          setError('Registrations are paused. Please try again later.');
+          setRegistrationStatus('error');
+          return;
         }
+
+        // Try to get the public key from the wallet if possible
+        const publicKey = await getWalletPublicKey();
         
         // If we couldn't get a public key, show an error and stop the registration process
         if (!publicKey) {
-          console.error('Failed to retrieve public key from wallet');
           setError('Cannot register without a public key. Your wallet does not provide access to your public key, which is required for registration.');
           setRegistrationStatus('error');
           return;
@@ -480,8 +456,7 @@ export function useContractInteraction() {
         
         // Format the face hash as a proper bytes32 value
         const formattedFaceHash = ensureValidBytesLike(faceHash);
-        console.log('Formatted face hash:', formattedFaceHash.substring(0, 12) + '...');
-        
+
         // Ensure IPFS hash is properly formatted
         // Check if the IPFS hash already has a prefix
         let formattedIpfsHash = ipfsHash;
@@ -492,182 +467,37 @@ export function useContractInteraction() {
           // This is a raw IPFS hash without prefix, which is what most contracts expect
           formattedIpfsHash = ipfsHash;
         }
-        console.log('Formatted IPFS hash:', formattedIpfsHash);
-        
-        // Use ethers.js to create a proper bytes32 value
-        try {
-          console.log('Sending registration transaction...');
-          
-          // Examine the contract ABI to understand the expected parameter types
-          const registerFunction = contract.interface.getFunction('register');
-          if (registerFunction) {
-            console.log('Register function ABI:', registerFunction);
-            console.log('Parameter types:', registerFunction.inputs.map((input: {name: string, type: string}) => `${input.name}: ${input.type}`).join(', '));
-          }
-          
-          // Convert to bytes32 using ethers.js utilities
-          const bytes32FaceHash = ethers.zeroPadValue(formattedFaceHash, 32);
-          console.log('Bytes32 face hash:', bytes32FaceHash);
-          console.log('Bytes32 face hash length (bytes):', ethers.getBytes(bytes32FaceHash).length);
-          
-          // Log the parameters being sent to the contract
-          console.log('Contract parameters:');
-          console.log('- faceHash:', bytes32FaceHash);
-          console.log('- publicKey:', publicKey.substring(0, 20) + '...');
-          console.log('- ipfsHash:', formattedIpfsHash);
-          
-          // Try to get more information about the potential revert by calling the function statically
-          try {
-            console.log('Attempting to simulate the transaction...');
-            await contract.register.staticCall(bytes32FaceHash, publicKey, formattedIpfsHash);
-            console.log('Static call succeeded, transaction should work');
-          } catch (staticError) {
-            console.error('Static call failed:', staticError);
-            if (staticError instanceof Error) {
-              console.error('Static call error message:', staticError.message);
-              
-              // Try to extract more information if available
-              if ('data' in staticError) {
-                // Define a type for errors with data property
-                interface ErrorWithData extends Error {
-                  data?: string;
-                }
-                console.error('Error data:', (staticError as ErrorWithData).data);
-              }
-            }
-            // Continue with the transaction anyway, as sometimes static calls fail but transactions succeed
-          }
-          
-          // Try with overrides to provide more gas
-          const tx = await contract.register(bytes32FaceHash, publicKey, formattedIpfsHash, {
-            gasLimit: 500000, // Provide a higher gas limit to ensure it's not a gas issue
-          });
-          console.log('Transaction sent, waiting for confirmation...');
-          await tx.wait();
-          console.log('Transaction confirmed!');
-          setRegistrationStatus('success');
-          console.log('Face hash registered successfully!');
-        } catch (txError) {
-          console.error('Transaction error:', txError);
-          
-          // Log more details about the error
-          if (txError instanceof Error) {
-            console.error('Error message:', txError.message);
-            console.error('Error name:', txError.name);
-            // Use a type that includes the code property
-            interface ErrorWithCode extends Error {
-              code?: string | number;
-              data?: string;
-              reason?: string;
-            }
-            if ('code' in txError) {
-              console.error('Error code:', (txError as ErrorWithCode).code);
-            }
-            if ('data' in txError) {
-              console.error('Error data:', (txError as ErrorWithCode).data);
-            }
-            if ('reason' in txError) {
-              console.error('Error reason:', (txError as ErrorWithCode).reason);
-            }
-          }
-          
-          // Handle missing revert data error
-          if (txError instanceof Error && txError.message.includes('missing revert data')) {
-            console.log('Detected missing revert data error, trying alternative approach...');
-            
-            // Get the bytes32 face hash again to ensure it's in scope
-            const bytes32FaceHash = ethers.zeroPadValue(formattedFaceHash, 32);
-            
-            try {
-              // Try with a different IPFS hash format
-              // Some contracts expect just the CID without any prefix
-              const rawIpfsHash = formattedIpfsHash.replace('ipfs://', '');
-              console.log('Trying with raw IPFS hash:', rawIpfsHash);
-              
-              const tx = await contract.register(bytes32FaceHash, publicKey, rawIpfsHash, {
-                gasLimit: 500000, // Provide a higher gas limit
-              });
-              console.log('Transaction sent with raw IPFS hash, waiting for confirmation...');
-              await tx.wait();
-              console.log('Transaction confirmed!');
-              setRegistrationStatus('success');
-              console.log('Face hash registered successfully!');
-            } catch (ipfsError) {
-              console.error('Error with raw IPFS hash:', ipfsError);
-              
-              // Try with a different public key format
-              try {
-                console.log('Trying with different public key format...');
-                // Some contracts expect the public key without 0x prefix
-                const rawPublicKey = publicKey.startsWith('0x') ? publicKey.slice(2) : publicKey;
-                
-                // Get the bytes32 face hash again to ensure it's in scope
-                const bytes32FaceHash = ethers.zeroPadValue(formattedFaceHash, 32);
-                
-                const tx = await contract.register(bytes32FaceHash, '0x' + rawPublicKey, formattedIpfsHash, {
-                  gasLimit: 500000,
-                });
-                console.log('Transaction sent with alternative public key format, waiting for confirmation...');
-                await tx.wait();
-                console.log('Transaction confirmed!');
-                setRegistrationStatus('success');
-                console.log('Face hash registered successfully!');
-              } catch (pkError) {
-                console.error('Error with alternative public key format:', pkError);
-                throw pkError;
-              }
-            }
-          } else if (txError instanceof Error && txError.message.includes('data length')) {
-            // Handle data length error as before
-            console.log('Trying alternative format due to data length error...');
-            try {
-              // Try using a different approach to format the hash
-              const hashBytes = ethers.getBytes(formattedFaceHash);
-              // Ensure it's exactly 32 bytes
-              const paddedBytes = new Uint8Array(32);
-              paddedBytes.set(hashBytes.slice(0, Math.min(hashBytes.length, 32)));
-              
-              const paddedHash = ethers.hexlify(paddedBytes);
-              console.log('Alternative format hash:', paddedHash);
-              
-              const tx = await contract.register(paddedHash, publicKey, formattedIpfsHash, {
-                gasLimit: 500000,
-              });
-              console.log('Transaction sent with alternative format, waiting for confirmation...');
-              await tx.wait();
-              console.log('Transaction confirmed!');
-              setRegistrationStatus('success');
-              console.log('Face hash registered successfully!');
-            } catch (altError) {
-              console.error('Error with alternative format:', altError);
-              throw altError;
-            }
-          } else {
-            throw txError;
-          }
-        }
 
-      } catch (contractErr: unknown) {
-        console.error('Contract interaction error:', contractErr);
-        
-        // Set a more specific error message
-        if (typeof contractErr === 'object' && contractErr !== null && 'message' in contractErr && 
-            typeof contractErr.message === 'string' && contractErr.message.includes('user rejected transaction')) {
-          setError('Transaction was rejected. Please try again.');
-        } else {
-          setError('Failed to register on blockchain. Please try again later.');
+        // The attestation signs exact values, so they must match what we are about to register
+        if (attestation.faceHash.toLowerCase() !== formattedFaceHash.toLowerCase() || attestation.ipfsHash !== formattedIpfsHash) {
+          setError('Uniqueness attestation does not match this face. Please run the uniqueness check again.');
+          setRegistrationStatus('error');
+          return;
         }
         
+        const bytes32FaceHash = ethers.zeroPadValue(formattedFaceHash, 32);
+
+        // Simulated first, so a registration the contract would refuse fails before the wallet prompt
+        const tx = await sendContractTransaction(contract, 'register', [
+          bytes32FaceHash,
+          publicKey,
+          formattedIpfsHash,
+          attestation.expiry,
+          attestation.signature
+        ]);
+        await tx.wait();
+        setRegistrationStatus('success');
+      } catch (contractErr: unknown) {
+        setError(`Failed to register on blockchain: ${decodeContractError(contractErr).message}`);
         setRegistrationStatus('error');
       }
-    } catch (err) {
-      console.error('Error registering face hash:', err);
+    } catch {
       setError('Failed to register face hash. Please try again.');
       setRegistrationStatus('error');
     } finally {
       setIsRegistering(false);
     }
-  }, [primaryWallet, getContract]);
+  }, [primaryWallet, getContract, getRegistration, getWalletPublicKey]);
 
   // Verify a face hash against the blockchain
   const verifyFaceHash = useCallback(async (faceHash: string) => {
@@ -680,17 +510,16 @@ export function useContractInteraction() {
       setIsVerifying(true);
       setError(null);
 
-      const contract = await getContract();
-      
       // Get the registration for the connected wallet
       try {
-        const registration = await contract.getRegistration(primaryWallet.address);
+        const lookup = await getRegistration(primaryWallet.address);
         
         // Check if the wallet is registered
-        if (registration.wallet === ethers.ZeroAddress) {
+        if (!lookup) {
           console.log('Wallet not registered');
           return false;
         }
+        const { registration } = lookup;
         
         // Check if the hash matches
         const isVerified = registration.faceHash === faceHash;
@@ -719,70 +548,230 @@ export function useContractInteraction() {
     } finally {
       setIsVerifying(false);
     }
+  }, [primaryWallet, getRegistration]);
+
+  // Look up a recovery to the connected wallet that is waiting for its time-lock
+  const loadPendingRecovery = useCallback(async (): Promise<PendingRecovery | null> => {
+    if (!primaryWallet) {
+      return null;
+    }
+
+    try {
+      const contract = await getContract();
+      const oldWallet: string = await contract.recoveryFor(primaryWallet.address);
+      if (oldWallet === ethers.ZeroAddress) {
+        setPendingRecovery(null);
+        return null;
+      }
+
+      const recovery = await contract.recoveries(oldWallet);
+      const pending = { oldWallet, readyAt: Number(recovery.readyAt) };
+      setPendingRecovery(pending);
+      setRecoveryStatus('pending');
+      return pending;
+    } catch (err) {
+      console.error('Error loading pending recovery:', err);
+      return null;
+    }
   }, [primaryWallet, getContract]);
 
-  // Reset function (for testing purposes)
-  const resetLocalData = useCallback(() => {
-    // Clear any state
-    setError(null);
-    setRegistrationStatus('none');
-    setUniquenessStatus(null);
-    console.log('Contract interaction state has been reset');
-  }, []);
+  // Start moving the registration that matches this face to the connected wallet.
+  // The verifier must confirm the match; the move completes after the contract's time-lock.
+  const requestRecovery = useCallback(async (
+    faceEmbedding: Float32Array,
+    faceHash: string,
+    ipfsHash: string,
+    model?: EmbeddingModelInfo,
+    liveness?: LivenessEvidence
+  ) => {
+    if (!primaryWallet) {
+      setError('No wallet connected');
+      return;
+    }
 
-  // Test function to compare face embeddings from IPFS hashes
-  const testCompareEmbeddings = async (ipfsHashes: string[]): Promise<{matches: boolean[], similarities: number[]}> => {
     try {
-      const similarities: number[] = [];
-      const matches: boolean[] = [];
+      setRecoveryStatus('requesting');
+      setError(null);
 
-      // Need at least 2 IPFS hashes to compare
-      if (ipfsHashes.length < 2) {
-        console.error('Need at least 2 IPFS hashes to compare');
-        return { matches, similarities };
+      const { oldWallet, similarity, attestation } = await VerifierApiService.getRecoveryAttestation(
+        faceEmbedding,
+        primaryWallet.address,
+        ipfsHash,
+        model,
+        liveness
+      );
+      console.log(`Face matches the registration of ${oldWallet} (similarity ${similarity})`);
+
+      // The attestation signs exact values, so they must match this capture
+      if (attestation.faceHash.toLowerCase() !== ensureValidBytesLike(faceHash).toLowerCase() || attestation.ipfsHash !== ipfsHash) {
+        throw new Error('Recovery attestation does not match this face');
       }
 
-      console.log('Comparing face embeddings using external API...');
-      
-      // Get the first IPFS hash as the base for comparison
-      const baseIpfsHash = ipfsHashes[0];
-      console.log(`Using ${baseIpfsHash} as the base for comparison`);
-      
-      // Create a dummy embedding for API request
-      // The API will use the IPFS hash, not this embedding
-      const dummyEmbedding = new Float32Array(512); // Typical face embedding size
-      
-      // Compare the first hash with all others using the API
-      for (let i = 1; i < ipfsHashes.length; i++) {
-        try {
-          const targetIpfsHash = ipfsHashes[i];
-          console.log(`Comparing base hash with ${targetIpfsHash}`);
-          
-          // Use the FaceApiService to compare the two IPFS hashes
-          const comparisonResult = await FaceApiService.compareFaceWithIpfs(
-            dummyEmbedding,
-            targetIpfsHash,
-            SIMILARITY_THRESHOLD.toString()
-          );
-          
-          const similarity = comparisonResult.similarity || 0;
-          console.log(`Similarity between hash 0 and ${i}: ${similarity}`);
-          
-          similarities.push(similarity);
-          matches.push(similarity > SIMILARITY_THRESHOLD);
-        } catch (err) {
-          console.error(`Error comparing with hash ${ipfsHashes[i]}:`, err);
-          similarities.push(0);
-          matches.push(false);
-        }
+      const contract = await getContract();
+      const tx = await sendContractTransaction(contract, 'requestRecovery', [
+        oldWallet,
+        attestation.faceHash,
+        attestation.ipfsHash,
+        attestation.expiry,
+        attestation.signature
+      ]);
+      console.log('Recovery request sent, waiting for confirmation...');
+      await tx.wait();
+
+      await loadPendingRecovery();
+    } catch (err) {
+      console.error('Error requesting recovery:', err);
+      setError(`Failed to request recovery: ${decodeContractError(err).message}`);
+      setRecoveryStatus('error');
+    }
+  }, [primaryWallet, getContract, loadPendingRecovery]);
+
+  // Complete a pending recovery once its time-lock has passed
+  const completeRecovery = useCallback(async () => {
+    if (!primaryWallet || !pendingRecovery) {
+      setError('No recovery pending');
+      return;
+    }
+
+    try {
+      setRecoveryStatus('completing');
+      setError(null);
+
+      const publicKey = await getWalletPublicKey();
+      if (!publicKey) {
+        throw new Error('Your wallet does not provide access to your public key, which is required for registration');
       }
 
-      return { matches, similarities };
+      const contract = await getContract();
+      const tx = await sendContractTransaction(contract, 'completeRecovery', [pendingRecovery.oldWallet, publicKey]);
+      console.log('Recovery completion sent, waiting for confirmation...');
+      await tx.wait();
+
+      setPendingRecovery(null);
+      setRecoveryStatus('completed');
+      setRegistrationStatus('success');
     } catch (err) {
-      console.error('Error in test comparison:', err);
-      throw err;
+      console.error('Error completing recovery:', err);
+      setError(`Failed to complete recovery: ${decodeContractError(err).message}`);
+      setRecoveryStatus('pending');
     }
-  };
+  }, [primaryWallet, pendingRecovery, getContract, getWalletPublicKey]);
+
+  // Withdraw a pending recovery to the connected wallet
+  const cancelRecovery = useCallback(async () => {
+    if (!primaryWallet || !pendingRecovery) {
+      setError('No recovery pending');
+      return;
+    }
+
+    try {
+      setError(null);
+      const contract = await getContract();
+      const tx = await sendContractTransaction(contract, 'cancelRecovery', [pendingRecovery.oldWallet]);
+      await tx.wait();
+
+      setPendingRecovery(null);
+      setRecoveryStatus('none');
+    } catch (err) {
+      console.error('Error cancelling recovery:', err);
+      setError(`Failed to cancel recovery: ${decodeContractError(err).message}`);
+    }
+  }, [primaryWallet, pendingRecovery, getContract]);
+
+  // Remove the connected wallet's registration and ask the backend to erase its face data.
+  // Resolves to the erasure status, or null if the registration could not be removed.
+  const deregister = useCallback(async (): Promise<ErasureStatus | null> => {
+    if (!primaryWallet) {
+      setError('No wallet connected');
+      return null;
+    }
+
+    try {
+      setIsDeregistering(true);
+      setError(null);
+
+      const contract = await getContract();
+      const tx = await sendContractTransaction(contract, 'deregister', []);
+      console.log('Deregistration sent, waiting for confirmation...');
+      await tx.wait();
+      setRegistrationStatus('none');
+    } catch (err) {
+      console.error('Error deregistering:', err);
+      setError(`Failed to remove registration: ${decodeContractError(err).message}`);
+      setIsDeregistering(false);
+      return null;
+    }
+
+    // The registration is gone on-chain; the backend unpins the data once it has indexed the event
+    try {
+      return await VerifierApiService.getErasureStatus(primaryWallet.address);
+    } catch (err) {
+      console.error('Error checking erasure status:', err);
+      return { wallet: primaryWallet.address, status: 'pending', ipfsHash: null, erasedAt: null };
+    } finally {
+      setIsDeregistering(false);
+    }
+  }, [primaryWallet, getContract]);
+
+  /**
+   * Loads the campaign payouts the connected wallet can claim
+   */
+  const loadClaims = useCallback(async (): Promise<CampaignClaim[]> => {
+    if (!primaryWallet) {
+      setClaims([]);
+      return [];
+    }
+
+    try {
+      const walletClaims = await VerifierApiService.getClaims(primaryWallet.address);
+      setClaims(walletClaims);
+      return walletClaims;
+    } catch (err) {
+      console.error('Error loading claims:', err);
+      return [];
+    }
+  }, [primaryWallet]);
+
+  /**
+   * Claims a campaign payout with its Merkle proof; the connected wallet pays the gas
+   * @param claim A claimable payout from loadClaims
+   */
+  const claimPayout = useCallback(async (claim: CampaignClaim): Promise<boolean> => {
+    if (!claim.proof) {
+      setError('This payout cannot be claimed yet');
+      return false;
+    }
+
+    try {
+      setClaimingCampaignId(claim.campaignId);
+      setError(null);
+
+      const contract = await getContract();
+      const tx = await sendContractTransaction(contract, 'claim', [claim.campaignId, claim.proof]);
+      console.log('Claim sent, waiting for confirmation...');
+      await tx.wait();
+      await loadClaims();
+      return true;
+    } catch (err) {
+      console.error('Error claiming payout:', err);
+      setError(`Failed to claim payout: ${decodeContractError(err).message}`);
+      return false;
+    } finally {
+      setClaimingCampaignId(null);
+    }
+  }, [getContract, loadClaims]);
+
+  // Reset function (for testing purposes)
+  const resetLocalData = useCallback(() => {
+    // Clear any state
+    setError(null);
+    setRegistrationStatus('none');
+    setUniquenessStatus(null);
+    setLastUniquenessCheck(null);
+    setRecoveryStatus('none');
+    setPendingRecovery(null);
+    console.log('Contract interaction state has been reset');
+  }, []);
 
   return {
     registerFaceHash,
@@ -796,9 +785,22 @@ export function useContractInteraction() {
     error,
     registrationStatus,
     uniquenessStatus,
+    lastUniquenessCheck,
+    recoveryStatus,
+    pendingRecovery,
+    loadPendingRecovery,
+    requestRecovery,
+    completeRecovery,
+    cancelRecovery,
+    deregister,
+    isDeregistering,
+    claims,
+    claimingCampaignId,
+    loadClaims,
+    claimPayout,
     walletAddress: primaryWallet?.address,
     ensureValidBytesLike,
-    testCompareEmbeddings,
-    getContract
+    getContract,
+    getRegistration
   };
 } 
\ No newline at end of file
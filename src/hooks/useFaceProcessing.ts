@@ -1,10 +1,17 @@
 import { useState, useCallback, useEffect } from 'react';
 import { uploadToIPFS as uploadToIPFSUtil } from '../utils/ipfsUtils';
 import { FaceApiService } from '../services/FaceApiService';
+import { VerifierApiService } from '../services/VerifierApiService';
+import { createEmbeddingProvider } from '../services/EmbeddingProvider';
+import { EmbeddingModelInfo, EmbeddingTemplateInfo, createEmbeddingPayload, sameEmbeddingModel } from '../../shared/embeddingPayload';
+import { EnrollmentFrame, buildEnrollmentTemplate, measureFrameQuality } from '../utils/enrollmentTemplate';
+
+// Shared by every component using the hook so models are only loaded once
+const embeddingProvider = createEmbeddingProvider();
 
 // Define the props for the hook
 interface UseFaceProcessingProps {
-  onHashGenerated?: (hash: string, embedding?: Float32Array) => void;
+  onHashGenerated?: (hash: string, embedding?: Float32Array, model?: EmbeddingModelInfo) => void;
   onIpfsHashGenerated?: (hash: string) => void;
 }
 
@@ -15,32 +22,36 @@ export function useFaceProcessing({
   const [modelLoading, setModelLoading] = useState(true);
   const [isFaceRegistered, setIsFaceRegistered] = useState(false);
   const [embedding, setEmbedding] = useState<Float32Array | null>(null);
+  const [embeddingModel, setEmbeddingModel] = useState<EmbeddingModelInfo | null>(null);
+  const [templateInfo, setTemplateInfo] = useState<EmbeddingTemplateInfo | null>(null);
   const [hash, setHash] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [similarity, setSimilarity] = useState<number | undefined>();
   const [isUploading, setIsUploading] = useState(false);
   const [ipfsHash, setIpfsHash] = useState<string | null>(null);
-  const [isCloudApiHealthy, setIsCloudApiHealthy] = useState<boolean | null>(null);
+  const [isProviderReady, setIsProviderReady] = useState<boolean | null>(null);
 
-  // Check cloud API health on component mount
+  // Load the face models (or check the remote API) on component mount
   useEffect(() => {
-    async function checkCloudApiHealth() {
+    async function loadEmbeddingProvider() {
       try {
         setModelLoading(true);
-        await FaceApiService.healthCheck();
-        setIsCloudApiHealthy(true);
-        console.log('Cloud API health check successful');
+        await embeddingProvider.load();
+        setIsProviderReady(true);
+        console.log(`Embedding provider ready: ${embeddingProvider.name}`);
       } catch (err) {
-        console.error('Cloud API health check failed:', err);
-        setIsCloudApiHealthy(false);
-        setError('Failed to connect to face analysis API. Please try again later.');
+        console.error('Failed to load embedding provider:', err);
+        setIsProviderReady(false);
+        setError(embeddingProvider.isLocal
+          ? 'Failed to load the face models. Please check that the model files are available.'
+          : 'Failed to connect to face analysis API. Please try again later.');
       } finally {
         setModelLoading(false);
       }
     }
 
-    checkCloudApiHealth();
+    loadEmbeddingProvider();
   }, []);
 
   // Generate a hash from the face embedding
@@ -137,39 +148,23 @@ export function useFaceProcessing({
     return isValid;
   }, []);
 
-  // Process an image using the cloud API
+  // Process an image with the configured embedding provider
   const processImage = useCallback(async (imgDataUrl: string) => {
     try {
-      console.log('Starting face processing with cloud API...');
+      console.log(`Starting face processing with ${embeddingProvider.name}...`);
       setIsProcessing(true);
       setError(null);
       setHash(null);
       setEmbedding(null);
+      setEmbeddingModel(null);
+      setTemplateInfo(null);
 
       // Convert data URL to Blob
       const blob = FaceApiService.dataURLtoBlob(imgDataUrl);
       
-      // Send to cloud API
-      const result = await FaceApiService.analyzeFace(blob);
-      
-      if (!result) {
-        throw new Error('No response from API');
-      }
-      
-      // Check if the API returned an error
-      if (result.error) {
-        throw new Error(`API error: ${result.error}`);
-      }
-      
-      // Check if the API returned an embedding
-      if (!result.embedding || !Array.isArray(result.embedding) || result.embedding.length === 0) {
-        throw new Error('No face embedding returned from API. Make sure your face is clearly visible in the image.');
-      }
-      
-      console.log('Received embedding from cloud API with length:', result.embedding.length);
-      
-      // Convert the array to Float32Array
-      const embeddingArray = new Float32Array(result.embedding);
+      // Detect, align and embed the face
+      const { embedding: embeddingArray, model } = await embeddingProvider.embed(blob);
+      console.log(`Received embedding from ${model.name} with length:`, embeddingArray.length);
       
       // Generate hash from the embedding
       const hashHex = await generateHash(embeddingArray);
@@ -177,10 +172,11 @@ export function useFaceProcessing({
       
       // Set state
       setEmbedding(embeddingArray);
+      setEmbeddingModel(model);
       setHash(hashHex);
       
       if (onHashGenerated) {
-        onHashGenerated(hashHex, embeddingArray);
+        onHashGenerated(hashHex, embeddingArray, model);
       }
       
       console.log('Face processing completed successfully');
@@ -200,8 +196,70 @@ export function useFaceProcessing({
       console.log(`- Max: ${stats.max}`);
       
     } catch (err) {
-      console.error('Error processing image with cloud API:', err);
-      setError(`Failed to process image with cloud API: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error('Error processing image:', err);
+      setError(`Failed to process image: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsProcessing(false);
+    }
+  }, [generateHash, onHashGenerated]);
+
+  /**
+   * Enrolls a face from several frames, averaging their embeddings into a template
+   * @param frames Data URLs; the first must be the liveness-verified frame
+   */
+  const processFrames = useCallback(async (frames: string[]) => {
+    try {
+      console.log(`Building a template from ${frames.length} frames with ${embeddingProvider.name}...`);
+      setIsProcessing(true);
+      setError(null);
+      setHash(null);
+      setEmbedding(null);
+      setEmbeddingModel(null);
+      setTemplateInfo(null);
+
+      let model: EmbeddingModelInfo | null = null;
+      const enrollmentFrames: EnrollmentFrame[] = [];
+      for (const frame of frames) {
+        try {
+          const result = await embeddingProvider.embed(FaceApiService.dataURLtoBlob(frame));
+          if (model && !sameEmbeddingModel(model, result.model)) {
+            throw new Error('Embedding model changed between frames');
+          }
+          model = result.model;
+          enrollmentFrames.push({
+            embedding: result.embedding,
+            box: result.box,
+            quality: await measureFrameQuality(frame, result.box)
+          });
+        } catch (err) {
+          // A frame without a usable face is recorded but never accepted
+          console.warn('Could not embed enrollment frame:', err);
+          enrollmentFrames.push({ embedding: null, quality: await measureFrameQuality(frame) });
+        }
+      }
+
+      if (!model) {
+        throw new Error('No face detected. Make sure your face is clearly visible in the image.');
+      }
+
+      const template = buildEnrollmentTemplate(enrollmentFrames);
+      const accepted = template.info.frames.filter(frame => frame.accepted).length;
+      console.log(`Template built from ${accepted}/${frames.length} frames`);
+
+      const hashHex = await generateHash(template.embedding);
+      console.log('Face hash generated:', hashHex.substring(0, 10) + '...');
+
+      setEmbedding(template.embedding);
+      setEmbeddingModel(model);
+      setTemplateInfo(template.info);
+      setHash(hashHex);
+
+      if (onHashGenerated) {
+        onHashGenerated(hashHex, template.embedding, model);
+      }
+    } catch (err) {
+      console.error('Error building face template:', err);
+      setError(`Failed to process image: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
       setIsProcessing(false);
     }
@@ -210,6 +268,8 @@ export function useFaceProcessing({
   // Reset all face processing state
   const resetFaceProcessing = useCallback(() => {
     setEmbedding(null);
+    setEmbeddingModel(null);
+    setTemplateInfo(null);
     setHash(null);
     setError(null);
     setSimilarity(undefined);
@@ -218,7 +278,7 @@ export function useFaceProcessing({
 
   // Upload the embedding to IPFS
   const uploadToIPFS = useCallback(async () => {
-    if (!embedding) {
+    if (!embedding || !embeddingModel) {
       setError('No face embedding to upload');
       return;
     }
@@ -235,18 +295,14 @@ export function useFaceProcessing({
         return;
       }
       
-      // Convert the Float32Array to a regular array for JSON serialization
-      const embeddingArray = Array.from(embedding);
+      // Create the versioned payload to upload
+      const data = createEmbeddingPayload(embedding, embeddingModel, { template: templateInfo ?? undefined });
       
-      // Create the data object to upload
-      const data = {
-        embedding: embeddingArray,
-        timestamp: Date.now(),
-        version: '1.0'
-      };
+      // Only the verifier can open the pinned embedding
+      const envelope = await VerifierApiService.sealEmbeddingPayload(data);
       
-      console.log('Uploading embedding to IPFS...');
-      const ipfsHash = await uploadToIPFSUtil(data, 'face-embedding');
+      console.log('Uploading encrypted embedding to IPFS...');
+      const ipfsHash = await uploadToIPFSUtil(envelope, 'face-embedding');
       console.log('IPFS upload successful, hash:', ipfsHash);
       
       setIpfsHash(ipfsHash);
@@ -258,7 +314,7 @@ export function useFaceProcessing({
     } finally {
       setIsUploading(false);
     }
-  }, [embedding, onIpfsHashGenerated, isValidEmbedding]);
+  }, [embedding, embeddingModel, templateInfo, onIpfsHashGenerated, isValidEmbedding]);
 
   // Compare two face embeddings
   const compareFaceEmbeddings = useCallback((embedding1: Float32Array, embedding2: Float32Array): number => {
@@ -279,12 +335,15 @@ export function useFaceProcessing({
     isProcessing,
     similarity,
     processImage,
+    processFrames,
     resetFaceProcessing,
     faceEmbedding: embedding, // Expose the embedding as faceEmbedding for clarity
+    embeddingModel,
+    templateInfo,
     isUploading,
     ipfsHash,
     uploadToIPFS,
-    isCloudApiHealthy,
+    isProviderReady,
     compareFaceEmbeddings
   };
 } 
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { useState, useCallback, useRef } from 'react';
+import {
+  LivenessService,
+  LivenessChallenge,
+  LivenessResult,
+  ChallengeResult,
+  FrameObservation,
+  createChallengeSequence
+} from '../services/LivenessService';
+
+// Frames captured per challenge, and the gap between them (about 2.4 seconds per challenge)
+const BURST_FRAMES = 16;
+const BURST_INTERVAL_MS = 150;
+
+// Time to read a prompt before the burst starts
+const PROMPT_LEAD_MS = 800;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs the liveness check: a neutral baseline frame, a randomized sequence of
+ * challenges checked over frame bursts, and a passive spoof check on the baseline.
+ */
+export function useLivenessCheck() {
+  const serviceRef = useRef<LivenessService | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [currentChallenge, setCurrentChallenge] = useState<LivenessChallenge | null>(null);
+  const [result, setResult] = useState<LivenessResult | null>(null);
+
+  const getService = useCallback(() => {
+    if (!serviceRef.current) {
+      serviceRef.current = new LivenessService();
+    }
+    return serviceRef.current;
+  }, []);
+
+  /**
+   * Runs the full liveness check
+   * @param captureFrame Returns the current webcam frame as a data URL
+   * @returns The result; also kept in state
+   */
+  const runLivenessCheck = useCallback(async (captureFrame: () => string | null): Promise<LivenessResult> => {
+    const service = getService();
+    const challenges = createChallengeSequence();
+    const challengeResults: ChallengeResult[] = [];
+
+    const finish = (outcome: LivenessResult) => {
+      setResult(outcome);
+      console.log('Liveness check result:', outcome);
+      return outcome;
+    };
+
+    try {
+      setIsChecking(true);
+      setResult(null);
+      await service.load();
+
+      // Neutral baseline: the frame that will be embedded if the check passes
+      const frame = captureFrame();
+      const baseline = frame ? await service.observe(frame) : null;
+      if (!frame || !baseline) {
+        return finish({ passed: false, challenges: [], passive: null, frame: null, reason: 'No face detected. Look straight at the camera.' });
+      }
+      if (baseline.faceCount > 1) {
+        return finish({ passed: false, challenges: [], passive: null, frame: null, reason: 'More than one face in view.' });
+      }
+
+      for (const challenge of challenges) {
+        setCurrentChallenge(challenge);
+        await sleep(PROMPT_LEAD_MS);
+
+        const observations: (FrameObservation | null)[] = [];
+        for (let i = 0; i < BURST_FRAMES; i++) {
+          const burstFrame = captureFrame();
+          observations.push(burstFrame ? await service.observe(burstFrame) : null);
+          await sleep(BURST_INTERVAL_MS);
+        }
+
+        const challengeResult = service.evaluateChallenge(challenge, baseline, observations);
+        challengeResults.push(challengeResult);
+        if (!challengeResult.passed) {
+          return finish({ passed: false, challenges: challengeResults, passive: null, frame: null, reason: challengeResult.detail });
+        }
+      }
+      setCurrentChallenge(null);
+
+      const passive = await service.checkPassive(frame, baseline);
+      return finish({
+        passed: passive.passed,
+        challenges: challengeResults,
+        passive,
+        frame: passive.passed ? frame : null,
+        reason: passive.passed ? undefined : passive.detail,
+        evidence: passive.passed ? {
+          challenges,
+          textureScore: passive.textureScore,
+          moireScore: passive.moireScore,
+          checkedAt: Math.floor(Date.now() / 1000)
+        } : undefined
+      });
+    } catch (err) {
+      console.error('Liveness check failed:', err);
+      return finish({
+        passed: false,
+        challenges: challengeResults,
+        passive: null,
+        frame: null,
+        reason: `Liveness check could not run: ${err instanceof Error ? err.message : 'Unknown error'}`
+      });
+    } finally {
+      setCurrentChallenge(null);
+      setIsChecking(false);
+    }
+  }, [getService]);
+
+  const resetLiveness = useCallback(() => {
+    setResult(null);
+    setCurrentChallenge(null);
+  }, []);
+
+  return {
+    isChecking,
+    currentChallenge,
+    result,
+    runLivenessCheck,
+    resetLiveness
+  };
+}
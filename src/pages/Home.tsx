@@ -4,19 +4,27 @@ import { FaceProcessor } from "../components/FaceProcessor";
 import { useDynamicContext, DynamicWidget } from "@dynamic-labs/sdk-react-core";
 import { useContractInteraction } from "../hooks/useContractInteraction";
 import { ethers } from "ethers";
+import { EmbeddingModelInfo } from "../../shared/embeddingPayload";
+import { LivenessEvidence } from "../../shared/livenessPolicy";
+import { CampaignClaim, ErasureStatus } from "../services/VerifierApiService";
 
 export default function Home() {
   const [faceHash, setFaceHash] = useState<string | null>(null);
   const [faceEmbedding, setFaceEmbedding] = useState<Float32Array | null>(null);
+  const [faceModel, setFaceModel] = useState<EmbeddingModelInfo | null>(null);
+  const [faceLiveness, setFaceLiveness] = useState<LivenessEvidence | null>(null);
   const [isRegistered, setIsRegistered] = useState<boolean>(false);
   const [registrationTimestamp, setRegistrationTimestamp] = useState<number | null>(null);
   const [isCheckingUniqueness, setIsCheckingUniqueness] = useState(false);
   const [uniquenessResult, setUniquenessResult] = useState<{
     isUnique: boolean;
+    needsReview: boolean;
     similarity: number | null;
   } | null>(null);
   const [ipfsHash, setIpfsHash] = useState<string | null>(null);
   const [isCheckingRegistration, setIsCheckingRegistration] = useState(false);
+  const [erasureStatus, setErasureStatus] = useState<ErasureStatus | null>(null);
+  const [isLegacyRegistration, setIsLegacyRegistration] = useState(false);
   
   const { primaryWallet, user } = useDynamicContext();
   const { 
@@ -28,7 +36,20 @@ export default function Home() {
     error: contractError,
     registrationStatus,
     uniquenessStatus,
-    getContract
+    lastUniquenessCheck,
+    recoveryStatus,
+    pendingRecovery,
+    loadPendingRecovery,
+    requestRecovery,
+    completeRecovery,
+    cancelRecovery,
+    deregister,
+    isDeregistering,
+    claims,
+    claimingCampaignId,
+    loadClaims,
+    claimPayout,
+    getRegistration
   } = useContractInteraction();
 
   // Check registration status when wallet connects
@@ -38,17 +59,13 @@ export default function Home() {
         try {
           setIsCheckingRegistration(true);
           
-          // Get contract instance
-          const contract = await getContract();
+          // Check if the wallet is registered directly from the contract (or the legacy one during a migration)
+          const lookup = await getRegistration(primaryWallet.address);
           
-          // Check if the wallet is registered directly from the contract
-          const registration = await contract.getRegistration(primaryWallet.address);
-          
-          // Check if the wallet is registered (non-zero address)
-          const isWalletRegistered = registration.wallet !== ethers.ZeroAddress;
-          
-          if (isWalletRegistered) {
+          if (lookup) {
+            const { registration } = lookup;
             setIsRegistered(true);
+            setIsLegacyRegistration(lookup.source === 'legacy');
             // Convert BigInt timestamp to number
             const timestamp = Number(registration.timestamp);
             setRegistrationTimestamp(timestamp);
@@ -76,7 +93,21 @@ export default function Home() {
     };
     
     checkWalletRegistration();
-  }, [primaryWallet, faceHash, verifyFaceHash, getContract]);
+  }, [primaryWallet, faceHash, verifyFaceHash, getRegistration]);
+
+  // Pick up a recovery to this wallet started in an earlier session
+  useEffect(() => {
+    if (primaryWallet) {
+      loadPendingRecovery();
+    }
+  }, [primaryWallet, loadPendingRecovery]);
+
+  // Load the campaign payouts a registered wallet can claim; a legacy registration cannot claim until migrated
+  useEffect(() => {
+    if (primaryWallet && isRegistered && !isLegacyRegistration) {
+      loadClaims();
+    }
+  }, [primaryWallet, isRegistered, isLegacyRegistration, loadClaims]);
 
   // Update state when registration status changes
   useEffect(() => {
@@ -92,16 +123,19 @@ export default function Home() {
       setIsCheckingUniqueness(false);
       setUniquenessResult({
         isUnique: uniquenessStatus === 'unique',
-        similarity: null
+        needsReview: uniquenessStatus === 'review',
+        similarity: lastUniquenessCheck?.result.matches[0]?.similarity ?? null
       });
     }
-  }, [uniquenessStatus]);
+  }, [uniquenessStatus, lastUniquenessCheck]);
 
   // Handle face hash generation
-  const handleFaceHashGenerated = (hash: string, embedding?: Float32Array) => {
+  const handleFaceHashGenerated = (hash: string, embedding?: Float32Array, model?: EmbeddingModelInfo, liveness?: LivenessEvidence) => {
     setFaceHash(hash);
     if (embedding) {
       setFaceEmbedding(embedding);
+      setFaceModel(model ?? null);
+      setFaceLiveness(liveness ?? null);
     }
     setUniquenessResult(null);
   };
@@ -126,21 +160,16 @@ export default function Home() {
     setIsCheckingUniqueness(true);
     try {
       console.log("Checking face uniqueness...");
-      const isUnique = await checkFaceUniqueness(faceEmbedding, ipfsHash);
-      console.log("Uniqueness check result:", isUnique);
+      const attestation = await checkFaceUniqueness(faceEmbedding, ipfsHash, faceModel ?? undefined, faceLiveness ?? undefined);
+      console.log("Uniqueness check result:", !!attestation);
       
-      if (isUnique) {
-        // If unique, proceed with registration
+      if (attestation) {
+        // If unique, proceed with registration using the verifier's attestation
         console.log("Face is unique, proceeding with registration...");
-        await registerFaceHash(faceHash, ipfsHash);
+        await registerFaceHash(faceHash, ipfsHash, attestation);
         console.log("Registration completed");
       } else {
         console.log("Face is not unique, cannot register");
-        // Set uniqueness result to show the user
-        setUniquenessResult({
-          isUnique: false,
-          similarity: null
-        });
       }
     } catch (error: unknown) {
       console.error("Error during registration process:", error);
@@ -148,6 +177,7 @@ export default function Home() {
       // Show error in UI
       setUniquenessResult({
         isUnique: false,
+        needsReview: false,
         similarity: null
       });
     } finally {
@@ -155,17 +185,51 @@ export default function Home() {
     }
   };
 
+  // Move the registration this face matches to the connected wallet
+  const handleRequestRecovery = async () => {
+    if (!faceEmbedding || !faceHash || !ipfsHash) {
+      console.error("Missing face data or IPFS hash for recovery");
+      return;
+    }
+    await requestRecovery(faceEmbedding, faceHash, ipfsHash, faceModel ?? undefined, faceLiveness ?? undefined);
+  };
+
   // Function to reset identity (for testing purposes)
   const resetIdentity = () => {
     resetLocalData();
     setIsRegistered(false);
+    setIsLegacyRegistration(false);
     setRegistrationTimestamp(null);
     setFaceHash(null);
     setFaceEmbedding(null);
+    setFaceModel(null);
     setUniquenessResult(null);
     setIpfsHash(null);
   };
 
+  // Remove the registration and the face data behind it
+  const handleDeregister = async () => {
+    if (!window.confirm("This removes your registration from the blockchain and deletes your stored face data. Continue?")) {
+      return;
+    }
+
+    const status = await deregister();
+    if (status) {
+      resetIdentity();
+      setErasureStatus(status);
+    }
+  };
+
+  // Format a campaign payout in ETH or raw token units
+  const formatClaimAmount = (claim: CampaignClaim) => {
+    if (!claim.amount) {
+      return "Unknown amount";
+    }
+    return !claim.token || claim.token === ethers.ZeroAddress
+      ? `${ethers.formatEther(claim.amount)} ETH`
+      : `${claim.amount} tokens (${claim.token.substring(0, 6)}...${claim.token.substring(claim.token.length - 4)})`;
+  };
+
   // Format timestamp to readable date
   const formatTimestamp = (timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleString();
@@ -225,6 +289,11 @@ export default function Home() {
                   Registered on: {formatTimestamp(registrationTimestamp)}
                 </p>
               )}
+              {isLegacyRegistration && (
+                <p className="text-yellow-400 mt-2 text-sm">
+                  Your registration is being moved to the new IntelliFi contract. Rewards and data deletion become available once it has been migrated.
+                </p>
+              )}
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-8">
@@ -253,6 +322,60 @@ export default function Home() {
               </div>
             </div>
             
+            {/* Campaign payouts the user claims themselves */}
+            {claims.length > 0 && (
+              <div className="mt-6 bg-gray-700/50 p-6 rounded-lg">
+                <h3 className="text-xl font-medium text-white mb-2">Rewards</h3>
+                <p className="text-gray-300 text-sm">
+                  Payouts you have been verified for. Claiming sends a transaction from your wallet.
+                </p>
+                <ul className="mt-4 space-y-3">
+                  {claims.map(claim => (
+                    <li key={claim.campaignId} className="flex items-center justify-between bg-gray-800/60 rounded-lg px-4 py-3">
+                      <div>
+                        <p className="text-white font-medium">Campaign #{claim.campaignId}: {formatClaimAmount(claim)}</p>
+                        {claim.endsAt && (
+                          <p className="text-gray-400 text-xs">Claimable until {formatTimestamp(claim.endsAt)}</p>
+                        )}
+                      </div>
+                      {claim.status === 'claimable' ? (
+                        <button
+                          className="rounded-lg px-4 py-2 text-sm font-medium transition-colors bg-green-600 hover:bg-green-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                          onClick={() => claimPayout(claim)}
+                          disabled={claimingCampaignId !== null}
+                        >
+                          {claimingCampaignId === claim.campaignId ? "Claiming..." : "Claim"}
+                        </button>
+                      ) : (
+                        <span className={`text-sm ${claim.status === 'claimed' ? 'text-green-400' : 'text-yellow-400'}`}>
+                          {claim.status === 'claimed' ? "Claimed" : "Available after the next batch is published"}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {/* Right to erasure */}
+            <div className="mt-6 bg-gray-700/50 p-6 rounded-lg">
+              <h3 className="text-xl font-medium text-white mb-2">Delete My Face Data</h3>
+              <p className="text-gray-300 text-sm">
+                Removes your registration from the contract and unpins your encrypted face data from IPFS.
+                The face hash already recorded in past blockchain transactions cannot be erased.
+              </p>
+              <button
+                className="w-full mt-4 rounded-lg px-4 py-3 text-base font-medium transition-colors bg-red-700 hover:bg-red-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                onClick={handleDeregister}
+                disabled={isDeregistering || isLegacyRegistration}
+              >
+                {isDeregistering ? "Removing Registration..." : "Delete My Face Data"}
+              </button>
+              {contractError && (
+                <p className="mt-2 text-sm text-red-400">{contractError}</p>
+              )}
+            </div>
+            
             {/* Projects Section */}
             <div className="mt-10 border-t border-gray-700 pt-8">
               <h3 className="text-2xl font-bold text-white text-center mb-6">Projects Using Your Verified Identity</h3>
@@ -441,6 +564,21 @@ export default function Home() {
           <div className="absolute bottom-1/3 left-0 w-72 h-72 bg-gradient-to-tr from-purple-600/30 to-transparent blur-3xl rounded-full"></div>
         </div>
         
+        {/* Outcome of a deregistration */}
+        {erasureStatus && (
+          <div className="relative z-10 mb-8 p-4 bg-gray-800/80 rounded-lg border border-gray-700/70">
+            <div className="flex items-center">
+              <CheckCircleIcon className="h-6 w-6 text-green-400" />
+              <p className="ml-2 text-green-400 font-medium">Registration Removed</p>
+            </div>
+            <p className="mt-2 text-sm text-gray-300">
+              {erasureStatus.status === 'erased'
+                ? "Your face data has been unpinned from IPFS and purged from the verifier."
+                : "Your face data will be unpinned from IPFS and purged from the verifier shortly."}
+            </p>
+          </div>
+        )}
+        
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start relative z-10">
           {/* Face Processor Section */}
           <div className="space-y-4">
@@ -486,6 +624,36 @@ export default function Home() {
               </div>
             )}
             
+            {/* Pending recovery to this wallet */}
+            {pendingRecovery && (
+              <div className="bg-gray-800/80 backdrop-blur-sm rounded-xl shadow-md border border-gray-700/70 p-6">
+                <div className="flex items-center">
+                  <LockClosedIcon className="h-6 w-6 text-indigo-400" />
+                  <p className="ml-2 text-indigo-300 font-medium">Recovery Pending</p>
+                </div>
+                <p className="mt-2 text-sm text-gray-300">
+                  The registration of {pendingRecovery.oldWallet.substring(0, 6)}...{pendingRecovery.oldWallet.substring(pendingRecovery.oldWallet.length - 4)} will
+                  move to this wallet. It can be completed after {formatTimestamp(pendingRecovery.readyAt)}.
+                </p>
+                <div className="flex gap-3 mt-4">
+                  <button
+                    className="flex-1 rounded-lg px-4 py-3 text-base font-medium transition-colors bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-500 hover:to-purple-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={completeRecovery}
+                    disabled={recoveryStatus === 'completing' || Date.now() / 1000 < pendingRecovery.readyAt}
+                  >
+                    {recoveryStatus === 'completing' ? "Completing Recovery..." : "Complete Recovery"}
+                  </button>
+                  <button
+                    className="flex-1 rounded-lg px-4 py-3 text-base font-medium transition-colors bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={cancelRecovery}
+                    disabled={recoveryStatus === 'completing'}
+                  >
+                    Cancel Recovery
+                  </button>
+                </div>
+              </div>
+            )}
+            
             {/* Uniqueness Check Results */}
             {uniquenessResult && !isRegistered && (
               <div className="bg-gray-800/80 backdrop-blur-sm rounded-xl shadow-md border border-gray-700/70 p-6">
@@ -499,6 +667,23 @@ export default function Home() {
                       This face hasn't been registered by any other wallet. You can proceed with registration.
                     </p>
                   </div>
+                ) : uniquenessResult.needsReview ? (
+                  <div className="p-4 bg-amber-900/50 rounded-lg backdrop-blur-sm">
+                    <div className="flex items-center">
+                      <ExclamationTriangleIcon className="h-6 w-6 text-amber-400" />
+                      <p className="ml-2 text-amber-400 font-medium">Manual Review Required</p>
+                    </div>
+                    <p className="mt-2 text-sm text-gray-300">
+                      This face is similar to an existing registration, but not similar enough to be sure it is the same person.
+                      {uniquenessResult.similarity !== null && (
+                        <span> Similarity score: {(uniquenessResult.similarity * 100).toFixed(1)}%</span>
+                      )}
+                    </p>
+                    
+                    <p className="mt-3 text-sm text-amber-400">
+                      Your check has been sent for manual review. Once it is approved, register again with this same capture; a new capture replaces the one under review.
+                    </p>
+                  </div>
                 ) : (
                   <div className="p-4 bg-amber-900/50 rounded-lg backdrop-blur-sm">
                     <div className="flex items-center">
@@ -515,6 +700,23 @@ export default function Home() {
                     <p className="mt-3 text-sm text-amber-400">
                       To prevent identity fraud, you cannot register this face. Please try with a different face.
                     </p>
+                    
+                    {/* Recovery for users who lost the wallet holding their registration */}
+                    {!pendingRecovery && (
+                      <div className="mt-4 border-t border-amber-800/60 pt-4">
+                        <p className="text-sm text-gray-300">
+                          Lost access to the wallet you registered with? You can move your registration to this wallet.
+                          The move completes after a waiting period, during which the old wallet can cancel it.
+                        </p>
+                        <button
+                          className="w-full mt-3 rounded-lg px-4 py-3 text-base font-medium transition-colors bg-amber-600 hover:bg-amber-500 text-white disabled:opacity-50 disabled:cursor-not-allowed"
+                          onClick={handleRequestRecovery}
+                          disabled={!user || !ipfsHash || recoveryStatus === 'requesting'}
+                        >
+                          {recoveryStatus === 'requesting' ? "Requesting Recovery..." : "Recover My Registration"}
+                        </button>
+                      </div>
+                    )}
                   </div>
                 )}
                 
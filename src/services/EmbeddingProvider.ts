@@ -0,0 +1,91 @@
+import { EmbeddingModelInfo } from "../../shared/embeddingPayload";
+import { LocalEmbeddingProvider } from "./LocalEmbeddingProvider";
+import { RemoteEmbeddingProvider } from "./RemoteEmbeddingProvider";
+
+// Which provider embeds faces: "local" (in the browser, default) or "remote" (the analyze API)
+const EMBEDDING_PROVIDER = import.meta.env.VITE_EMBEDDING_PROVIDER || "local";
+
+// Opt-in: fall back to the remote analyze API when the local models cannot be loaded.
+// Images are then sent off the device, so this is off unless explicitly enabled.
+const REMOTE_FALLBACK = import.meta.env.VITE_EMBEDDING_REMOTE_FALLBACK === "true";
+
+// Face bounding box in source image pixels
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+}
+
+export interface FaceEmbeddingResult {
+  embedding: Float32Array;
+  // The model that produced the embedding; stored with it in the IPFS payload
+  model: EmbeddingModelInfo;
+  box?: FaceBox;
+}
+
+/**
+ * Turns a face image into an embedding. Implementations either run the models
+ * in the browser or delegate to a remote service.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Whether raw images stay on the device
+  readonly isLocal: boolean;
+  /**
+   * Prepares the provider (loads models or checks the remote service)
+   * @throws If the provider cannot be used
+   */
+  load(): Promise<void>;
+  /**
+   * Detects the most prominent face in an image and embeds it
+   * @throws If no face is found
+   */
+  embed(image: Blob): Promise<FaceEmbeddingResult>;
+}
+
+// Uses the primary provider, switching to the fallback if it fails to load
+class FallbackEmbeddingProvider implements EmbeddingProvider {
+  private active: EmbeddingProvider;
+
+  constructor(private primary: EmbeddingProvider, private fallback: EmbeddingProvider) {
+    this.active = primary;
+  }
+
+  get name(): string {
+    return this.active.name;
+  }
+
+  get isLocal(): boolean {
+    return this.active.isLocal;
+  }
+
+  async load(): Promise<void> {
+    try {
+      await this.primary.load();
+      this.active = this.primary;
+    } catch (err) {
+      console.warn(`Embedding provider ${this.primary.name} unavailable, falling back to ${this.fallback.name}:`, err);
+      await this.fallback.load();
+      this.active = this.fallback;
+    }
+  }
+
+  embed(image: Blob): Promise<FaceEmbeddingResult> {
+    return this.active.embed(image);
+  }
+}
+
+/**
+ * Creates the embedding provider configured through VITE_EMBEDDING_PROVIDER
+ * and VITE_EMBEDDING_REMOTE_FALLBACK
+ */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  if (EMBEDDING_PROVIDER === "remote") {
+    return new RemoteEmbeddingProvider();
+  }
+
+  const local = new LocalEmbeddingProvider();
+  return REMOTE_FALLBACK ? new FallbackEmbeddingProvider(local, new RemoteEmbeddingProvider()) : local;
+}
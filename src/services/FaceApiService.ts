@@ -1,4 +1,13 @@
 import axios from "axios";
+import { isEmbeddingEnvelope } from "../utils/embeddingEnvelope";
+import {
+  ANALYZE_FACE_MODEL,
+  EmbeddingModelInfo,
+  assertComparableModels,
+  embeddingModelFor,
+  parseEmbeddingPayload
+} from "../../shared/embeddingPayload";
+import { classifySimilarity, similarityPolicyFor } from "../../shared/similarityPolicy";
 
 // List of IPFS gateways to try
 const IPFS_GATEWAYS = [
@@ -84,13 +93,15 @@ export class FaceApiService {
    * Compares a face image with a face stored in IPFS using the external API
    * @param imageData The image data as a Blob or Buffer, or a face embedding
    * @param ipfsHash The IPFS hash of the stored face embedding
-   * @param threshold Optional similarity threshold (default: 0.5)
-   * @returns The comparison result with similarity score and match status
+   * @param embeddingModel The model that produced an embedding passed as imageData
+   *   (default: the analyze API)
+   * @returns The comparison result with similarity score and match status; matches are
+   *   decided by the similarity policy of the stored embedding's model
    */
   static async compareFaceWithIpfs(
     imageData: Blob | Buffer | Float32Array,
     ipfsHash: string,
-    threshold: string = "0.5"
+    embeddingModel?: EmbeddingModelInfo
   ) {
     try {
       console.log('Starting face comparison with IPFS hash:', ipfsHash);
@@ -103,17 +114,20 @@ export class FaceApiService {
         console.log('Detected Float32Array embedding, using direct IPFS comparison');
         
         try {
-          // Define the expected structure of the IPFS content
-          interface IPFSEmbeddingData {
-            embedding: number[];
-            timestamp: number;
-            version: string;
-          }
+          const probeModel = embeddingModel ?? embeddingModelFor(ANALYZE_FACE_MODEL, imageData.length);
           
           // Fetch the embedding data from IPFS
-          const embeddingData = await FaceApiService.fetchFromIPFS<IPFSEmbeddingData>(cleanIpfsHash);
+          const embeddingData = await FaceApiService.fetchFromIPFS(cleanIpfsHash);
+          
+          // Encrypted payloads can only be opened by the verifier, which compares them
+          // only against the whole registry in its uniqueness check
+          if (isEmbeddingEnvelope(embeddingData)) {
+            throw new Error('Encrypted embeddings can only be compared by the verifier\'s uniqueness check');
+          }
           
-          if (embeddingData && Array.isArray(embeddingData.embedding)) {
+          if (embeddingData) {
+            // Validates the payload and upgrades older versions
+            const payload = parseEmbeddingPayload(embeddingData);
             console.log("Successfully retrieved embedding from IPFS directly");
             
             // Convert the Float32Array to a regular array
@@ -122,16 +136,19 @@ export class FaceApiService {
             // Use our local comparison method
             const similarity = FaceApiService.compareFaceEmbeddings(
               sourceEmbedding, 
-              embeddingData.embedding
+              payload.embedding,
+              probeModel,
+              payload.model
             );
             
             console.log("Local comparison similarity:", similarity);
-            const thresholdValue = parseFloat(threshold);
+            const decision = classifySimilarity(similarity, similarityPolicyFor(payload.model));
             
             return {
               success: true,
               similarity,
-              isMatch: similarity > thresholdValue,
+              decision,
+              isMatch: decision === "match",
               method: "local_embedding_comparison"
             };
           } else {
@@ -155,7 +172,7 @@ export class FaceApiService {
       // Append the image file, IPFS hash, and threshold to the form data
       formData.append("file", blob, "image.jpg");
       formData.append("ipfs_hash", cleanIpfsHash);
-      formData.append("threshold", threshold);
+      formData.append("threshold", similarityPolicyFor(ANALYZE_FACE_MODEL).threshold.toString());
       
       // Add a list of fallback gateways to try if the primary one fails
       formData.append("fallback_gateways", JSON.stringify([
@@ -194,17 +211,13 @@ export class FaceApiService {
           try {
             console.log("Attempting to fetch IPFS content directly using multiple gateways...");
             
-            // Define the expected structure of the IPFS content
-            interface IPFSEmbeddingData {
-              embedding: number[];
-              timestamp: number;
-              version: string;
-            }
-            
             // Fetch the embedding data from IPFS
-            const embeddingData = await FaceApiService.fetchFromIPFS<IPFSEmbeddingData>(cleanIpfsHash);
+            const embeddingData = await FaceApiService.fetchFromIPFS(cleanIpfsHash);
+            const payload = embeddingData && !isEmbeddingEnvelope(embeddingData)
+              ? parseEmbeddingPayload(embeddingData)
+              : null;
             
-            if (embeddingData && Array.isArray(embeddingData.embedding)) {
+            if (payload) {
               console.log("Successfully retrieved embedding from IPFS directly");
               
               // Convert the blob to an array buffer
@@ -217,16 +230,19 @@ export class FaceApiService {
                 // Use our local comparison method
                 const similarity = FaceApiService.compareFaceEmbeddings(
                   Array.from(imageEmbedding), 
-                  embeddingData.embedding
+                  payload.embedding,
+                  embeddingModelFor(ANALYZE_FACE_MODEL, imageEmbedding.length),
+                  payload.model
                 );
                 
                 console.log("Local comparison similarity:", similarity);
-                const thresholdValue = parseFloat(threshold);
+                const decision = classifySimilarity(similarity, similarityPolicyFor(payload.model));
                 
                 return {
                   success: true,
                   similarity,
-                  isMatch: similarity > thresholdValue,
+                  decision,
+                  isMatch: decision === "match",
                   method: "local_fallback"
                 };
               }
@@ -277,11 +293,18 @@ export class FaceApiService {
     }
   }
 
-  // Local implementation for comparing face embeddings
+  // Local implementation for comparing face embeddings. When the producing models
+  // are known, embeddings from different models are refused rather than compared.
   static compareFaceEmbeddings(
     embedding1: number[],
-    embedding2: number[]
+    embedding2: number[],
+    model1?: EmbeddingModelInfo,
+    model2?: EmbeddingModelInfo
   ): number {
+    if (model1 && model2) {
+      assertComparableModels(model1, model2);
+    }
+    
     // Ensure arrays are the same length
     if (embedding1.length !== embedding2.length) {
       console.error(`Embedding dimension mismatch: ${embedding1.length} vs ${embedding2.length}`);
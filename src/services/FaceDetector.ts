@@ -0,0 +1,81 @@
+import type { InferenceSession, Tensor } from "onnxruntime-web";
+import { FaceBox } from "./EmbeddingProvider";
+import { OnnxRuntime, createCanvasContext, loadOnnxRuntime, toChwTensorData } from "../utils/onnxRuntime";
+import { DETECTOR_INPUT_SIZE, DETECTOR_MEAN, DETECTOR_STD, DETECTOR_STRIDES, Point, decodeDetections } from "../../shared/faceDetection";
+
+// Detector model, served from public/models by default (see README)
+const DETECTOR_MODEL_URL = import.meta.env.VITE_FACE_DETECTOR_MODEL_URL || "/models/det_500m.onnx";
+
+// A detected face with its five landmarks: left eye, right eye, nose tip,
+// left and right mouth corners (as they appear in the image)
+export interface FaceDetection {
+  box: FaceBox;
+  landmarks: Point[];
+}
+
+/**
+ * SCRFD face detector running in the browser with onnxruntime-web.
+ * Returns face boxes and five landmarks per face, in source image pixels.
+ */
+export class FaceDetector {
+  private session: InferenceSession | null = null;
+  private ort: OnnxRuntime | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(private modelUrl: string = DETECTOR_MODEL_URL) {}
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        this.ort = await loadOnnxRuntime();
+        this.session = await this.ort.InferenceSession.create(this.modelUrl, { executionProviders: ["wasm"] });
+      })().catch(err => {
+        this.loading = null;
+        throw err;
+      });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Letterboxes the image into the detector input and decodes SCRFD outputs
+   * (see shared/faceDetection.ts)
+   * @returns Faces after non-maximum suppression, highest score first
+   */
+  async detect(image: CanvasImageSource & { width: number, height: number }): Promise<FaceDetection[]> {
+    await this.load();
+    const ort = this.ort!;
+    const session = this.session!;
+    const size = DETECTOR_INPUT_SIZE;
+
+    const scale = Math.min(size / image.width, size / image.height);
+    const context = createCanvasContext(size);
+    context.fillStyle = "black";
+    context.fillRect(0, 0, size, size);
+    context.drawImage(image, 0, 0, image.width * scale, image.height * scale);
+
+    const pixels = context.getImageData(0, 0, size, size).data;
+    const input = new ort.Tensor("float32", toChwTensorData(pixels, size, DETECTOR_MEAN, DETECTOR_STD), [1, 3, size, size]);
+    const outputs = await session.run({ [session.inputNames[0]]: input });
+
+    // Outputs are ordered scores, boxes, landmarks, each once per stride
+    const outputAt = (index: number): Float32Array => (outputs[session.outputNames[index]] as Tensor).data as Float32Array;
+    const levels = DETECTOR_STRIDES.map((stride, level) => ({
+      stride,
+      scores: outputAt(level),
+      boxes: outputAt(level + DETECTOR_STRIDES.length),
+      landmarks: outputAt(level + DETECTOR_STRIDES.length * 2)
+    }));
+    return decodeDetections(levels, scale).map(({ box, score, landmarks }) => ({ box: { ...box, score }, landmarks }));
+  }
+}
+
+let sharedDetector: FaceDetector | null = null;
+
+// Detector shared by the embedding pipeline and the liveness check, so the model loads once
+export function getFaceDetector(): FaceDetector {
+  if (!sharedDetector) {
+    sharedDetector = new FaceDetector();
+  }
+  return sharedDetector;
+}
@@ -0,0 +1,365 @@
+import { FaceDetection, FaceDetector, getFaceDetector } from "./FaceDetector";
+import { createCanvasContext } from "../utils/onnxRuntime";
+import { Point, boxIou } from "../../shared/faceDetection";
+import { LivenessChallenge, LivenessEvidence, MAX_MOIRE_SCORE, MIN_TEXTURE_SCORE } from "../../shared/livenessPolicy";
+
+export type { LivenessChallenge };
+
+// Prompts shown while a challenge is running
+export const CHALLENGE_PROMPTS: Record<LivenessChallenge, string> = {
+  blink: 'Blink your eyes',
+  turnLeft: 'Turn your head to your left',
+  turnRight: 'Turn your head to your right',
+  smile: 'Smile'
+};
+
+// Thresholds below are relative to the user's own neutral baseline frame, so they
+// hold across cameras and face sizes. Tune them against real captures, not guesses.
+
+// Head yaw change (nose offset from the eye midpoint, in inter-eye distances)
+const TURN_YAW_DELTA = 0.25;
+// Yaw drift tolerated while blinking or smiling
+const STILL_YAW_TOLERANCE = 0.15;
+// Mouth width increase (relative to baseline) that counts as a smile
+const SMILE_WIDTH_RATIO = 1.12;
+// Eye patch contrast drop that counts as closed eyes, and recovery that counts as reopened
+const BLINK_CLOSED_RATIO = 0.75;
+const BLINK_OPEN_RATIO = 0.9;
+// Fraction of burst frames that must contain the same single face
+const MIN_FACE_COVERAGE = 0.8;
+// Minimum overlap between consecutive face boxes; lower means the face was swapped
+const MIN_TRACK_IOU = 0.3;
+
+// Passive check: size of the grayscale face crop that is analysed
+const PASSIVE_CROP_SIZE = 64;
+// Texture and moiré limits are in shared/livenessPolicy.ts, which the verifier enforces too
+
+// What the liveness check measures in a single frame
+export interface FrameObservation {
+  detection: FaceDetection;
+  faceCount: number;
+  yaw: number;
+  mouthWidth: number;
+  eyeContrast: number;
+}
+
+export interface ChallengeResult {
+  challenge: LivenessChallenge;
+  passed: boolean;
+  detail: string;
+}
+
+export interface PassiveLivenessResult {
+  passed: boolean;
+  textureScore: number;
+  moireScore: number;
+  detail: string;
+}
+
+export interface LivenessResult {
+  passed: boolean;
+  challenges: ChallengeResult[];
+  passive: PassiveLivenessResult | null;
+  // The neutral frame the checks were anchored to; the one that gets embedded
+  frame: string | null;
+  reason?: string;
+  // What the verifier needs to see before it attests to the capture; only set when passed
+  evidence?: LivenessEvidence;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1]);
+}
+
+function randomIndex(length: number): number {
+  const value = new Uint32Array(1);
+  crypto.getRandomValues(value);
+  return value[0] % length;
+}
+
+/**
+ * Picks a random, unpredictable challenge sequence so a pre-recorded video
+ * cannot know what to perform. Contains at most one head turn.
+ * @param length Number of challenges
+ */
+export function createChallengeSequence(length = 2): LivenessChallenge[] {
+  const pool: LivenessChallenge[] = ['blink', 'smile', randomIndex(2) === 0 ? 'turnLeft' : 'turnRight'];
+  const sequence: LivenessChallenge[] = [];
+  while (sequence.length < Math.min(length, pool.length)) {
+    sequence.push(pool.splice(randomIndex(pool.length), 1)[0]);
+  }
+  return sequence;
+}
+
+// Loads a data URL into an image element
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load frame'));
+    img.src = src;
+  });
+}
+
+// Grayscale pixels of an axis-aligned square region, resampled to size x size
+function grayscaleRegion(image: HTMLImageElement, centerX: number, centerY: number, side: number, size: number): Float32Array {
+  const context = createCanvasContext(size);
+  context.drawImage(image, centerX - side / 2, centerY - side / 2, side, side, 0, 0, size, size);
+  const pixels = context.getImageData(0, 0, size, size).data;
+  const gray = new Float32Array(size * size);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = pixels[i * 4] * 0.299 + pixels[i * 4 + 1] * 0.587 + pixels[i * 4 + 2] * 0.114;
+  }
+  return gray;
+}
+
+function standardDeviation(values: Float32Array): number {
+  let mean = 0;
+  for (let i = 0; i < values.length; i++) {
+    mean += values[i] / values.length;
+  }
+  let variance = 0;
+  for (let i = 0; i < values.length; i++) {
+    variance += (values[i] - mean) ** 2 / values.length;
+  }
+  return Math.sqrt(variance);
+}
+
+/**
+ * Mean absolute Laplacian relative to the crop's contrast. Live skin has fine
+ * texture; printed or re-displayed faces lose most of it.
+ */
+function textureScore(gray: Float32Array, size: number): number {
+  let total = 0;
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const i = y * size + x;
+      total += Math.abs(4 * gray[i] - gray[i - 1] - gray[i + 1] - gray[i - size] - gray[i + size]);
+    }
+  }
+  const contrast = standardDeviation(gray);
+  return contrast > 0 ? total / ((size - 2) ** 2) / contrast : 0;
+}
+
+/**
+ * Strongest mid/high-frequency peak of the crop's 2D spectrum, relative to the
+ * mean magnitude of its frequency ring. Uses a separable DFT on a Hann-windowed crop.
+ */
+function moireScore(gray: Float32Array, size: number): number {
+  const windowed = new Float32Array(gray.length);
+  const hann = (i: number) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  let mean = 0;
+  for (let i = 0; i < gray.length; i++) {
+    mean += gray[i] / gray.length;
+  }
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      windowed[y * size + x] = (gray[y * size + x] - mean) * hann(x) * hann(y);
+    }
+  }
+
+  // DFT along rows, then along columns
+  const cos = new Float32Array(size * size);
+  const sin = new Float32Array(size * size);
+  for (let k = 0; k < size; k++) {
+    for (let n = 0; n < size; n++) {
+      cos[k * size + n] = Math.cos((2 * Math.PI * k * n) / size);
+      sin[k * size + n] = -Math.sin((2 * Math.PI * k * n) / size);
+    }
+  }
+
+  const rowRe = new Float32Array(size * size);
+  const rowIm = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let k = 0; k < size; k++) {
+      let re = 0, im = 0;
+      for (let n = 0; n < size; n++) {
+        const value = windowed[y * size + n];
+        re += value * cos[k * size + n];
+        im += value * sin[k * size + n];
+      }
+      rowRe[y * size + k] = re;
+      rowIm[y * size + k] = im;
+    }
+  }
+
+  const magnitude = new Float32Array(size * size);
+  for (let kx = 0; kx < size; kx++) {
+    for (let ky = 0; ky < size; ky++) {
+      let re = 0, im = 0;
+      for (let n = 0; n < size; n++) {
+        const c = cos[ky * size + n];
+        const s = sin[ky * size + n];
+        re += rowRe[n * size + kx] * c - rowIm[n * size + kx] * s;
+        im += rowRe[n * size + kx] * s + rowIm[n * size + kx] * c;
+      }
+      magnitude[ky * size + kx] = Math.hypot(re, im);
+    }
+  }
+
+  // Group bins by integer radius from DC; only mid/high frequencies matter
+  const half = size / 2;
+  const minRadius = Math.floor(size / 8);
+  const ringSum = new Float32Array(half + 1);
+  const ringCount = new Float32Array(half + 1);
+  const radiusOf = (kx: number, ky: number) => {
+    const fx = kx <= half ? kx : kx - size;
+    const fy = ky <= half ? ky : ky - size;
+    return Math.round(Math.hypot(fx, fy));
+  };
+
+  for (let ky = 0; ky < size; ky++) {
+    for (let kx = 0; kx < size; kx++) {
+      const r = radiusOf(kx, ky);
+      if (r >= minRadius && r <= half) {
+        ringSum[r] += magnitude[ky * size + kx];
+        ringCount[r]++;
+      }
+    }
+  }
+
+  let peak = 0;
+  for (let ky = 0; ky < size; ky++) {
+    for (let kx = 0; kx < size; kx++) {
+      const r = radiusOf(kx, ky);
+      if (r >= minRadius && r <= half && ringSum[r] > 0) {
+        peak = Math.max(peak, magnitude[ky * size + kx] / (ringSum[r] / ringCount[r]));
+      }
+    }
+  }
+  return peak;
+}
+
+/**
+ * Active and passive liveness checks on webcam frames.
+ *
+ * The active check compares a short burst of frames against a neutral baseline
+ * using the detector's five landmarks: head yaw from the nose offset, smile from
+ * mouth width, and blinks from the contrast of the eye regions. The passive check
+ * looks for the flat texture and moiré patterns of printed or re-displayed faces.
+ */
+export class LivenessService {
+  constructor(private detector: FaceDetector = getFaceDetector()) {}
+
+  load(): Promise<void> {
+    return this.detector.load();
+  }
+
+  /**
+   * Measures a single frame
+   * @returns null if no face was found
+   */
+  async observe(frame: string): Promise<FrameObservation | null> {
+    const image = await loadImage(frame);
+    const detections = await this.detector.detect(image);
+    if (detections.length === 0) {
+      return null;
+    }
+
+    const detection = detections.reduce((a, b) => (b.box.width * b.box.height > a.box.width * a.box.height ? b : a));
+    const [leftEye, rightEye, nose, leftMouth, rightMouth] = detection.landmarks;
+    const eyeDistance = distance(leftEye, rightEye);
+    if (eyeDistance === 0) {
+      return null;
+    }
+
+    // Contrast of a patch around each eye; closing the eyes hides the dark iris
+    const patch = eyeDistance * 0.35;
+    const eyeContrast = (
+      standardDeviation(grayscaleRegion(image, leftEye[0], leftEye[1], patch, 16)) +
+      standardDeviation(grayscaleRegion(image, rightEye[0], rightEye[1], patch, 16))
+    ) / 2;
+
+    return {
+      detection,
+      faceCount: detections.length,
+      yaw: (nose[0] - (leftEye[0] + rightEye[0]) / 2) / eyeDistance,
+      mouthWidth: distance(leftMouth, rightMouth) / eyeDistance,
+      eyeContrast
+    };
+  }
+
+  /**
+   * Checks that a burst of frames shows the same live face performing the challenge
+   * @param baseline Observation of the neutral frame taken before the challenges
+   * @param frames Observations of the burst, in capture order (null where no face was found)
+   */
+  evaluateChallenge(challenge: LivenessChallenge, baseline: FrameObservation, frames: (FrameObservation | null)[]): ChallengeResult {
+    const observed = frames.filter((frame): frame is FrameObservation => frame !== null && frame.faceCount === 1);
+    if (frames.length === 0 || observed.length / frames.length < MIN_FACE_COVERAGE) {
+      return { challenge, passed: false, detail: 'Face was not visible in enough frames' };
+    }
+
+    // The face must be tracked continuously from the baseline, not swapped mid-burst
+    let previous = baseline.detection.box;
+    for (const frame of observed) {
+      if (boxIou(previous, frame.detection.box) < MIN_TRACK_IOU) {
+        return { challenge, passed: false, detail: 'Face moved out of frame or changed' };
+      }
+      previous = frame.detection.box;
+    }
+
+    const still = observed.filter(frame => Math.abs(frame.yaw - baseline.yaw) < STILL_YAW_TOLERANCE);
+
+    switch (challenge) {
+      case 'turnLeft':
+      case 'turnRight': {
+        // In the (unmirrored) camera image, turning to your left moves the nose right
+        const direction = challenge === 'turnLeft' ? 1 : -1;
+        const maxTurn = Math.max(...observed.map(frame => (frame.yaw - baseline.yaw) * direction));
+        return {
+          challenge,
+          passed: maxTurn >= TURN_YAW_DELTA,
+          detail: `Head turn ${maxTurn.toFixed(2)} (need ${TURN_YAW_DELTA})`
+        };
+      }
+      case 'smile': {
+        const maxRatio = Math.max(0, ...still.map(frame => frame.mouthWidth / baseline.mouthWidth));
+        return {
+          challenge,
+          passed: maxRatio >= SMILE_WIDTH_RATIO,
+          detail: `Mouth width ratio ${maxRatio.toFixed(2)} (need ${SMILE_WIDTH_RATIO})`
+        };
+      }
+      case 'blink': {
+        // Eyes must close and then open again within the burst
+        const closedAt = still.findIndex(frame => frame.eyeContrast <= baseline.eyeContrast * BLINK_CLOSED_RATIO);
+        const reopened = closedAt >= 0 && still
+          .slice(closedAt + 1)
+          .some(frame => frame.eyeContrast >= baseline.eyeContrast * BLINK_OPEN_RATIO);
+        return {
+          challenge,
+          passed: reopened,
+          detail: closedAt < 0 ? 'No blink detected' : reopened ? 'Blink detected' : 'Eyes did not reopen'
+        };
+      }
+    }
+  }
+
+  /**
+   * Looks for signs of a printed photo or a screen in the face region
+   */
+  async checkPassive(frame: string, observation: FrameObservation): Promise<PassiveLivenessResult> {
+    const image = await loadImage(frame);
+    const { box } = observation.detection;
+    const side = Math.max(box.width, box.height);
+    const gray = grayscaleRegion(image, box.x + box.width / 2, box.y + box.height / 2, side, PASSIVE_CROP_SIZE);
+
+    const texture = textureScore(gray, PASSIVE_CROP_SIZE);
+    const moire = moireScore(gray, PASSIVE_CROP_SIZE);
+
+    let detail = 'Texture and frequency checks passed';
+    if (texture < MIN_TEXTURE_SCORE) {
+      detail = 'Face texture is too flat; this looks like a printed or displayed photo';
+    } else if (moire > MAX_MOIRE_SCORE) {
+      detail = 'Periodic pattern detected; this looks like a screen or printed photo';
+    }
+
+    return {
+      passed: texture >= MIN_TEXTURE_SCORE && moire <= MAX_MOIRE_SCORE,
+      textureScore: texture,
+      moireScore: moire,
+      detail
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import type { InferenceSession } from "onnxruntime-web";
+import { EmbeddingModelInfo } from "../../shared/embeddingPayload";
+import { EmbeddingProvider, FaceEmbeddingResult } from "./EmbeddingProvider";
+import { getFaceDetector } from "./FaceDetector";
+import { Point } from "../../shared/faceDetection";
+import { EMBEDDER_PREPROCESSING, EMBEDDER_PREPROCESSING_HASH, embedderModelName, estimateAlignment } from "../../shared/faceEmbedding";
+import { OnnxRuntime, createCanvasContext, loadOnnxRuntime, toChwTensorData } from "../utils/onnxRuntime";
+
+// Embedder model, served from public/models by default (see README)
+const EMBEDDER_MODEL_URL = import.meta.env.VITE_FACE_EMBEDDER_MODEL_URL || "/models/w600k_mbf.onnx";
+
+/**
+ * Runs face detection, alignment, cropping and embedding entirely in the browser
+ * with onnxruntime-web, so raw images never leave the device.
+ *
+ * Uses an SCRFD detector (five landmarks per face) and an ArcFace-style embedder
+ * on a 112x112 aligned crop. Embeddings are L2-normalized.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "local-onnx";
+  readonly isLocal = true;
+
+  private detector = getFaceDetector();
+  private embedder: InferenceSession | null = null;
+  private ort: OnnxRuntime | null = null;
+  private model: EmbeddingModelInfo | null = null;
+  private loading: Promise<void> | null = null;
+
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadModels().catch(err => {
+        this.loading = null;
+        throw err;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadModels(): Promise<void> {
+    const ort = await loadOnnxRuntime();
+    const [, embedder] = await Promise.all([
+      this.detector.load(),
+      ort.InferenceSession.create(EMBEDDER_MODEL_URL, { executionProviders: ["wasm"] })
+    ]);
+
+    // Run a blank crop once to learn the embedding dimension
+    const probe = new ort.Tensor("float32", new Float32Array(3 * EMBEDDER_PREPROCESSING.cropSize ** 2), [1, 3, EMBEDDER_PREPROCESSING.cropSize, EMBEDDER_PREPROCESSING.cropSize]);
+    const output = await embedder.run({ [embedder.inputNames[0]]: probe });
+    const dimension = output[embedder.outputNames[0]].data.length;
+
+    this.ort = ort;
+    this.embedder = embedder;
+    this.model = {
+      name: embedderModelName(EMBEDDER_MODEL_URL),
+      dimension,
+      normalization: "l2",
+      preprocessingHash: EMBEDDER_PREPROCESSING_HASH
+    };
+    console.log(`Local face models loaded (${this.model.name}, ${dimension} dimensions)`);
+  }
+
+  async embed(image: Blob): Promise<FaceEmbeddingResult> {
+    await this.load();
+
+    const bitmap = await createImageBitmap(image);
+    try {
+      const detections = await this.detector.detect(bitmap);
+      if (detections.length === 0) {
+        throw new Error('No face detected. Make sure your face is clearly visible in the image.');
+      }
+
+      // Use the largest face in the frame
+      const [face] = detections.sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height);
+      const embedding = await this.embedAlignedFace(bitmap, face.landmarks);
+
+      return { embedding, model: this.model!, box: face.box };
+    } finally {
+      bitmap.close();
+    }
+  }
+
+  // Warps the face onto the ArcFace template and embeds the crop
+  private async embedAlignedFace(bitmap: ImageBitmap, landmarks: Point[]): Promise<Float32Array> {
+    const ort = this.ort!;
+    const embedder = this.embedder!;
+    const size = EMBEDDER_PREPROCESSING.cropSize;
+
+    const context = createCanvasContext(size);
+    context.setTransform(...estimateAlignment(landmarks));
+    context.drawImage(bitmap, 0, 0);
+    context.setTransform(1, 0, 0, 1, 0, 0);
+
+    const pixels = context.getImageData(0, 0, size, size).data;
+    const input = new ort.Tensor(
+      "float32",
+      toChwTensorData(pixels, size, EMBEDDER_PREPROCESSING.embedderMean, EMBEDDER_PREPROCESSING.embedderStd),
+      [1, 3, size, size]
+    );
+    const outputs = await embedder.run({ [embedder.inputNames[0]]: input });
+    const raw = outputs[embedder.outputNames[0]].data as Float32Array;
+
+    let magnitude = 0;
+    for (let i = 0; i < raw.length; i++) {
+      magnitude += raw[i] * raw[i];
+    }
+    magnitude = Math.sqrt(magnitude);
+    if (magnitude === 0) {
+      throw new Error('Face embedding model returned a zero vector');
+    }
+
+    return Float32Array.from(raw, value => value / magnitude);
+  }
+}
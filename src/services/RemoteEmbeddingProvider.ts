@@ -0,0 +1,40 @@
+import { ANALYZE_FACE_MODEL, embeddingModelFor } from "../../shared/embeddingPayload";
+import { EmbeddingProvider, FaceEmbeddingResult } from "./EmbeddingProvider";
+import { FaceApiService } from "./FaceApiService";
+
+/**
+ * Embeds faces with the hosted analyze API. The raw image leaves the device,
+ * so this is only used when explicitly configured or as an opt-in fallback.
+ */
+export class RemoteEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "remote-analyze-face";
+  readonly isLocal = false;
+
+  async load(): Promise<void> {
+    await FaceApiService.healthCheck();
+  }
+
+  async embed(image: Blob): Promise<FaceEmbeddingResult> {
+    const result = await FaceApiService.analyzeFace(image);
+
+    if (!result) {
+      throw new Error('No response from API');
+    }
+
+    // Check if the API returned an error
+    if (result.error) {
+      throw new Error(`API error: ${result.error}`);
+    }
+
+    // Check if the API returned an embedding
+    if (!result.embedding || !Array.isArray(result.embedding) || result.embedding.length === 0) {
+      throw new Error('No face embedding returned from API. Make sure your face is clearly visible in the image.');
+    }
+
+    const embedding = new Float32Array(result.embedding);
+    return {
+      embedding,
+      model: embeddingModelFor(ANALYZE_FACE_MODEL, embedding.length)
+    };
+  }
+}
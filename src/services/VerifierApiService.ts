@@ -0,0 +1,274 @@
+import axios from "axios";
+import { ethers } from "ethers";
+import { EmbeddingEnvelope, EnvelopePublicKey, encryptEmbeddingPayload } from "../utils/embeddingEnvelope";
+import { EmbeddingModelInfo, EmbeddingPayload } from "../../shared/embeddingPayload";
+import { SimilarityDecision } from "../../shared/similarityPolicy";
+import { LivenessEvidence } from "../../shared/livenessPolicy";
+
+// Backend that holds the registrant index and the verifier key
+const VERIFIER_API_URL = import.meta.env.VITE_VERIFIER_API_URL || "http://localhost:3103";
+
+// Address of the verifier key; responses signed by any other key are rejected
+const VERIFIER_ADDRESS = import.meta.env.VITE_VERIFIER_ADDRESS;
+
+export interface UniquenessMatch {
+  address: string;
+  similarity: number;
+}
+
+export interface UniquenessResult {
+  wallet: string | null;
+  embeddingHash: string;
+  isUnique: boolean;
+  decision: SimilarityDecision;
+  threshold: number;
+  matches: UniquenessMatch[];
+  liveness: LivenessEvidence | null;
+  issuedAt: number;
+}
+
+// EIP-712 attestation that FaceRegistration.register requires
+export interface RegistrationAttestation {
+  wallet: string;
+  faceHash: string;
+  ipfsHash: string;
+  expiry: number;
+  signature: string;
+}
+
+// EIP-712 attestation that FaceRegistration.requestRecovery requires
+export interface RecoveryAttestation {
+  oldWallet: string;
+  newWallet: string;
+  faceHash: string;
+  ipfsHash: string;
+  expiry: number;
+  signature: string;
+}
+
+export interface RecoveryAttestationResult {
+  oldWallet: string;
+  similarity: number;
+  attestation: RecoveryAttestation;
+}
+
+// Whether the backend has unpinned and purged a deregistered wallet's face data
+export interface ErasureStatus {
+  wallet: string;
+  status: "none" | "pending" | "erased";
+  ipfsHash: string | null;
+  erasedAt: number | null;
+}
+
+// A payout a wallet can claim itself from a campaign's published Merkle root
+export interface CampaignClaim {
+  campaignId: number;
+  // "pending" until the backend publishes a root that includes the wallet
+  status: "pending" | "claimable" | "claimed";
+  // In wei or token units
+  amount: string | null;
+  // ERC-20 token paid out; the zero address for ETH
+  token: string | null;
+  endsAt: number | null;
+  root: string | null;
+  // Proof to pass to FaceRegistration.claim; null while pending
+  proof: string[] | null;
+}
+
+export interface SignedUniquenessResult {
+  result: UniquenessResult;
+  signature: string;
+  signer: string;
+  attestation?: RegistrationAttestation;
+}
+
+// Envelope key as published by the backend, signed by the verifier key
+interface SignedEnvelopeKey {
+  key: EnvelopePublicKey;
+  signature: string | null;
+  signer: string | null;
+}
+
+export class VerifierApiService {
+  private static envelopeKey: Promise<EnvelopePublicKey> | null = null;
+
+  /**
+   * Asks the backend whether a face embedding matches any existing registrant
+   * @param embedding The face embedding to check
+   * @param wallet The wallet that is about to register (its own registration is ignored)
+   * @param ipfsHash The pinned payload holding the embedding; when given and the face is unique,
+   *   the response carries a registration attestation
+   * @param model The model that produced the embedding; the backend assumes the analyze API if omitted
+   * @param liveness Evidence of the capture's liveness check; the backend only attests with it
+   * @returns The signed result; its signature has already been verified
+   */
+  static async checkUniqueness(
+    embedding: Float32Array,
+    wallet: string,
+    ipfsHash?: string,
+    model?: EmbeddingModelInfo,
+    liveness?: LivenessEvidence
+  ): Promise<SignedUniquenessResult> {
+    try {
+      const response = await axios.post<SignedUniquenessResult>(
+        `${VERIFIER_API_URL}/api/check-uniqueness`,
+        {
+          embedding: Array.from(embedding),
+          model,
+          wallet,
+          ipfsHash,
+          liveness
+        },
+        {
+          headers: {
+            "Content-Type": "application/json",
+          },
+          timeout: 15000,
+        }
+      );
+
+      if (!VerifierApiService.verifySignature(response.data)) {
+        throw new Error("Uniqueness result was not signed by the configured verifier");
+      }
+
+      return response.data;
+    } catch (error) {
+      console.error("Uniqueness check error:", error);
+      if (axios.isAxiosError(error) && error.response?.data && typeof error.response.data === 'object' && 'error' in error.response.data) {
+        throw new Error(`Uniqueness check failed: ${error.response.data.error}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Asks the backend to attest that a fresh capture matches an existing registration,
+   * so that registration can be moved to a new wallet
+   * @param embedding The freshly captured face embedding
+   * @param wallet The new wallet that will hold the registration
+   * @param ipfsHash The pinned payload holding the embedding
+   * @param model The model that produced the embedding; the backend assumes the analyze API if omitted
+   * @param liveness Evidence of the capture's liveness check; the backend only attests with it
+   * @returns The registration being recovered and the verifier's attestation
+   */
+  static async getRecoveryAttestation(
+    embedding: Float32Array,
+    wallet: string,
+    ipfsHash: string,
+    model?: EmbeddingModelInfo,
+    liveness?: LivenessEvidence
+  ): Promise<RecoveryAttestationResult> {
+    try {
+      const response = await axios.post<RecoveryAttestationResult>(
+        `${VERIFIER_API_URL}/api/recovery-attestation`,
+        {
+          embedding: Array.from(embedding),
+          model,
+          wallet,
+          ipfsHash,
+          liveness
+        },
+        {
+          headers: {
+            "Content-Type": "application/json",
+          },
+          timeout: 15000,
+        }
+      );
+
+      return response.data;
+    } catch (error) {
+      console.error("Recovery attestation error:", error);
+      if (axios.isAxiosError(error) && error.response?.data && typeof error.response.data === 'object' && 'error' in error.response.data) {
+        throw new Error(`Recovery check failed: ${error.response.data.error}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Asks the backend whether a deregistered wallet's pinned face data has been erased
+   * @param wallet The wallet that deregistered
+   */
+  static async getErasureStatus(wallet: string): Promise<ErasureStatus> {
+    const response = await axios.get<ErasureStatus>(`${VERIFIER_API_URL}/api/erasure`, {
+      params: { wallet },
+      timeout: 30000,
+    });
+    return response.data;
+  }
+
+  /**
+   * Lists the campaign payouts a wallet has been verified for, with their claim proofs
+   * @param wallet The registered wallet
+   */
+  static async getClaims(wallet: string): Promise<CampaignClaim[]> {
+    const response = await axios.get<{ wallet: string, claims: CampaignClaim[] }>(
+      `${VERIFIER_API_URL}/api/claims/${wallet}`,
+      { timeout: 30000 }
+    );
+    return response.data.claims;
+  }
+
+  /**
+   * Fetches the backend's envelope public key, checking the verifier's signature over it
+   * @returns The key embeddings are encrypted to before pinning
+   */
+  static getEnvelopeKey(): Promise<EnvelopePublicKey> {
+    if (!VerifierApiService.envelopeKey) {
+      VerifierApiService.envelopeKey = axios
+        .get<SignedEnvelopeKey>(`${VERIFIER_API_URL}/api/envelope-key`, { timeout: 15000 })
+        .then(response => {
+          const { key, signature, signer } = response.data;
+          if (!signature || !signer || !VerifierApiService.verifySigned(JSON.stringify(key), signature, signer)) {
+            throw new Error("Envelope key was not signed by the configured verifier");
+          }
+          return key;
+        })
+        .catch(error => {
+          VerifierApiService.envelopeKey = null;
+          throw error;
+        });
+    }
+    return VerifierApiService.envelopeKey;
+  }
+
+  /**
+   * Encrypts an embedding payload to the verifier so it can be pinned publicly
+   * @param payload The embedding payload that would otherwise be pinned in plaintext
+   * @returns An envelope only the backend can open
+   */
+  static async sealEmbeddingPayload(payload: EmbeddingPayload): Promise<EmbeddingEnvelope> {
+    const key = await VerifierApiService.getEnvelopeKey();
+    return encryptEmbeddingPayload(payload, key);
+  }
+
+  /**
+   * Checks that a uniqueness result was signed by the verifier key
+   */
+  static verifySignature(signed: SignedUniquenessResult): boolean {
+    return VerifierApiService.verifySigned(JSON.stringify(signed.result), signed.signature, signed.signer);
+  }
+
+  // Checks a personal-message signature against the claimed signer and VITE_VERIFIER_ADDRESS
+  private static verifySigned(message: string, signature: string, signer: string): boolean {
+    try {
+      const recovered = ethers.verifyMessage(message, signature);
+
+      if (recovered.toLowerCase() !== signer.toLowerCase()) {
+        return false;
+      }
+
+      // Without a configured verifier any signer would pass, including a spoofed backend
+      if (!VERIFIER_ADDRESS) {
+        console.error("VITE_VERIFIER_ADDRESS is not set; refusing verifier signatures");
+        return false;
+      }
+
+      return recovered.toLowerCase() === VERIFIER_ADDRESS.toLowerCase();
+    } catch (err) {
+      console.error("Failed to verify verifier signature:", err);
+      return false;
+    }
+  }
+}
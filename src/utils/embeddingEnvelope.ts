@@ -0,0 +1,102 @@
+// Envelope format opened by the backend (see backend/src/services/EnvelopeKeyring.ts)
+export const ENVELOPE_TYPE = 'intellifi.embedding-envelope';
+export const ENVELOPE_VERSION = 1;
+export const ENVELOPE_ALGORITHM = 'ECDH-ES+A256GCM';
+
+// HKDF info string binding derived keys to this envelope version
+const HKDF_INFO = new TextEncoder().encode('intellifi-embedding-envelope/v1');
+
+export interface EmbeddingEnvelope {
+  type: typeof ENVELOPE_TYPE;
+  version: number;
+  alg: string;
+  kid: string;
+  // Ephemeral P-256 public key, raw uncompressed point, base64
+  epk: string;
+  // AES-GCM nonce, base64
+  nonce: string;
+  // AES-GCM ciphertext with appended tag, base64
+  ciphertext: string;
+}
+
+// The verifier's envelope public key as published by the backend
+export interface EnvelopePublicKey {
+  kid: string;
+  alg: string;
+  publicKey: string;
+}
+
+export function isEmbeddingEnvelope(value: unknown): value is EmbeddingEnvelope {
+  return typeof value === 'object' && value !== null && (value as { type?: unknown }).type === ENVELOPE_TYPE;
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const array = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < array.length; i++) {
+    binary += String.fromCharCode(array[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encrypt a JSON payload to the verifier's public key (ECDH-ES with an ephemeral
+ * P-256 key, HKDF-SHA-256 and AES-256-GCM), entirely in the browser
+ * @param payload - The data to encrypt, e.g. the face embedding payload
+ * @param recipient - The verifier's envelope public key
+ * @returns An envelope that only the backend can open
+ */
+export async function encryptEmbeddingPayload(payload: unknown, recipient: EnvelopePublicKey): Promise<EmbeddingEnvelope> {
+  if (recipient.alg !== ENVELOPE_ALGORITHM) {
+    throw new Error(`Unsupported envelope algorithm: ${recipient.alg}`);
+  }
+
+  const recipientKey = await crypto.subtle.importKey(
+    'raw', fromBase64(recipient.publicKey), { name: 'ECDH', namedCurve: 'P-256' }, false, []
+  );
+  const ephemeral = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+  const epk = new Uint8Array(await crypto.subtle.exportKey('raw', ephemeral.publicKey));
+
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'ECDH', public: recipientKey }, ephemeral.privateKey, 256
+  );
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+  const aesKey = await crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: epk, info: HKDF_INFO },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt']
+  );
+
+  const nonce = crypto.getRandomValues(new Uint8Array(12));
+  const header = { version: ENVELOPE_VERSION, alg: ENVELOPE_ALGORITHM, kid: recipient.kid };
+
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: 'AES-GCM',
+      iv: nonce,
+      // Authenticate the header so it cannot be swapped
+      additionalData: new TextEncoder().encode(`${header.version}.${header.alg}.${header.kid}`)
+    },
+    aesKey,
+    new TextEncoder().encode(JSON.stringify(payload))
+  );
+
+  return {
+    type: ENVELOPE_TYPE,
+    ...header,
+    epk: toBase64(epk),
+    nonce: toBase64(nonce),
+    ciphertext: toBase64(ciphertext)
+  };
+}
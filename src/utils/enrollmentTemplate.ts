@@ -0,0 +1,159 @@
+import type { FaceBox } from '../services/EmbeddingProvider';
+import { EmbeddingTemplateInfo, TemplateFrameQuality } from '../../shared/embeddingPayload';
+
+// Per-frame quality gates; frames outside them are not averaged into the template
+const MIN_BRIGHTNESS = 40;
+const MAX_BRIGHTNESS = 220;
+const MIN_SHARPNESS = 2;
+const MIN_FACE_SIZE = 0.15;
+const MIN_DETECTOR_SCORE = 0.6;
+
+// Frames less similar than this to the mean of the others are outliers
+const MIN_SIMILARITY_TO_TEMPLATE = 0.6;
+
+// A template needs at least this many accepted frames
+export const MIN_TEMPLATE_FRAMES = 3;
+
+// One captured frame: its embedding (if one could be computed) and its measurements
+export interface EnrollmentFrame {
+  embedding: Float32Array | null;
+  box?: FaceBox;
+  quality: Omit<TemplateFrameQuality, 'similarityToTemplate' | 'accepted'>;
+}
+
+export interface EnrollmentTemplate {
+  embedding: Float32Array;
+  info: EmbeddingTemplateInfo;
+}
+
+/**
+ * Measures brightness, sharpness and face size of a frame
+ * @param frame The frame as a data URL
+ * @param box The detected face box, if the embedding provider reports one
+ */
+export async function measureFrameQuality(frame: string, box?: FaceBox): Promise<EnrollmentFrame['quality']> {
+  const img = new Image();
+  img.src = frame;
+  await img.decode();
+
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Could not analyze image');
+  }
+  ctx.drawImage(img, 0, 0);
+  const data = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+
+  const width = canvas.width;
+  const height = canvas.height;
+  const luma = new Float32Array(width * height);
+  let brightness = 0;
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+    brightness += luma[i] / luma.length;
+  }
+
+  // Mean absolute Laplacian; blurred (moving) frames score low
+  let sharpness = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      sharpness += Math.abs(4 * luma[i] - luma[i - 1] - luma[i + 1] - luma[i - width] - luma[i + width]);
+    }
+  }
+  sharpness /= Math.max(1, (width - 2) * (height - 2));
+
+  return {
+    detectorScore: box ? box.score : null,
+    faceSize: box ? box.width / width : null,
+    sharpness,
+    brightness
+  };
+}
+
+function passesQualityGates(quality: EnrollmentFrame['quality']): boolean {
+  return quality.brightness >= MIN_BRIGHTNESS &&
+    quality.brightness <= MAX_BRIGHTNESS &&
+    quality.sharpness >= MIN_SHARPNESS &&
+    (quality.faceSize === null || quality.faceSize >= MIN_FACE_SIZE) &&
+    (quality.detectorScore === null || quality.detectorScore >= MIN_DETECTOR_SCORE);
+}
+
+function normalize(vector: Float32Array): Float32Array | null {
+  let magnitude = 0;
+  for (let i = 0; i < vector.length; i++) {
+    magnitude += vector[i] * vector[i];
+  }
+  magnitude = Math.sqrt(magnitude);
+  return magnitude > 0 ? vector.map(value => value / magnitude) : null;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+// Re-normalized mean of unit vectors
+function meanDirection(vectors: Float32Array[]): Float32Array | null {
+  if (vectors.length === 0) {
+    return null;
+  }
+  const sum = new Float32Array(vectors[0].length);
+  for (const vector of vectors) {
+    for (let i = 0; i < sum.length; i++) {
+      sum[i] += vector[i];
+    }
+  }
+  return normalize(sum);
+}
+
+/**
+ * Averages frame embeddings into one template.
+ *
+ * Frames failing the quality gates are dropped; each remaining frame is then
+ * compared with the mean of the others (leave-one-out) and dropped if it is an
+ * outlier. The first frame is the liveness-verified one and must survive, so the
+ * template cannot drift to another face.
+ * @throws If the anchor frame is rejected or too few frames remain
+ */
+export function buildEnrollmentTemplate(frames: EnrollmentFrame[]): EnrollmentTemplate {
+  const units = frames.map(frame => (frame.embedding ? normalize(frame.embedding) : null));
+  const candidates = new Set(
+    units
+      .map((unit, index) => (unit && passesQualityGates(frames[index].quality) ? index : -1))
+      .filter(index => index >= 0)
+  );
+
+  const outliers = [...candidates].filter(index => {
+    const others = [...candidates].filter(other => other !== index).map(other => units[other]!);
+    const reference = meanDirection(others);
+    return reference !== null && dot(units[index]!, reference) < MIN_SIMILARITY_TO_TEMPLATE;
+  });
+  outliers.forEach(index => candidates.delete(index));
+
+  if (!candidates.has(0)) {
+    throw new Error('The verified frame did not pass quality checks. Please try again with better lighting.');
+  }
+  if (candidates.size < MIN_TEMPLATE_FRAMES) {
+    throw new Error(`Only ${candidates.size} usable frames captured (need ${MIN_TEMPLATE_FRAMES}). Please hold still and try again.`);
+  }
+
+  const embedding = meanDirection([...candidates].map(index => units[index]!))!;
+
+  return {
+    embedding,
+    info: {
+      method: 'mean-l2',
+      frames: frames.map((frame, index) => ({
+        ...frame.quality,
+        similarityToTemplate: units[index] ? dot(units[index]!, embedding) : null,
+        accepted: candidates.has(index)
+      }))
+    }
+  };
+}
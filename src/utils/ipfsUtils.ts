@@ -1,4 +1,6 @@
 import axios from 'axios';
+import { EmbeddingEnvelope } from './embeddingEnvelope';
+import { EmbeddingPayload } from '../../shared/embeddingPayload';
 
 // Get Pinata JWT from environment variable
 const PINATA_JWT = import.meta.env.VITE_PINATA_JWT;
@@ -6,21 +8,13 @@ const PINATA_JWT = import.meta.env.VITE_PINATA_JWT;
 // Base URL for Pinata API
 const PINATA_API_URL = 'https://api.pinata.cloud';
 
-// Define a type for the data to upload
-interface IPFSUploadData {
-  embedding?: number[];
-  timestamp?: number;
-  version?: string;
-  [key: string]: unknown;
-}
-
 /**
  * Upload data to IPFS via Pinata
- * @param data - The data to upload
+ * @param data - The data to upload; face embeddings should be sealed in an envelope first
  * @param name - Name for the file (optional)
  * @returns The IPFS hash (CID) of the uploaded content
  */
-export async function uploadToIPFS(data: IPFSUploadData, name = 'face-embedding'): Promise<string> {
+export async function uploadToIPFS(data: EmbeddingPayload | EmbeddingEnvelope, name = 'face-embedding'): Promise<string> {
   if (!PINATA_JWT) {
     throw new Error('Pinata JWT not found in environment variables');
   }
@@ -0,0 +1,52 @@
+// Optional location of the onnxruntime-web .wasm files; the bundled copies are used if unset
+const ORT_WASM_PATH = import.meta.env.VITE_ORT_WASM_PATH;
+
+export type OnnxRuntime = typeof import('onnxruntime-web');
+
+let runtime: Promise<OnnxRuntime> | null = null;
+
+/**
+ * Loads onnxruntime-web on demand so the runtime is only fetched when a local model is used
+ */
+export function loadOnnxRuntime(): Promise<OnnxRuntime> {
+  if (!runtime) {
+    runtime = import('onnxruntime-web').then(ort => {
+      if (ORT_WASM_PATH) {
+        ort.env.wasm.wasmPaths = ORT_WASM_PATH;
+      }
+      return ort;
+    }).catch(err => {
+      runtime = null;
+      throw err;
+    });
+  }
+  return runtime;
+}
+
+/**
+ * Creates an offscreen square canvas for preparing model inputs
+ */
+export function createCanvasContext(size: number): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas 2D context is not available');
+  }
+  return context;
+}
+
+/**
+ * Packs RGBA canvas pixels into a normalized NCHW RGB tensor buffer
+ */
+export function toChwTensorData(pixels: Uint8ClampedArray, size: number, mean: number, std: number): Float32Array {
+  const area = size * size;
+  const data = new Float32Array(3 * area);
+  for (let i = 0; i < area; i++) {
+    data[i] = (pixels[i * 4] - mean) / std;
+    data[area + i] = (pixels[i * 4 + 1] - mean) / std;
+    data[2 * area + i] = (pixels[i * 4 + 2] - mean) / std;
+  }
+  return data;
+}
@@ -22,7 +22,7 @@ export default defineConfig({
     },
   },
   optimizeDeps: {
-    exclude: ['@tensorflow/tfjs-node'],
+    exclude: ['@tensorflow/tfjs-node', 'onnxruntime-web'],
   },
   build: {
     commonjsOptions: {